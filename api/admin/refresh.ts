@@ -0,0 +1,25 @@
+import { adminRefreshHandler } from '../handlers/admin-refresh';
+import { invalidRequestBody } from '../../dist/openapi/index';
+
+export default async function handler(req: Request): Promise<Response> {
+  let body: unknown;
+  if (req.method === 'POST') {
+    try {
+      body = await req.json();
+    } catch {
+      return Response.json(
+        invalidRequestBody([{ in: 'body', name: 'body', message: 'is not valid JSON' }]),
+        { status: 400 }
+      );
+    }
+  }
+
+  const result = await adminRefreshHandler(req.method, body, req.headers);
+  const headers = new Headers(result.headers || {});
+  headers.set('Content-Type', 'application/json');
+
+  return new Response(JSON.stringify(result.body), {
+    status: result.status,
+    headers
+  });
+}
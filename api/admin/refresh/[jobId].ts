@@ -0,0 +1,15 @@
+import { adminRefreshStatusHandler } from '../../handlers/admin-refresh';
+
+export default async function handler(req: Request): Promise<Response> {
+  const url = new URL(req.url);
+  const jobId = url.pathname.split('/').pop();
+
+  const result = await adminRefreshStatusHandler(req.method, jobId, req.headers);
+  const headers = new Headers(result.headers || {});
+  headers.set('Content-Type', 'application/json');
+
+  return new Response(JSON.stringify(result.body), {
+    status: result.status,
+    headers
+  });
+}
@@ -1,9 +1,21 @@
 import { serve } from 'bun';
 import { indexHandler } from './handlers/index';
 import { healthcheckHandler } from './handlers/healthcheck';
+import { metricsHandler } from './handlers/metrics';
 import { pricesHandler } from './handlers/prices';
 import { pricesChainHandler } from './handlers/prices-chain';
 import { pricesTokensHandler } from './handlers/prices-tokens';
+import { pricesHistoryHandler } from './handlers/prices-history';
+import { pricesQueryHandler } from './handlers/prices-query';
+import { pricesStreamHandler } from './handlers/prices-stream';
+import { pricesQuoteHandler } from './handlers/prices-quote';
+import { pricesExplainHandler } from './handlers/prices-explain';
+import { tokensHandler } from './handlers/tokens';
+import { diagnosticsCoverageHandler } from './handlers/diagnostics-coverage';
+import { adminRefreshHandler, adminRefreshStatusHandler } from './handlers/admin-refresh';
+import { openApiHandler } from './handlers/openapi';
+import { ydaemonHandler } from './handlers/ydaemon';
+import { invalidRequestBody } from '../dist/openapi/index';
 
 serve({
   async fetch(req) {
@@ -19,15 +31,36 @@ serve({
     // Healthcheck endpoint
     if (url.pathname === '/api/healthcheck') {
       const result = await healthcheckHandler(method);
-      return Response.json(result.body, { status: result.status });
+      return Response.json(result.body, { status: result.status, headers: result.headers });
+    }
+
+    // Prometheus metrics
+    if (url.pathname === '/api/metrics' || url.pathname === '/metrics') {
+      const result = await metricsHandler(method);
+      if (typeof result.body !== 'string') {
+        return Response.json(result.body, { status: result.status });
+      }
+      return new Response(result.body, { status: result.status, headers: result.headers });
+    }
+
+    // OpenAPI document
+    if (url.pathname === '/api/openapi.json' || url.pathname === '/openapi.json') {
+      const result = await openApiHandler(method);
+      const headers = new Headers(result.headers || {});
+      headers.set('Content-Type', 'application/json');
+      return new Response(JSON.stringify(result.body), {
+        status: result.status,
+        headers
+      });
     }
 
     // All prices endpoint (both /api/prices and /api/prices/all)
     if (url.pathname === '/api/prices' || url.pathname === '/api/prices/all') {
-      const result = await pricesHandler(method);
+      const result = await pricesHandler(method, url.searchParams, req.headers);
       const headers = new Headers(result.headers || {});
-      headers.set('Content-Type', 'application/json');
-      return new Response(JSON.stringify(result.body), { 
+      if (!headers.has('Content-Type')) headers.set('Content-Type', 'application/json');
+      const body = typeof result.body === 'string' ? result.body : JSON.stringify(result.body);
+      return new Response(result.status === 304 ? null : body, { 
         status: result.status,
         headers 
       });
@@ -39,10 +72,11 @@ serve({
     
     if (chainMatch || chainAllMatch) {
       const chainId = chainMatch?.[1] || chainAllMatch?.[1];
-      const result = await pricesChainHandler(method, chainId);
+      const result = await pricesChainHandler(method, chainId, url.searchParams, req.headers);
       const headers = new Headers(result.headers || {});
-      headers.set('Content-Type', 'application/json');
-      return new Response(JSON.stringify(result.body), { 
+      if (!headers.has('Content-Type')) headers.set('Content-Type', 'application/json');
+      const body = typeof result.body === 'string' ? result.body : JSON.stringify(result.body);
+      return new Response(result.status === 304 ? null : body, { 
         status: result.status,
         headers 
       });
@@ -52,18 +86,164 @@ serve({
     const tokensMatch = url.pathname.match(/^\/api\/prices\/tokens\/(.+)$/);
     if (tokensMatch) {
       const list = tokensMatch[1];
-      const result = await pricesTokensHandler(method, list);
+      const result = await pricesTokensHandler(method, list, url.searchParams, req.headers);
       const headers = new Headers(result.headers || {});
       headers.set('Content-Type', 'application/json');
-      return new Response(JSON.stringify(result.body), { 
+      return new Response(result.status === 304 ? null : JSON.stringify(result.body), { 
         status: result.status,
         headers 
       });
     }
 
+    // Batch price query endpoint
+    if (url.pathname === '/api/prices/query') {
+      let body: unknown;
+      if (method === 'POST') {
+        try {
+          body = await req.json();
+        } catch {
+          return Response.json(
+            invalidRequestBody([{ in: 'body', name: 'body', message: 'is not valid JSON' }]),
+            { status: 400 }
+          );
+        }
+      }
+      const result = await pricesQueryHandler(method, body, url.searchParams, req.headers);
+      const headers = new Headers(result.headers || {});
+      headers.set('Content-Type', 'application/json');
+      return new Response(JSON.stringify(result.body), {
+        status: result.status,
+        headers
+      });
+    }
+
+    // Live price changes over Server-Sent Events
+    if (url.pathname === '/api/prices/stream') {
+      const result = await pricesStreamHandler(method, url.searchParams, req.headers);
+      if (!result.stream) {
+        return Response.json(result.body, { status: result.status });
+      }
+      return new Response(result.stream, {
+        status: result.status,
+        headers: result.headers
+      });
+    }
+
+    // Price history endpoint
+    const historyMatch = url.pathname.match(/^\/api\/prices\/history\/(\d+)\/([^/]+)$/);
+    if (historyMatch) {
+      const [, chainId, address] = historyMatch;
+      const result = await pricesHistoryHandler(method, chainId, address, url.searchParams);
+      const headers = new Headers(result.headers || {});
+      headers.set('Content-Type', 'application/json');
+      return new Response(JSON.stringify(result.body), {
+        status: result.status,
+        headers
+      });
+    }
+
+    // On-demand quote endpoint
+    const quoteMatch = url.pathname.match(/^\/api\/prices\/quote\/(\d+)\/([^/]+)$/);
+    if (quoteMatch) {
+      const [, chainId, address] = quoteMatch;
+      const result = await pricesQuoteHandler(method, chainId, address, url.searchParams, req.headers);
+      const headers = new Headers(result.headers || {});
+      headers.set('Content-Type', 'application/json');
+      return new Response(JSON.stringify(result.body), {
+        status: result.status,
+        headers
+      });
+    }
+
+    // Price derivation explain endpoint
+    const explainMatch = url.pathname.match(/^\/api\/prices\/explain\/(\d+)\/([^/]+)$/);
+    if (explainMatch) {
+      const [, chainId, address] = explainMatch;
+      const result = await pricesExplainHandler(method, chainId, address, url.searchParams);
+      const headers = new Headers(result.headers || {});
+      headers.set('Content-Type', 'application/json');
+      return new Response(JSON.stringify(result.body), {
+        status: result.status,
+        headers
+      });
+    }
+
+    // Token registry endpoints
+    const tokensRegistryMatch = url.pathname.match(/^\/api\/tokens\/(\d+)(?:\/([^/]+))?$/);
+    if (tokensRegistryMatch) {
+      const [, chainId, address] = tokensRegistryMatch;
+      const result = await tokensHandler(method, chainId, address);
+      const headers = new Headers(result.headers || {});
+      headers.set('Content-Type', 'application/json');
+      return new Response(JSON.stringify(result.body), {
+        status: result.status,
+        headers
+      });
+    }
+
+    // Coverage diagnostics endpoint
+    const coverageMatch = url.pathname.match(/^\/api\/diagnostics\/coverage\/(\d+)$/);
+    if (coverageMatch) {
+      const result = await diagnosticsCoverageHandler(method, coverageMatch[1]);
+      const headers = new Headers(result.headers || {});
+      headers.set('Content-Type', 'application/json');
+      return new Response(JSON.stringify(result.body), {
+        status: result.status,
+        headers
+      });
+    }
+
+    // Admin refresh trigger
+    if (url.pathname === '/api/admin/refresh') {
+      let body: unknown;
+      if (method === 'POST') {
+        try {
+          body = await req.json();
+        } catch {
+          return Response.json(
+            invalidRequestBody([{ in: 'body', name: 'body', message: 'is not valid JSON' }]),
+            { status: 400 }
+          );
+        }
+      }
+      const result = await adminRefreshHandler(method, body, req.headers);
+      const headers = new Headers(result.headers || {});
+      headers.set('Content-Type', 'application/json');
+      return new Response(JSON.stringify(result.body), {
+        status: result.status,
+        headers
+      });
+    }
+
+    // Admin refresh job status
+    const jobMatch = url.pathname.match(/^\/api\/admin\/refresh\/([^/]+)$/);
+    if (jobMatch) {
+      const result = await adminRefreshStatusHandler(method, jobMatch[1], req.headers);
+      const headers = new Headers(result.headers || {});
+      headers.set('Content-Type', 'application/json');
+      return new Response(JSON.stringify(result.body), {
+        status: result.status,
+        headers
+      });
+    }
+
+    // ydaemon-compatible routes
+    const ydaemonMatch = url.pathname.match(/^\/(?:api\/)?ydaemon(?:\/(.*))?$/);
+    if (ydaemonMatch) {
+      const result = await ydaemonHandler(method, ydaemonMatch[1] ?? '', url.searchParams);
+      const headers = new Headers(result.headers || {});
+      headers.set('Content-Type', 'application/json');
+      return new Response(JSON.stringify(result.body), {
+        status: result.status,
+        headers
+      });
+    }
+
     return new Response('Not found', { status: 404 });
   },
   port: 3001,
+  // Stream connections stay open between heartbeats
+  idleTimeout: 30,
 });
 
 console.log('🚀 API server running on http://localhost:3001');
\ No newline at end of file
@@ -0,0 +1,182 @@
+import { waitUntil } from '@vercel/functions';
+import { initializeStorage, StorageType } from '../../dist/storage/index';
+import { logger, isAdminEnabled, isAdminAuthorized } from '../../dist/utils/index';
+import { validateRequest, invalidRequestBody } from '../../dist/openapi/index';
+import { chainDiscoveryServices, chainFetchers } from '../../dist/discovery/config';
+import refreshJobService from '../../dist/services/refreshJobService';
+
+// Initialize storage once when the function loads
+let storageInitialized = false;
+function ensureStorageInitialized() {
+  if (!storageInitialized) {
+    const cacheTTL = parseInt(process.env.CACHE_TTL_SECONDS || '0');
+    const storageType = (process.env.STORAGE_TYPE || 'redis') as StorageType;
+    initializeStorage(storageType, cacheTTL);
+    storageInitialized = true;
+  }
+}
+
+const statusUrl = (id: string) => `/api/admin/refresh/${id}`;
+
+// Shared by both admin routes, undefined when the request may go on
+function checkAdminAuth(headers?: Headers) {
+  if (!isAdminEnabled()) {
+    return {
+      status: 503,
+      body: { error: 'Admin routes are disabled, set ADMIN_REFRESH_SECRET to enable them' }
+    };
+  }
+  if (!isAdminAuthorized(headers)) {
+    return {
+      status: 401,
+      body: { error: 'Unauthorized' },
+      headers: { 'WWW-Authenticate': 'Bearer' }
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Body: { chainId, discoveryService?, fetcher? }, the same choices as refresh-route.
+ * The refresh runs in the background; poll the returned status URL for its outcome. On Vercel
+ * waitUntil keeps the function alive until the job ends, elsewhere the process outlives it.
+ */
+export async function adminRefreshHandler(
+  method: string | undefined,
+  body: any,
+  headers?: Headers
+) {
+  if (method !== 'POST') {
+    return {
+      status: 405,
+      body: { error: 'Method not allowed' }
+    };
+  }
+
+  const unauthorized = checkAdminAuth(headers);
+  if (unauthorized) return unauthorized;
+
+  const issues = validateRequest('triggerRefresh', { body });
+  if (issues.length > 0) {
+    return {
+      status: 400,
+      body: invalidRequestBody(issues)
+    };
+  }
+
+  const { chainId, discoveryService, fetcher } = body as {
+    chainId: number;
+    discoveryService?: string;
+    fetcher?: string;
+  };
+
+  if (discoveryService && fetcher) {
+    return {
+      status: 400,
+      body: invalidRequestBody([
+        { in: 'body', name: 'body', message: 'must not set both discoveryService and fetcher' }
+      ])
+    };
+  }
+  if (discoveryService && !(chainDiscoveryServices[chainId] || []).includes(discoveryService)) {
+    return {
+      status: 400,
+      body: invalidRequestBody([
+        {
+          in: 'body',
+          name: 'body.discoveryService',
+          message: `is not available for chain ${chainId}, use one of ${(chainDiscoveryServices[chainId] || []).join(', ')}`
+        }
+      ])
+    };
+  }
+  if (fetcher && !(chainFetchers[chainId] || []).includes(fetcher)) {
+    return {
+      status: 400,
+      body: invalidRequestBody([
+        {
+          in: 'body',
+          name: 'body.fetcher',
+          message: `is not available for chain ${chainId}, use one of ${(chainFetchers[chainId] || []).join(', ')}`
+        }
+      ])
+    };
+  }
+
+  try {
+    ensureStorageInitialized();
+
+    const started = await refreshJobService.start({ chainId, discoveryService, fetcher });
+    if ('runningJobId' in started) {
+      return {
+        status: 409,
+        body: {
+          error: `A refresh of chain ${chainId} is already running`,
+          jobId: started.runningJobId,
+          statusUrl: statusUrl(started.runningJobId)
+        }
+      };
+    }
+
+    const { job, finished } = started;
+    waitUntil(finished);
+    return {
+      status: 202,
+      body: { jobId: job.id, statusUrl: statusUrl(job.id), job },
+      headers: { Location: statusUrl(job.id) }
+    };
+  } catch (error) {
+    logger.error('Error starting refresh job:', error);
+    return {
+      status: 500,
+      body: { error: 'Internal server error' }
+    };
+  }
+}
+
+export async function adminRefreshStatusHandler(
+  method: string | undefined,
+  jobId: string | undefined,
+  headers?: Headers
+) {
+  if (method !== 'GET') {
+    return {
+      status: 405,
+      body: { error: 'Method not allowed' }
+    };
+  }
+
+  const unauthorized = checkAdminAuth(headers);
+  if (unauthorized) return unauthorized;
+
+  const issues = validateRequest('getRefreshJob', { path: { jobId } });
+  if (issues.length > 0) {
+    return {
+      status: 400,
+      body: invalidRequestBody(issues)
+    };
+  }
+
+  try {
+    ensureStorageInitialized();
+    const job = await refreshJobService.get(jobId as string);
+    if (!job) {
+      return {
+        status: 404,
+        body: { error: `Refresh job ${jobId} not found` }
+      };
+    }
+
+    return {
+      status: 200,
+      body: job,
+      headers: { 'Cache-Control': 'no-store' }
+    };
+  } catch (error) {
+    logger.error('Error fetching refresh job:', error);
+    return {
+      status: 500,
+      body: { error: 'Internal server error' }
+    };
+  }
+}
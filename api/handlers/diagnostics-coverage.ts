@@ -0,0 +1,70 @@
+import { initializeStorage, StorageWrapper, getStorage, StorageType } from '../../dist/storage/index';
+import { logger } from '../../dist/utils/index';
+import { validateRequest, invalidRequestBody } from '../../dist/openapi/index';
+
+// Initialize storage once when the function loads
+let storageInitialized = false;
+function ensureStorageInitialized() {
+  if (!storageInitialized) {
+    const cacheTTL = parseInt(process.env.CACHE_TTL_SECONDS || '0');
+    const storageType = (process.env.STORAGE_TYPE || 'redis') as StorageType;
+    initializeStorage(storageType, cacheTTL);
+    storageInitialized = true;
+  }
+}
+
+export async function diagnosticsCoverageHandler(
+  method: string | undefined,
+  chainIdParam: string | undefined
+) {
+  if (method !== 'GET') {
+    return {
+      status: 405,
+      body: { error: 'Method not allowed' }
+    };
+  }
+
+  const issues = validateRequest('getChainCoverage', { path: { chainId: chainIdParam } });
+  if (issues.length > 0) {
+    return {
+      status: 400,
+      body: invalidRequestBody(issues)
+    };
+  }
+
+  try {
+    const chainId = parseInt(chainIdParam as string);
+
+    ensureStorageInitialized();
+    const storage = new StorageWrapper(getStorage());
+    const report = await storage.getCoverageReport(chainId);
+
+    if (!report) {
+      return {
+        status: 404,
+        body: { error: `No refresh run has reported coverage for chain ${chainId}` }
+      };
+    }
+
+    return {
+      status: 200,
+      body: {
+        chainId: report.chainId,
+        generatedAt: Math.floor(report.generatedAt / 1000),
+        discovered: report.discovered,
+        priced: report.priced,
+        coverage: report.discovered > 0 ? report.priced / report.discovered : 1,
+        missing: report.missing
+      },
+      headers: {
+        'Cache-Control': 's-maxage=60, stale-while-revalidate'
+      }
+    };
+  } catch (error) {
+    logger.error('Error fetching coverage report:', error);
+    return {
+      status: 500,
+      body: { error: 'Internal server error' }
+    };
+  }
+}
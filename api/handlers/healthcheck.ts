@@ -1,3 +1,38 @@
+import {
+  initializeStorage,
+  StorageWrapper,
+  getStorage,
+  getCurrentStorageType,
+  getRequestedStorageType,
+  StorageType
+} from '../../dist/storage/index';
+import { SUPPORTED_CHAINS } from '../../dist/models/index';
+import { logger } from '../../dist/utils/index';
+
+// A monitored chain whose last full refresh was published longer ago than this is stale
+const HEALTHCHECK_MAX_AGE_SECONDS = parseInt(process.env.HEALTHCHECK_MAX_AGE_SECONDS || '7200');
+
+// Comma-separated chain IDs to monitor, defaults to every supported chain
+const MONITORED_CHAINS = process.env.HEALTHCHECK_CHAINS
+  ? process.env.HEALTHCHECK_CHAINS.split(',').map((id) => parseInt(id.trim()))
+  : Object.values(SUPPORTED_CHAINS).map((chain: any) => chain.id as number);
+
+// Initialize storage once when the function loads
+let storageInitialized = false;
+function ensureStorageInitialized() {
+  if (!storageInitialized) {
+    const cacheTTL = parseInt(process.env.CACHE_TTL_SECONDS || '0');
+    const storageType = (process.env.STORAGE_TYPE || 'redis') as StorageType;
+    initializeStorage(storageType, cacheTTL);
+    storageInitialized = true;
+  }
+}
+
+/**
+ * `ok` when storage answers and every monitored chain was refreshed within the budget,
+ * `degraded` (503) when a chain is stale or storage fell back to files, and `down` (503) when
+ * storage cannot be reached
+ */
 export async function healthcheckHandler(method: string | undefined) {
   if (method !== 'GET') {
     return {
@@ -6,12 +41,85 @@ export async function healthcheckHandler(method: string | undefined) {
     };
   }
 
+  const now = Date.now();
+  const headers = { 'Cache-Control': 'no-store' };
+
+  let storage: StorageWrapper;
+  const probeStart = Date.now();
+  try {
+    ensureStorageInitialized();
+    storage = new StorageWrapper(getStorage());
+    await storage.ping();
+  } catch (error) {
+    logger.error('[Healthcheck] Storage probe failed:', error);
+    return {
+      status: 503,
+      body: {
+        healthcheck: now,
+        status: 'down',
+        service: 'yearn-pricing',
+        storage: {
+          type: getCurrentStorageType(),
+          ok: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }
+      },
+      headers
+    };
+  }
+  const latencyMs = Date.now() - probeStart;
+
+  // A backend that failed to initialize was replaced by file storage, which other instances
+  // do not share
+  const storageType = getCurrentStorageType();
+  const requestedType = getRequestedStorageType();
+  const fallback = storageType === 'file' && requestedType !== 'file';
+
+  // Only full refreshes publish snapshots, on-demand quotes and narrowed admin refreshes
+  // store prices without one
+  const chains: any = {};
+  const refreshes = await Promise.all(
+    MONITORED_CHAINS.map(async (chainId) => {
+      const [version, snapshots] = await Promise.all([
+        storage.getChainVersion(chainId),
+        storage.listSnapshots(chainId)
+      ]);
+      const lastPublished = snapshots.length > 0
+        ? Math.max(...snapshots.map((snapshot) => snapshot.createdAt))
+        : undefined;
+      return [chainId, version, lastPublished] as const;
+    })
+  );
+  for (const [chainId, version, lastPublished] of refreshes) {
+    const age = lastPublished ? Math.max(0, Math.floor((now - lastPublished) / 1000)) : null;
+    chains[chainId.toString()] = {
+      lastRefresh: lastPublished ? Math.floor(lastPublished / 1000) : null,
+      age,
+      priceCount: version?.priceCount ?? 0,
+      // Chains that never published a refresh are as stale as it gets
+      stale: age === null || age > HEALTHCHECK_MAX_AGE_SECONDS
+    };
+  }
+
+  const staleChains = Object.keys(chains).filter((chainId) => chains[chainId].stale);
+  const status = staleChains.length > 0 || fallback ? 'degraded' : 'ok';
+
   return {
-    status: 200,
+    status: status === 'ok' ? 200 : 503,
     body: {
-      healthcheck: Date.now(),
-      status: 'ok',
-      service: 'yearn-pricing'
-    }
+      healthcheck: now,
+      status,
+      service: 'yearn-pricing',
+      storage: {
+        type: storageType,
+        ok: true,
+        latencyMs,
+        ...(fallback ? { fallbackFrom: requestedType } : {})
+      },
+      maxAge: HEALTHCHECK_MAX_AGE_SECONDS,
+      staleChains,
+      chains
+    },
+    headers
   };
-}
\ No newline at end of file
+}
@@ -15,7 +15,20 @@ export async function indexHandler(method: string | undefined) {
         'GET /api/prices - returns all prices',
         'GET /api/prices/chain/[chainId] - returns all prices for that chain',
         'GET /api/prices/tokens/[list] - returns prices for specific tokens (format: chainId:address,chainId:address)',
-        'GET /api/healthcheck - returns service health status'
+        'POST /api/prices/query - returns prices for a JSON body of tokens ({ chainId, address }) and/or whole chains',
+        'GET /api/prices/stream - streams price changes as Server-Sent Events (query: chains, addresses)',
+        'GET /api/prices/history/[chainId]/[address] - returns price history for a token (query: from, to, interval)',
+        'GET /api/prices/quote/[chainId]/[address] - returns the price of a token, pricing it on demand if it was never discovered',
+        'GET /api/prices/explain/[chainId]/[address] - returns how a price was derived, down to the base price',
+        'GET /api/tokens/[chainId] - returns the discovered token registry for that chain',
+        'GET /api/tokens/[chainId]/[address] - returns the registry entry of a discovered token',
+        'GET /api/diagnostics/coverage/[chainId] - returns the discovered tokens the last refresh could not price',
+        'POST /api/admin/refresh - starts a refresh of a chain, a discovery service or a fetcher (bearer secret required)',
+        'GET /api/admin/refresh/[jobId] - returns the status of a refresh job (bearer secret required)',
+        'GET /ydaemon/prices/all, /ydaemon/[chainId]/prices/all|some/[addresses]|[address] - ydaemon-compatible price routes',
+        'GET /api/healthcheck - returns service health status',
+        'GET /metrics - returns Prometheus metrics for prices, coverage, refreshes, fetchers, RPC calls and requests',
+        'GET /api/openapi.json - returns the OpenAPI 3 document describing every route'
       ]
     }
   };
@@ -0,0 +1,133 @@
+import { initializeStorage, StorageWrapper, getStorage, StorageType } from '../../dist/storage/index';
+import { SUPPORTED_CHAINS, ChainPriceVersion } from '../../dist/models/index';
+import {
+  logger,
+  metrics,
+  storedPrices,
+  coverageTokens,
+  coverageRatio,
+  pricesLastStored,
+  storageUp,
+  PROMETHEUS_CONTENT_TYPE,
+  Labels
+} from '../../dist/utils/index';
+
+const CHAIN_IDS = Object.values(SUPPORTED_CHAINS).map((chain: any) => chain.id as number);
+
+// Initialize storage once when the function loads
+let storageInitialized = false;
+function ensureStorageInitialized() {
+  if (!storageInitialized) {
+    const cacheTTL = parseInt(process.env.CACHE_TTL_SECONDS || '0');
+    const storageType = (process.env.STORAGE_TYPE || 'redis') as StorageType;
+    initializeStorage(storageType, cacheTTL);
+    storageInitialized = true;
+  }
+}
+
+type GaugeSeries = Array<[Labels, number]>;
+
+/**
+ * Prices per source of each chain, counted from a full read of its prices. Kept until the chain is
+ * stored again or prices expire, so scrapes between two refreshes only read the chain versions.
+ */
+const sourceCounts = new Map<number, { key: string; series: GaugeSeries }>();
+
+async function countPricesBySource(
+  storage: StorageWrapper,
+  chainId: number,
+  version: ChainPriceVersion | undefined
+): Promise<GaugeSeries> {
+  // No version means no prices
+  if (!version) return [];
+
+  // The version alone misses stores that only change sources
+  const key = `${version.version}:${version.lastStored ?? version.lastModified}:${version.priceCount}`;
+  const cached = sourceCounts.get(chainId);
+  if (cached?.key === key) return cached.series;
+
+  const { asSlice } = await storage.listPrices(chainId);
+  const bySource = new Map<string, number>();
+  asSlice.forEach((price) => {
+    bySource.set(price.source, (bySource.get(price.source) || 0) + 1);
+  });
+  const series: GaugeSeries = Array.from(bySource, ([source, count]) => [{ chain: chainId, source }, count]);
+  sourceCounts.set(chainId, { key, series });
+  return series;
+}
+
+/**
+ * Gauges read from storage are rebuilt on every scrape, so they hold wherever the refresh runs.
+ * Values are collected first and swapped in after the last read, so concurrent scrapes each
+ * render a complete set.
+ */
+async function collectStorageGauges(storage: StorageWrapper) {
+  const prices: GaugeSeries = [];
+  const tokens: GaugeSeries = [];
+  const ratios: GaugeSeries = [];
+  const lastStoredTimes: GaugeSeries = [];
+
+  await Promise.all(
+    CHAIN_IDS.map(async (chainId) => {
+      const [report, version] = await Promise.all([
+        storage.getCoverageReport(chainId),
+        storage.getChainVersion(chainId)
+      ]);
+
+      prices.push(...(await countPricesBySource(storage, chainId, version)));
+
+      if (report) {
+        tokens.push([{ chain: chainId, status: 'priced' }, report.priced]);
+        tokens.push([{ chain: chainId, status: 'missing' }, report.discovered - report.priced]);
+        ratios.push([{ chain: chainId }, report.discovered > 0 ? report.priced / report.discovered : 1]);
+      }
+
+      const lastStored = version?.lastStored ?? version?.lastModified;
+      if (lastStored) {
+        lastStoredTimes.push([{ chain: chainId }, Math.floor(lastStored / 1000)]);
+      }
+    })
+  );
+
+  storedPrices.replace(prices);
+  coverageTokens.replace(tokens);
+  coverageRatio.replace(ratios);
+  pricesLastStored.replace(lastStoredTimes);
+}
+
+/**
+ * Prometheus text exposition of the refresh, fetcher, RPC, cache and request metrics of this
+ * process, plus price and coverage gauges read from storage
+ */
+export async function metricsHandler(method: string | undefined) {
+  if (method !== 'GET') {
+    return {
+      status: 405,
+      body: { error: 'Method not allowed' }
+    };
+  }
+
+  try {
+    ensureStorageInitialized();
+    await collectStorageGauges(new StorageWrapper(getStorage()));
+    storageUp.set({}, 1);
+  } catch (error) {
+    // Process metrics are still worth a scrape when storage is down. The storage gauges are
+    // emptied rather than reported stale, alerts on them must not fire on old values.
+    logger.error('[Metrics] Failed to read storage gauges:', error);
+    storedPrices.replace([]);
+    coverageTokens.replace([]);
+    coverageRatio.replace([]);
+    pricesLastStored.replace([]);
+    storageUp.set({}, 0);
+  }
+
+  return {
+    status: 200,
+    body: metrics.render(),
+    headers: {
+      'Content-Type': PROMETHEUS_CONTENT_TYPE,
+      'Cache-Control': 'no-store'
+    }
+  };
+}
@@ -0,0 +1,18 @@
+import { openApiSpec } from '../../dist/openapi/index';
+
+export async function openApiHandler(method: string | undefined) {
+  if (method !== 'GET') {
+    return {
+      status: 405,
+      body: { error: 'Method not allowed' }
+    };
+  }
+
+  return {
+    status: 200,
+    body: openApiSpec,
+    headers: {
+      'Cache-Control': 's-maxage=3600, stale-while-revalidate'
+    }
+  };
+}
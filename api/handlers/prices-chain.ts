@@ -1,6 +1,24 @@
 import { initializeStorage, StorageWrapper, getStorage, StorageType } from '../../dist/storage/index';
-import { SUPPORTED_CHAINS } from '../../dist/models/index';
-import { logger } from '../../dist/utils/index';
+import {
+  API_VERSION_HEADERS,
+  logger,
+  parsePriceOutputOptions,
+  serializePrice,
+  buildPriceValidators,
+  isNotModified,
+  parseExportFormat,
+  serializePriceExport,
+  EXPORT_CONTENT_TYPES,
+  parsePriceListFilters,
+  priceListVariant,
+  selectPrices
+} from '../../dist/utils/index';
+import { validateRequest, invalidRequestBody } from '../../dist/openapi/index';
+import priceConversionService from '../../dist/services/priceConversionService';
+
+const CACHE_CONTROL = 's-maxage=60, stale-while-revalidate';
+// Export formats follow Accept, the JSON body shape follows the API version headers
+const VARY = `Accept, ${API_VERSION_HEADERS}`;
 
 // Initialize storage once when the function loads
 let storageInitialized = false;
@@ -13,7 +31,22 @@ function ensureStorageInitialized() {
   }
 }
 
-export async function pricesChainHandler(method: string | undefined, chainIdParam: string | undefined) {
+// The next page is the same request continued after the last address of this one
+function nextPageHeaders(query: URLSearchParams, nextCursor: string) {
+  const next = new URLSearchParams(query);
+  next.set('cursor', nextCursor);
+  return {
+    'X-Next-Cursor': nextCursor,
+    Link: `<?${next.toString()}>; rel="next"`
+  };
+}
+
+export async function pricesChainHandler(
+  method: string | undefined,
+  chainIdParam: string | undefined,
+  query: URLSearchParams = new URLSearchParams(),
+  headers?: Headers
+) {
   if (method !== 'GET') {
     return {
       status: 405,
@@ -21,32 +54,97 @@ export async function pricesChainHandler(method: string | undefined, chainIdPara
     };
   }
 
+  const issues = validateRequest('getChainPrices', { path: { chainId: chainIdParam }, query });
+  if (issues.length > 0) {
+    return {
+      status: 400,
+      body: invalidRequestBody(issues)
+    };
+  }
+
   try {
     const chainId = parseInt(chainIdParam as string);
-    
-    // Validate chain ID
-    if (!chainId || !Object.values(SUPPORTED_CHAINS).some((c: any) => c.id === chainId)) {
+    // Format was validated above
+    const output = parsePriceOutputOptions(query, headers)!;
+    const exportFormat = parseExportFormat(headers);
+
+    ensureStorageInitialized();
+    const storage = new StorageWrapper(getStorage());
+
+    const quote = await priceConversionService.resolveQuote(chainId, query.get('quote'));
+    if (!quote) {
       return {
         status: 400,
-        body: { error: 'Invalid chain ID' }
+        body: invalidRequestBody([
+          { in: 'query', name: 'quote', message: `has no price on chain ${chainId}` }
+        ])
       };
     }
-    
-    ensureStorageInitialized();
-    const storage = new StorageWrapper(getStorage());
+
+    const filters = parsePriceListFilters(query);
+    const filterVariant = priceListVariant(filters);
+
+    // Detailed bodies carry each price's age and exports each row's store time, which the chain
+    // version does not follow, so neither is answered with 304
+    const validators = output.detailed || exportFormat || filterVariant === undefined
+      ? undefined
+      : buildPriceValidators(
+          new Map([[chainId, await storage.getChainVersion(chainId)]]),
+          `chain:${output.format}:${await priceConversionService.quoteVariant(query.get('quote'), [chainId])}:${filterVariant}`
+        );
+
+    if (validators && isNotModified(headers, validators)) {
+      return {
+        status: 304,
+        body: null,
+        headers: { ...validators, 'Cache-Control': CACHE_CONTROL, Vary: VARY }
+      };
+    }
+
     const { asMap } = await storage.listPrices(chainId);
+    const vaults = filters.vaultsOnly
+      ? new Set(
+          (await storage.getTokenRegistry(chainId))
+            .filter((token) => token.isVault)
+            .map((token) => token.address.toLowerCase())
+        )
+      : undefined;
+    // minPrice applies to the converted price, in the currency of the response
+    const { prices, nextCursor } = selectPrices(
+      await priceConversionService.convertPrices(chainId, asMap, quote),
+      filters,
+      vaults
+    );
+    const pageHeaders = nextCursor ? nextPageHeaders(query, nextCursor) : {};
+
+    if (exportFormat) {
+      return {
+        status: 200,
+        body: serializePriceExport(
+          Array.from(prices.values(), (price) => [chainId, price] as [number, typeof price]),
+          exportFormat,
+          output.format
+        ),
+        headers: {
+          ...pageHeaders,
+          'Content-Type': EXPORT_CONTENT_TYPES[exportFormat],
+          'Cache-Control': CACHE_CONTROL,
+          Vary: VARY
+        }
+      };
+    }
+
+    const now = Date.now();
     const response: any = {};
     
-    asMap.forEach((price, address) => {
-      response[address.toLowerCase()] = price.price.toString();
+    prices.forEach((price, address) => {
+      response[address.toLowerCase()] = serializePrice(price, output, now);
     });
     
     return {
       status: 200,
       body: response,
-      headers: {
-        'Cache-Control': 's-maxage=60, stale-while-revalidate'
-      }
+      headers: { ...validators, ...pageHeaders, 'Cache-Control': CACHE_CONTROL, Vary: VARY }
     };
   } catch (error) {
     logger.error('Error fetching chain prices:', error);
@@ -0,0 +1,86 @@
+import { initializeStorage, StorageType } from '../../dist/storage/index';
+import { logger, parsePriceOutputOptions, toPriceResponse, formatPrice } from '../../dist/utils/index';
+import { validateRequest, invalidRequestBody } from '../../dist/openapi/index';
+import priceService from '../../dist/services/priceService';
+
+// Initialize storage once when the function loads
+let storageInitialized = false;
+function ensureStorageInitialized() {
+  if (!storageInitialized) {
+    const cacheTTL = parseInt(process.env.CACHE_TTL_SECONDS || '0');
+    const storageType = (process.env.STORAGE_TYPE || 'redis') as StorageType;
+    initializeStorage(storageType, cacheTTL);
+    storageInitialized = true;
+  }
+}
+
+export async function pricesExplainHandler(
+  method: string | undefined,
+  chainIdParam: string | undefined,
+  addressParam: string | undefined,
+  query: URLSearchParams = new URLSearchParams()
+) {
+  if (method !== 'GET') {
+    return {
+      status: 405,
+      body: { error: 'Method not allowed' }
+    };
+  }
+
+  const issues = validateRequest('explainPrice', {
+    path: { chainId: chainIdParam, address: addressParam },
+    query
+  });
+  if (issues.length > 0) {
+    return {
+      status: 400,
+      body: invalidRequestBody(issues)
+    };
+  }
+
+  try {
+    const chainId = parseInt(chainIdParam as string);
+    const address = (addressParam as string).toLowerCase();
+    // Format was validated above
+    const { format } = parsePriceOutputOptions(query)!;
+
+    ensureStorageInitialized();
+
+    const steps = await priceService.explainPrice(chainId, address);
+    if (steps.length === 0) {
+      return {
+        status: 404,
+        body: { error: `No price found for ${address} on chain ${chainId}` }
+      };
+    }
+
+    const now = Date.now();
+    return {
+      status: 200,
+      body: {
+        chainId,
+        address,
+        // Each step is priced from the next one, the last step is a base price
+        steps: steps.map((step) => ({
+          ...toPriceResponse(step, now, format),
+          symbol: step.symbol,
+          derivation: step.derivation && {
+            ...step.derivation,
+            underlyingPrice: step.derivation.underlyingPrice
+              ? formatPrice(BigInt(step.derivation.underlyingPrice), format)
+              : undefined
+          }
+        }))
+      },
+      headers: {
+        'Cache-Control': 's-maxage=60, stale-while-revalidate'
+      }
+    };
+  } catch (error) {
+    logger.error('Error explaining token price:', error);
+    return {
+      status: 500,
+      body: { error: 'Internal server error' }
+    };
+  }
+}
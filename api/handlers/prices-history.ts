@@ -0,0 +1,115 @@
+import { initializeStorage, StorageWrapper, getStorage, StorageType } from '../../dist/storage/index';
+import {
+  logger,
+  downsampleHistory,
+  formatPrice,
+  parsePriceFormat,
+  parseHistoryInterval,
+  parseHistoryTimestamp
+} from '../../dist/utils/index';
+import { validateRequest, invalidRequestBody, ValidationIssue } from '../../dist/openapi/index';
+
+const DEFAULT_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Initialize storage once when the function loads
+let storageInitialized = false;
+function ensureStorageInitialized() {
+  if (!storageInitialized) {
+    const cacheTTL = parseInt(process.env.CACHE_TTL_SECONDS || '0');
+    const storageType = (process.env.STORAGE_TYPE || 'redis') as StorageType;
+    initializeStorage(storageType, cacheTTL);
+    storageInitialized = true;
+  }
+}
+
+export async function pricesHistoryHandler(
+  method: string | undefined,
+  chainIdParam: string | undefined,
+  addressParam: string | undefined,
+  query: URLSearchParams
+) {
+  if (method !== 'GET') {
+    return {
+      status: 405,
+      body: { error: 'Method not allowed' }
+    };
+  }
+
+  const issues = validateRequest('getPriceHistory', {
+    path: { chainId: chainIdParam, address: addressParam },
+    query
+  });
+  if (issues.length > 0) {
+    return {
+      status: 400,
+      body: invalidRequestBody(issues)
+    };
+  }
+
+  try {
+    const chainId = parseInt(chainIdParam as string);
+    const address = (addressParam as string).toLowerCase();
+
+    // Time range is given in unix seconds (or ISO dates), defaulting to the last 7 days
+    const fromParam = query.get('from');
+    const toParam = query.get('to');
+    const intervalParam = query.get('interval');
+
+    const to = toParam ? parseHistoryTimestamp(toParam) : Date.now();
+    const from = fromParam ? parseHistoryTimestamp(fromParam) : (to || Date.now()) - DEFAULT_WINDOW_MS;
+    const interval = intervalParam ? parseHistoryInterval(intervalParam) : undefined;
+
+    const rangeIssues: ValidationIssue[] = [];
+    if (from === undefined) {
+      rangeIssues.push({ in: 'query', name: 'from', message: 'is not a valid timestamp' });
+    }
+    if (to === undefined) {
+      rangeIssues.push({ in: 'query', name: 'to', message: 'is not a valid timestamp' });
+    }
+    if (from !== undefined && to !== undefined && from > to) {
+      rangeIssues.push({ in: 'query', name: 'from', message: 'must not be after to' });
+    }
+    if (intervalParam && !interval) {
+      rangeIssues.push({ in: 'query', name: 'interval', message: 'must be a positive interval' });
+    }
+    if (from === undefined || to === undefined || rangeIssues.length > 0) {
+      return {
+        status: 400,
+        body: invalidRequestBody(rangeIssues)
+      };
+    }
+
+    // Format was validated above
+    const format = parsePriceFormat(query.get('format'))!;
+
+    ensureStorageInitialized();
+    const storage = new StorageWrapper(getStorage());
+    const history = await storage.getPriceHistory(chainId, address, from, to);
+    const points = interval ? downsampleHistory(history, interval) : history;
+
+    return {
+      status: 200,
+      body: {
+        chainId,
+        address,
+        from: Math.floor(from / 1000),
+        to: Math.floor(to / 1000),
+        interval: interval ? interval / 1000 : null,
+        points: points.map((point) => ({
+          timestamp: Math.floor(point.timestamp / 1000),
+          price: formatPrice(point.price, format),
+          source: point.source
+        }))
+      },
+      headers: {
+        'Cache-Control': 's-maxage=60, stale-while-revalidate'
+      }
+    };
+  } catch (error) {
+    logger.error('Error fetching price history:', error);
+    return {
+      status: 500,
+      body: { error: 'Internal server error' }
+    };
+  }
+}
@@ -0,0 +1,122 @@
+import { initializeStorage, StorageWrapper, getStorage, StorageType } from '../../dist/storage/index';
+import { logger, parsePriceOutputOptions, serializePrice } from '../../dist/utils/index';
+import { validateRequest, invalidRequestBody } from '../../dist/openapi/index';
+import priceConversionService from '../../dist/services/priceConversionService';
+
+// Initialize storage once when the function loads
+let storageInitialized = false;
+function ensureStorageInitialized() {
+  if (!storageInitialized) {
+    const cacheTTL = parseInt(process.env.CACHE_TTL_SECONDS || '0');
+    const storageType = (process.env.STORAGE_TYPE || 'redis') as StorageType;
+    initializeStorage(storageType, cacheTTL);
+    storageInitialized = true;
+  }
+}
+
+/**
+ * Body: { tokens?: [{ chainId, address }], chains?: [chainId] }, see the queryPrices operation
+ * Tokens are grouped per chain so each chain costs a single storage read.
+ */
+export async function pricesQueryHandler(
+  method: string | undefined,
+  body: any,
+  query: URLSearchParams = new URLSearchParams(),
+  headers?: Headers
+) {
+  if (method !== 'POST') {
+    return {
+      status: 405,
+      body: { error: 'Method not allowed' }
+    };
+  }
+
+  const issues = validateRequest('queryPrices', { query, body });
+  if (issues.length > 0) {
+    return {
+      status: 400,
+      body: invalidRequestBody(issues)
+    };
+  }
+
+  const tokens: Array<{ chainId: number; address: string }> = body.tokens ?? [];
+  const chains: number[] = body.chains ?? [];
+
+  if (tokens.length === 0 && chains.length === 0) {
+    return {
+      status: 400,
+      body: invalidRequestBody([
+        { in: 'body', name: 'body', message: 'must request at least one token or chain' }
+      ])
+    };
+  }
+
+  const addressesByChain = new Map<number, Set<string>>();
+  for (const token of tokens) {
+    const addresses = addressesByChain.get(token.chainId) || new Set<string>();
+    addresses.add(token.address.toLowerCase());
+    addressesByChain.set(token.chainId, addresses);
+  }
+
+  // Format was validated above
+  const output = parsePriceOutputOptions(query, headers)!;
+
+  try {
+    ensureStorageInitialized();
+    const storage = new StorageWrapper(getStorage());
+    const now = Date.now();
+
+    const response: any = { prices: {}, chains: {}, missing: [] };
+
+    await Promise.all([
+      ...Array.from(addressesByChain.entries()).map(async ([chainId, addresses]) => {
+        // Without a resolvable quote every token of the chain is reported missing
+        const quote = await priceConversionService.resolveQuote(chainId, query.get('quote'));
+        const prices = quote
+          ? await priceConversionService.convertPrices(
+              chainId,
+              await storage.getPrices(chainId, Array.from(addresses)),
+              quote
+            )
+          : new Map();
+        for (const address of addresses) {
+          const price = prices.get(address);
+          if (price) {
+            response.prices[`${chainId}:${address}`] = serializePrice(price, output, now);
+          } else {
+            response.missing.push(`${chainId}:${address}`);
+          }
+        }
+      }),
+      ...Array.from(new Set<number>(chains)).map(async (chainId) => {
+        const quote = await priceConversionService.resolveQuote(chainId, query.get('quote'));
+        // Reported like unpriced tokens, a requested chain never silently disappears
+        if (!quote) {
+          response.missing.push(`${chainId}:*`);
+          return;
+        }
+        const { asMap } = await storage.listPrices(chainId);
+        const prices = await priceConversionService.convertPrices(chainId, asMap, quote);
+        const chainDict: any = {};
+        prices.forEach((price, address) => {
+          chainDict[address.toLowerCase()] = serializePrice(price, output, now);
+        });
+        response.chains[chainId.toString()] = chainDict;
+      })
+    ]);
+
+    return {
+      status: 200,
+      body: response,
+      headers: {
+        'Cache-Control': 'no-store'
+      }
+    };
+  } catch (error) {
+    logger.error('Error querying prices:', error);
+    return {
+      status: 500,
+      body: { error: 'Internal server error' }
+    };
+  }
+}
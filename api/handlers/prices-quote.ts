@@ -0,0 +1,209 @@
+import { initializeStorage, StorageType } from '../../dist/storage/index';
+import {
+  API_VERSION_HEADERS,
+  isAdminAuthorized,
+  logger,
+  parsePriceOutputOptions,
+  serializePrice,
+  getPricingBlock,
+  findBlockByTimestamp
+} from '../../dist/utils/index';
+import { validateRequest, invalidRequestBody } from '../../dist/openapi/index';
+import priceService from '../../dist/services/priceService';
+import priceConversionService from '../../dist/services/priceConversionService';
+
+// Initialize storage once when the function loads
+let storageInitialized = false;
+function ensureStorageInitialized() {
+  if (!storageInitialized) {
+    const cacheTTL = parseInt(process.env.CACHE_TTL_SECONDS || '0');
+    const storageType = (process.env.STORAGE_TYPE || 'redis') as StorageType;
+    initializeStorage(storageType, cacheTTL);
+    storageInitialized = true;
+  }
+}
+
+// A block mined this recently may not be the last one at or before the timestamp yet
+const SETTLED_TIMESTAMP_SECONDS = 300;
+
+// Past prices are converted with today's rates otherwise, so they are only served in USD.
+// The block is given as `block`, or as `timestamp` for the last block mined at or before it.
+async function quoteAtBlock(
+  chainId: number,
+  address: string,
+  query: URLSearchParams,
+  output: ReturnType<typeof parsePriceOutputOptions> & {}
+) {
+  const by = query.has('block') ? 'block' : 'timestamp';
+  if (query.has('block') && query.has('timestamp')) {
+    return {
+      status: 400,
+      body: invalidRequestBody([
+        { in: 'query', name: 'timestamp', message: 'cannot be combined with block' }
+      ])
+    };
+  }
+
+  const quoteParam = query.get('quote');
+  if (quoteParam && quoteParam.toLowerCase() !== 'usd') {
+    return {
+      status: 400,
+      body: invalidRequestBody([
+        { in: 'query', name: 'quote', message: `cannot be combined with ${by}` }
+      ])
+    };
+  }
+
+  let block;
+  try {
+    block = by === 'block'
+      ? await getPricingBlock(chainId, BigInt(query.get('block') as string))
+      : await findBlockByTimestamp(chainId, parseInt(query.get('timestamp') as string));
+  } catch (error) {
+    if (error instanceof Error && error.name === 'BlockNotFoundError') {
+      return {
+        status: 400,
+        body: invalidRequestBody([
+          { in: 'query', name: 'block', message: `was not found on chain ${chainId}` }
+        ])
+      };
+    }
+    if (error instanceof Error && error.name === 'TimestampOutOfRangeError') {
+      return {
+        status: 400,
+        body: invalidRequestBody([{ in: 'query', name: 'timestamp', message: error.message }])
+      };
+    }
+    throw error;
+  }
+  const settled =
+    by === 'block' ||
+    Date.now() / 1000 - parseInt(query.get('timestamp') as string) > SETTLED_TIMESTAMP_SECONDS;
+
+  const quote = await priceService.priceTokenAt(chainId, address, block);
+  if (!quote) {
+    return {
+      status: 404,
+      body: { error: `${address} is not an ERC20 token on chain ${chainId}` }
+    };
+  }
+  if (!quote.price) {
+    return {
+      status: 404,
+      body: { error: `No price found for ${address} on chain ${chainId} at block ${block.number}` }
+    };
+  }
+
+  return {
+    status: 200,
+    body: { [address]: serializePrice(quote.price, output) },
+    headers: {
+      // A mined block's price does not change
+      'Cache-Control': settled
+        ? 's-maxage=86400, stale-while-revalidate'
+        : 's-maxage=60, stale-while-revalidate',
+      Vary: API_VERSION_HEADERS,
+      'X-Block-Number': block.number.toString(),
+      'X-Block-Timestamp': block.timestamp.toString()
+    }
+  };
+}
+
+export async function pricesQuoteHandler(
+  method: string | undefined,
+  chainIdParam: string | undefined,
+  addressParam: string | undefined,
+  query: URLSearchParams = new URLSearchParams(),
+  headers?: Headers
+) {
+  if (method !== 'GET') {
+    return {
+      status: 405,
+      body: { error: 'Method not allowed' }
+    };
+  }
+
+  const issues = validateRequest('quotePrice', {
+    path: { chainId: chainIdParam, address: addressParam },
+    query
+  });
+  if (issues.length > 0) {
+    return {
+      status: 400,
+      body: invalidRequestBody(issues)
+    };
+  }
+
+  try {
+    const chainId = parseInt(chainIdParam as string);
+    const address = (addressParam as string).toLowerCase();
+    // Format was validated above
+    const output = parsePriceOutputOptions(query, headers)!;
+
+    ensureStorageInitialized();
+
+    if (query.has('block') || query.has('timestamp')) {
+      return await quoteAtBlock(chainId, address, query, output);
+    }
+
+    const quoteCurrency = await priceConversionService.resolveQuote(chainId, query.get('quote'));
+    if (!quoteCurrency) {
+      return {
+        status: 400,
+        body: invalidRequestBody([
+          { in: 'query', name: 'quote', message: `has no price on chain ${chainId}` }
+        ])
+      };
+    }
+
+    // Stored prices are returned as is. Unknown tokens are read and priced on chain for admin
+    // requests only, each one costs RPC calls now and a slot in every later refresh.
+    const onDemand = isAdminAuthorized(headers);
+    const quote = await priceService.quoteToken(chainId, address, onDemand);
+    if (!quote) {
+      return {
+        status: 404,
+        body: { error: `${address} is not an ERC20 token on chain ${chainId}` }
+      };
+    }
+    if (!quote.price) {
+      return {
+        status: 404,
+        body: {
+          error: onDemand
+            ? `No price found for ${address} on chain ${chainId}`
+            : `No price stored for ${address} on chain ${chainId}, unknown tokens are priced on demand for admin requests`
+        }
+      };
+    }
+
+    const converted = (
+      await priceConversionService.convertPrices(
+        chainId,
+        new Map([[address, quote.price]]),
+        quoteCurrency
+      )
+    ).get(address);
+    if (!converted) {
+      return {
+        status: 404,
+        body: { error: `No ${query.get('quote')} price found for ${address} on chain ${chainId}` }
+      };
+    }
+
+    return {
+      status: 200,
+      body: { [address]: serializePrice(converted, output) },
+      headers: {
+        'Cache-Control': 's-maxage=60, stale-while-revalidate',
+        Vary: API_VERSION_HEADERS
+      }
+    };
+  } catch (error) {
+    logger.error('Error quoting token price:', error);
+    return {
+      status: 500,
+      body: { error: 'Internal server error' }
+    };
+  }
+}
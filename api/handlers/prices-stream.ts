@@ -0,0 +1,122 @@
+import { initializeStorage, StorageType, subscribePriceChanges } from '../../dist/storage/index';
+import { logger, parsePriceOutputOptions, serializePrice } from '../../dist/utils/index';
+import { validateRequest, invalidRequestBody } from '../../dist/openapi/index';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// Initialize storage once when the function loads
+let storageInitialized = false;
+
+function ensureStorageInitialized() {
+  if (!storageInitialized) {
+    const cacheTTL = parseInt(process.env.CACHE_TTL_SECONDS || '0');
+    const storageType = (process.env.STORAGE_TYPE || 'redis') as StorageType;
+    initializeStorage(storageType, cacheTTL);
+    storageInitialized = true;
+  }
+}
+
+/**
+ * Server-Sent Events stream of price changes, one `prices` event per storage write.
+ * Query: chains=1,10 and/or addresses=0xabc,10:0xdef (an address may be pinned to a chain).
+ */
+export async function pricesStreamHandler(
+  method: string | undefined,
+  query: URLSearchParams = new URLSearchParams(),
+  headers?: Headers
+) {
+  if (method !== 'GET') {
+    return {
+      status: 405,
+      body: { error: 'Method not allowed' }
+    };
+  }
+
+  const issues = validateRequest('streamPrices', { query });
+  if (issues.length > 0) {
+    return {
+      status: 400,
+      body: invalidRequestBody(issues)
+    };
+  }
+
+  // Format was validated above
+  const output = parsePriceOutputOptions(query, headers)!;
+
+  const chains = new Set<number>(
+    (query.get('chains') || '').split(',').filter(Boolean).map((chainId) => parseInt(chainId))
+  );
+
+  // Addresses without a chain prefix match on every chain
+  const anyChainAddresses = new Set<string>();
+  const chainAddresses = new Set<string>();
+  for (const token of (query.get('addresses') || '').split(',').filter(Boolean)) {
+    const [first, second] = token.toLowerCase().split(':');
+    if (second !== undefined) {
+      chainAddresses.add(`${parseInt(first as string)}:${second}`);
+    } else {
+      anyChainAddresses.add(first as string);
+    }
+  }
+
+  const hasAddressFilter = anyChainAddresses.size > 0 || chainAddresses.size > 0;
+  const matches = (chainId: number, address: string) =>
+    (chains.size === 0 || chains.has(chainId)) &&
+    (!hasAddressFilter || anyChainAddresses.has(address) || chainAddresses.has(`${chainId}:${address}`));
+
+  // Shared storage is polled for changes, file storage reports them in-process
+  ensureStorageInitialized();
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribePriceChanges(({ chainId, changes }) => {
+        const now = Date.now();
+        const prices: any = {};
+        for (const entry of changes) {
+          if (matches(chainId, entry.address)) {
+            prices[entry.address] = serializePrice(entry, output, now);
+          }
+        }
+        if (Object.keys(prices).length > 0) {
+          send(`event: prices\ndata: ${JSON.stringify({ chainId, prices })}\n\n`);
+        }
+      });
+
+      // Comment lines keep proxies from closing idle connections
+      const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      send(': connected\n\n');
+      logger.debug('[API] Price stream client connected');
+    },
+    cancel() {
+      cleanup();
+      logger.debug('[API] Price stream client disconnected');
+    }
+  });
+
+  return {
+    status: 200,
+    stream,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    }
+  };
+}
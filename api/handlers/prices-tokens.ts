@@ -1,5 +1,16 @@
 import { initializeStorage, StorageWrapper, getStorage, StorageType } from '../../dist/storage/index';
-import { logger } from '../../dist/utils/index';
+import {
+  API_VERSION_HEADERS,
+  logger,
+  parsePriceOutputOptions,
+  serializePrice,
+  buildPriceValidators,
+  isNotModified
+} from '../../dist/utils/index';
+import { validateRequest, invalidRequestBody } from '../../dist/openapi/index';
+import priceConversionService from '../../dist/services/priceConversionService';
+
+const CACHE_CONTROL = 's-maxage=60, stale-while-revalidate';
 
 // Initialize storage once when the function loads
 let storageInitialized = false;
@@ -12,7 +23,12 @@ function ensureStorageInitialized() {
   }
 }
 
-export async function pricesTokensHandler(method: string | undefined, list: string | undefined) {
+export async function pricesTokensHandler(
+  method: string | undefined,
+  list: string | undefined,
+  query: URLSearchParams = new URLSearchParams(),
+  headers?: Headers
+) {
   if (method !== 'GET') {
     return {
       status: 405,
@@ -32,32 +48,82 @@ export async function pricesTokensHandler(method: string | undefined, list: stri
       };
     }
     
-    ensureStorageInitialized();
-    const storage = new StorageWrapper(getStorage());
-    const response: any = {};
+    const issues = validateRequest('getTokenPrices', { path: { list: tokens }, query });
+    if (issues.length > 0) {
+      return {
+        status: 400,
+        body: invalidRequestBody(issues)
+      };
+    }
+    
+    // Format was validated above
+    const output = parsePriceOutputOptions(query, headers)!;
     
     // Parse token list: "1:0xabc,10:0xdef,137:0x123"
-    const tokenList = tokens.split(',');
+    const tokenList = tokens.split(',').filter(Boolean);
+    const addressesByChain = new Map<number, string[]>();
     
     for (const token of tokenList) {
       const [chainIdStr, address] = token.split(':');
-      const chainId = parseInt(chainIdStr || '');
-      
-      if (chainId && address) {
-        const price = await storage.getPrice(chainId, address);
-        if (price) {
-          // Use the full chainId:address as the key
-          response[`${chainId}:${address.toLowerCase()}`] = price.price.toString();
-        }
-      }
+      const chainId = parseInt(chainIdStr as string);
+      const addresses = addressesByChain.get(chainId) || [];
+      addresses.push((address as string).toLowerCase());
+      addressesByChain.set(chainId, addresses);
+    }
+    
+    ensureStorageInitialized();
+    const storage = new StorageWrapper(getStorage());
+    
+    // Detailed bodies carry each price's age, so they never match a previous response
+    const requested = Array.from(addressesByChain.entries())
+      .flatMap(([chainId, addresses]) => addresses.map((address) => `${chainId}:${address}`))
+      .sort();
+    const validators = output.detailed
+      ? undefined
+      : buildPriceValidators(
+          new Map(
+            await Promise.all(
+              Array.from(addressesByChain.keys()).map(
+                async (chainId) => [chainId, await storage.getChainVersion(chainId)] as const
+              )
+            )
+          ),
+          `tokens:${output.format}:${await priceConversionService.quoteVariant(query.get('quote'), Array.from(addressesByChain.keys()))}:${requested.join(',')}`
+        );
+    
+    if (validators && isNotModified(headers, validators)) {
+      return {
+        status: 304,
+        body: null,
+        headers: { ...validators, 'Cache-Control': CACHE_CONTROL, Vary: API_VERSION_HEADERS }
+      };
     }
     
+    const now = Date.now();
+    const response: any = {};
+    
+    // One storage read per chain instead of one per token
+    await Promise.all(
+      Array.from(addressesByChain.entries()).map(async ([chainId, addresses]) => {
+        // Tokens of chains the quote cannot be resolved on are omitted like unpriced ones
+        const quote = await priceConversionService.resolveQuote(chainId, query.get('quote'));
+        if (!quote) return;
+        const prices = await priceConversionService.convertPrices(
+          chainId,
+          await storage.getPrices(chainId, addresses),
+          quote
+        );
+        prices.forEach((price, address) => {
+          // Use the full chainId:address as the key
+          response[`${chainId}:${address}`] = serializePrice(price, output, now);
+        });
+      })
+    );
+    
     return {
       status: 200,
       body: response,
-      headers: {
-        'Cache-Control': 's-maxage=60, stale-while-revalidate'
-      }
+      headers: { ...validators, 'Cache-Control': CACHE_CONTROL, Vary: API_VERSION_HEADERS }
     };
   } catch (error) {
     logger.error('Error fetching token prices:', error);
@@ -1,5 +1,22 @@
 import { initializeStorage, StorageWrapper, getStorage, StorageType } from '../../dist/storage/index';
-import { logger } from '../../dist/utils';
+import { SUPPORTED_CHAINS, StoredPrice } from '../../dist/models/index';
+import {
+  API_VERSION_HEADERS,
+  logger,
+  parsePriceOutputOptions,
+  serializePrice,
+  buildPriceValidators,
+  isNotModified,
+  parseExportFormat,
+  serializePriceExport,
+  EXPORT_CONTENT_TYPES
+} from '../../dist/utils';
+import { validateRequest, invalidRequestBody } from '../../dist/openapi/index';
+import priceConversionService from '../../dist/services/priceConversionService';
+
+const CACHE_CONTROL = 's-maxage=60, stale-while-revalidate';
+// Export formats follow Accept, the JSON body shape follows the API version headers
+const VARY = `Accept, ${API_VERSION_HEADERS}`;
 
 // Initialize storage once when the function loads
 let storageInitialized = false;
@@ -17,7 +34,11 @@ function ensureStorageInitialized() {
   }
 }
 
-export async function pricesHandler(method: string | undefined) {
+export async function pricesHandler(
+  method: string | undefined,
+  query: URLSearchParams = new URLSearchParams(),
+  headers?: Headers
+) {
   if (method !== 'GET') {
     return {
       status: 405,
@@ -25,17 +46,79 @@ export async function pricesHandler(method: string | undefined) {
     };
   }
 
+  const issues = validateRequest('getAllPrices', { query });
+  if (issues.length > 0) {
+    return {
+      status: 400,
+      body: invalidRequestBody(issues)
+    };
+  }
+
   try {
+    // Format was validated above
+    const output = parsePriceOutputOptions(query, headers)!;
+    const exportFormat = parseExportFormat(headers);
+
     ensureStorageInitialized();
     const storage = new StorageWrapper(getStorage());
-    const allPrices = await storage.getAllPrices();
+
+    // Detailed bodies carry each price's age and exports each row's store time, which the chain
+    // versions do not follow, so neither is answered with 304
+    const chainIds = Object.values(SUPPORTED_CHAINS).map((c: any) => c.id as number);
+    const validators = output.detailed || exportFormat
+      ? undefined
+      : buildPriceValidators(
+          new Map(
+            await Promise.all(
+              chainIds.map(async (id) => [id, await storage.getChainVersion(id)] as const)
+            )
+          ),
+          `prices:${output.format}:${await priceConversionService.quoteVariant(query.get('quote'), chainIds)}`
+        );
+
+    if (validators && isNotModified(headers, validators)) {
+      return {
+        status: 304,
+        body: null,
+        headers: { ...validators, 'Cache-Control': CACHE_CONTROL, Vary: VARY }
+      };
+    }
+
+    // Chains the quote cannot be resolved on are left out
+    const allPrices = new Map<number, Map<string, StoredPrice>>();
+    for (const [chainId, chainPrices] of await storage.getAllPrices()) {
+      const quote = await priceConversionService.resolveQuote(chainId, query.get('quote'));
+      if (quote) {
+        allPrices.set(
+          chainId,
+          await priceConversionService.convertPrices(chainId, chainPrices, quote)
+        );
+      }
+    }
+
+    if (exportFormat) {
+      const rows = Array.from(allPrices.entries()).flatMap(([chainId, chainPrices]) =>
+        Array.from(chainPrices.values(), (price) => [chainId, price] as [number, typeof price])
+      );
+      return {
+        status: 200,
+        body: serializePriceExport(rows, exportFormat, output.format),
+        headers: {
+          'Content-Type': EXPORT_CONTENT_TYPES[exportFormat],
+          'Cache-Control': CACHE_CONTROL,
+          Vary: VARY
+        }
+      };
+    }
+
+    const now = Date.now();
     const response: any = {};
     
     allPrices.forEach((chainPrices, chainId) => {
       const chainDict: any = {};
       
       chainPrices.forEach((price, address) => {
-        chainDict[address.toLowerCase()] = price.price.toString();
+        chainDict[address.toLowerCase()] = serializePrice(price, output, now);
       });
       
       response[chainId.toString()] = chainDict;
@@ -44,9 +127,7 @@ export async function pricesHandler(method: string | undefined) {
     return {
       status: 200,
       body: response,
-      headers: {
-        'Cache-Control': 's-maxage=60, stale-while-revalidate'
-      }
+      headers: { ...validators, 'Cache-Control': CACHE_CONTROL, Vary: VARY }
     };
   } catch (error) {
     logger.error('Error fetching all prices:', error);
@@ -0,0 +1,97 @@
+import { initializeStorage, StorageWrapper, getStorage, StorageType } from '../../dist/storage/index';
+import { logger } from '../../dist/utils/index';
+import { validateRequest, invalidRequestBody } from '../../dist/openapi/index';
+import { ERC20Token } from '../../dist/models/index';
+
+const CACHE_CONTROL = 's-maxage=300, stale-while-revalidate';
+
+// Initialize storage once when the function loads
+let storageInitialized = false;
+function ensureStorageInitialized() {
+  if (!storageInitialized) {
+    const cacheTTL = parseInt(process.env.CACHE_TTL_SECONDS || '0');
+    const storageType = (process.env.STORAGE_TYPE || 'redis') as StorageType;
+    initializeStorage(storageType, cacheTTL);
+    storageInitialized = true;
+  }
+}
+
+const toTokenResponse = (token: ERC20Token) => ({
+  address: token.address.toLowerCase(),
+  chainId: token.chainId,
+  symbol: token.symbol,
+  name: token.name,
+  decimals: token.decimals,
+  isVault: !!token.isVault,
+  underlying: token.underlying ?? null,
+  sources: token.sources ?? (token.source ? [token.source] : [])
+});
+
+/**
+ * Discovered token registry, the whole chain keyed by address or a single entry when
+ * `addressParam` is given
+ */
+export async function tokensHandler(
+  method: string | undefined,
+  chainIdParam: string | undefined,
+  addressParam?: string
+) {
+  if (method !== 'GET') {
+    return {
+      status: 405,
+      body: { error: 'Method not allowed' }
+    };
+  }
+
+  const issues = addressParam === undefined
+    ? validateRequest('getChainTokens', { path: { chainId: chainIdParam } })
+    : validateRequest('getToken', { path: { chainId: chainIdParam, address: addressParam } });
+  if (issues.length > 0) {
+    return {
+      status: 400,
+      body: invalidRequestBody(issues)
+    };
+  }
+
+  try {
+    const chainId = parseInt(chainIdParam as string);
+
+    ensureStorageInitialized();
+    const storage = new StorageWrapper(getStorage());
+
+    if (addressParam !== undefined) {
+      const address = addressParam.toLowerCase();
+      const token = await storage.getRegistryToken(chainId, address);
+      if (!token) {
+        return {
+          status: 404,
+          body: { error: `${address} was not discovered on chain ${chainId}` }
+        };
+      }
+
+      return {
+        status: 200,
+        body: toTokenResponse(token),
+        headers: { 'Cache-Control': CACHE_CONTROL }
+      };
+    }
+
+    const tokens = await storage.getTokenRegistry(chainId);
+    const response: any = {};
+    tokens.forEach((token) => {
+      response[token.address.toLowerCase()] = toTokenResponse(token);
+    });
+
+    return {
+      status: 200,
+      body: response,
+      headers: { 'Cache-Control': CACHE_CONTROL }
+    };
+  } catch (error) {
+    logger.error('Error fetching token registry:', error);
+    return {
+      status: 500,
+      body: { error: 'Internal server error' }
+    };
+  }
+}
@@ -0,0 +1,134 @@
+import { initializeStorage, StorageWrapper, getStorage, StorageType } from '../../dist/storage/index';
+import {
+  logger,
+  stringToBool,
+  toYDaemonPrice,
+  toYDaemonPriceMap
+} from '../../dist/utils/index';
+import { validateRequest, invalidRequestBody } from '../../dist/openapi/index';
+
+const CACHE_CONTROL = 's-maxage=60, stale-while-revalidate';
+
+// Initialize storage once when the function loads
+let storageInitialized = false;
+function ensureStorageInitialized() {
+  if (!storageInitialized) {
+    const cacheTTL = parseInt(process.env.CACHE_TTL_SECONDS || '0');
+    const storageType = (process.env.STORAGE_TYPE || 'redis') as StorageType;
+    initializeStorage(storageType, cacheTTL);
+    storageInitialized = true;
+  }
+}
+
+type YDaemonRoute =
+  | { operationId: 'ydaemonGetAllPrices'; path: {} }
+  | { operationId: 'ydaemonGetChainPrices'; path: { chainId: string } }
+  | { operationId: 'ydaemonGetSomePrices'; path: { chainId: string; addresses: string } }
+  | { operationId: 'ydaemonGetPrice'; path: { chainId: string; address: string } };
+
+function matchRoute(path: string): YDaemonRoute | undefined {
+  const segments = path.split('/').filter(Boolean);
+  if (segments.join('/') === 'prices/all') {
+    return { operationId: 'ydaemonGetAllPrices', path: {} };
+  }
+
+  const [chainId, prices, ...rest] = segments;
+  if (!chainId || prices !== 'prices') return undefined;
+  if (rest.length === 1 && rest[0] === 'all') {
+    return { operationId: 'ydaemonGetChainPrices', path: { chainId } };
+  }
+  if (rest.length === 2 && rest[0] === 'some') {
+    return { operationId: 'ydaemonGetSomePrices', path: { chainId, addresses: rest[1] } };
+  }
+  if (rest.length === 1) {
+    return { operationId: 'ydaemonGetPrice', path: { chainId, address: rest[0] } };
+  }
+  return undefined;
+}
+
+/**
+ * ydaemon's price routes served from the same storage, so frontends can swap base URLs.
+ * `path` is relative to the ydaemon base URL, e.g. `1/prices/all`.
+ */
+export async function ydaemonHandler(
+  method: string | undefined,
+  path: string,
+  query: URLSearchParams = new URLSearchParams()
+) {
+  if (method !== 'GET') {
+    return {
+      status: 405,
+      body: { error: 'Method not allowed' }
+    };
+  }
+
+  const route = matchRoute(path);
+  if (!route) {
+    return {
+      status: 404,
+      body: { error: `No ydaemon route for /${path}` }
+    };
+  }
+
+  const issues = validateRequest(route.operationId, { path: route.path, query });
+  if (issues.length > 0) {
+    return {
+      status: 400,
+      body: invalidRequestBody(issues)
+    };
+  }
+
+  try {
+    const humanized = stringToBool(query.get('humanized') ?? undefined);
+
+    ensureStorageInitialized();
+    const storage = new StorageWrapper(getStorage());
+
+    let body: any;
+    switch (route.operationId) {
+      case 'ydaemonGetAllPrices': {
+        body = {};
+        (await storage.getAllPrices()).forEach((chainPrices, chainId) => {
+          body[chainId.toString()] = toYDaemonPriceMap(chainPrices.values(), humanized);
+        });
+        break;
+      }
+      case 'ydaemonGetChainPrices': {
+        const { asSlice } = await storage.listPrices(parseInt(route.path.chainId));
+        body = toYDaemonPriceMap(asSlice, humanized);
+        break;
+      }
+      case 'ydaemonGetSomePrices': {
+        const addresses = route.path.addresses.split(',').map((address) => address.toLowerCase());
+        const prices = await storage.getPrices(parseInt(route.path.chainId), addresses);
+        body = toYDaemonPriceMap(prices.values(), humanized);
+        break;
+      }
+      case 'ydaemonGetPrice': {
+        const chainId = parseInt(route.path.chainId);
+        const address = route.path.address.toLowerCase();
+        const price = await storage.getPrice(chainId, address);
+        if (!price) {
+          return {
+            status: 404,
+            body: { error: `No price found for ${address} on chain ${chainId}` }
+          };
+        }
+        body = toYDaemonPrice(price.price, humanized);
+        break;
+      }
+    }
+
+    return {
+      status: 200,
+      body,
+      headers: { 'Cache-Control': CACHE_CONTROL }
+    };
+  } catch (error) {
+    logger.error('Error serving ydaemon route:', error);
+    return {
+      status: 500,
+      body: { error: 'Internal server error' }
+    };
+  }
+}
@@ -0,0 +1,9 @@
+import { metricsHandler } from './handlers/metrics';
+
+export default async function handler(req: Request): Promise<Response> {
+  const result = await metricsHandler(req.method);
+  if (typeof result.body !== 'string') {
+    return Response.json(result.body, { status: result.status });
+  }
+  return new Response(result.body, { status: result.status, headers: result.headers });
+}
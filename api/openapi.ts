@@ -0,0 +1,12 @@
+import { openApiHandler } from './handlers/openapi';
+
+export default async function handler(req: Request): Promise<Response> {
+  const result = await openApiHandler(req.method);
+  const headers = new Headers(result.headers || {});
+  headers.set('Content-Type', 'application/json');
+
+  return new Response(JSON.stringify(result.body), {
+    status: result.status,
+    headers
+  });
+}
@@ -1,11 +1,20 @@
 import { pricesHandler } from './handlers/prices';
 
 export default async function handler(req: Request): Promise<Response> {
-  const result = await pricesHandler(req.method);
+  const result = await pricesHandler(req.method, new URL(req.url).searchParams, req.headers);
   const headers = new Headers(result.headers || {});
-  headers.set('Content-Type', 'application/json');
+  // CSV and NDJSON exports come back already serialized with their own Content-Type
+  if (!headers.has('Content-Type')) headers.set('Content-Type', 'application/json');
   
-  return new Response(JSON.stringify(result.body), { 
+  // 304 responses must not carry a body
+  const body =
+    result.status === 304
+      ? null
+      : typeof result.body === 'string'
+        ? result.body
+        : JSON.stringify(result.body);
+  
+  return new Response(body, { 
     status: result.status,
     headers 
   });
@@ -0,0 +1,15 @@
+import { pricesExplainHandler } from '../../../handlers/prices-explain';
+
+export default async function handler(req: Request): Promise<Response> {
+  const url = new URL(req.url);
+  const [chainId, address] = url.pathname.split('/').slice(-2);
+
+  const result = await pricesExplainHandler(req.method, chainId, address, url.searchParams);
+  const headers = new Headers(result.headers || {});
+  headers.set('Content-Type', 'application/json');
+
+  return new Response(JSON.stringify(result.body), {
+    status: result.status,
+    headers
+  });
+}
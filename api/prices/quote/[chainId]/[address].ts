@@ -0,0 +1,15 @@
+import { pricesQuoteHandler } from '../../../handlers/prices-quote';
+
+export default async function handler(req: Request): Promise<Response> {
+  const url = new URL(req.url);
+  const [chainId, address] = url.pathname.split('/').slice(-2);
+
+  const result = await pricesQuoteHandler(req.method, chainId, address, url.searchParams, req.headers);
+  const headers = new Headers(result.headers || {});
+  headers.set('Content-Type', 'application/json');
+
+  return new Response(JSON.stringify(result.body), {
+    status: result.status,
+    headers
+  });
+}
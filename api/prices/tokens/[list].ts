@@ -4,11 +4,14 @@ export default async function handler(req: Request): Promise<Response> {
   const url = new URL(req.url);
   const list = url.pathname.split('/').pop();
   
-  const result = await pricesTokensHandler(req.method, list);
+  const result = await pricesTokensHandler(req.method, list, url.searchParams, req.headers);
   const headers = new Headers(result.headers || {});
   headers.set('Content-Type', 'application/json');
   
-  return new Response(JSON.stringify(result.body), { 
+  // 304 responses must not carry a body
+  const body = result.status === 304 ? null : JSON.stringify(result.body);
+  
+  return new Response(body, { 
     status: result.status,
     headers 
   });
@@ -0,0 +1,235 @@
+// Must run before the service modules below read their configuration
+import 'dotenv/config';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import indexFunction from './index';
+import healthcheckFunction from './healthcheck';
+import openApiFunction from './openapi';
+import pricesFunction from './prices';
+import pricesChainFunction from './prices/chain/[chainId]';
+import pricesTokensFunction from './prices/tokens/[list]';
+import pricesQueryFunction from './prices/query';
+import pricesHistoryFunction from './prices/history/[chainId]/[address]';
+import pricesQuoteFunction from './prices/quote/[chainId]/[address]';
+import pricesExplainFunction from './prices/explain/[chainId]/[address]';
+import tokensChainFunction from './tokens/[chainId]';
+import tokensAddressFunction from './tokens/[chainId]/[address]';
+import diagnosticsCoverageFunction from './diagnostics/coverage/[chainId]';
+import adminRefreshFunction from './admin/refresh';
+import adminRefreshStatusFunction from './admin/refresh/[jobId]';
+import ydaemonFunction from './ydaemon';
+import metricsFunction from './metrics';
+import { pricesStreamHandler } from './handlers/prices-stream';
+import { initializeStorage, StorageType } from '../dist/storage/index';
+import { logger, httpRequestDuration } from '../dist/utils/index';
+import priceService from '../dist/services/priceService';
+
+/**
+ * Long-running Node server for self-hosting. Routes go to the same functions Vercel deploys, after
+ * the rewrites of vercel.json, and prices are refreshed in-process every REFRESH_INTERVAL_SECONDS.
+ */
+
+const PORT = parseInt(process.env.PORT || '8080', 10);
+// 0 serves stored prices only, e.g. when a separate process refreshes them
+const REFRESH_INTERVAL_SECONDS = parseInt(process.env.REFRESH_INTERVAL_SECONDS || '300', 10);
+// How long SIGTERM waits for requests and a running refresh before exiting anyway
+const SHUTDOWN_TIMEOUT_SECONDS = parseInt(process.env.SHUTDOWN_TIMEOUT_SECONDS || '25', 10);
+// Same limit as Vercel functions
+const MAX_BODY_BYTES = 4.5 * 1024 * 1024;
+
+// Same as the headers vercel.json sets on /api routes
+const CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Credentials': 'true',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET,POST,OPTIONS',
+  'Access-Control-Allow-Headers':
+    'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Authorization, Content-Length, Content-MD5, Content-Type, Date, If-Modified-Since, If-None-Match, X-Api-Version',
+  'Access-Control-Expose-Headers':
+    'ETag, Last-Modified, Link, X-Next-Cursor, X-Block-Number, X-Block-Timestamp'
+};
+
+// Vercel has no function for the stream, so it is adapted here like in the devserver
+async function pricesStreamFunction(req: Request): Promise<Response> {
+  const result = await pricesStreamHandler(req.method, new URL(req.url).searchParams, req.headers);
+  if (!result.stream) {
+    return Response.json(result.body, { status: result.status });
+  }
+  return new Response(result.stream, { status: result.status, headers: result.headers });
+}
+
+// The name labels request metrics, so paths with IDs do not each get their own series
+const routes: Array<[string, RegExp, (req: Request) => Promise<Response>]> = [
+  ['/', /^\/api(\/index)?\/?$/, indexFunction],
+  ['/healthcheck', /^\/api\/healthcheck$/, healthcheckFunction],
+  ['/metrics', /^\/api\/metrics$/, metricsFunction],
+  ['/openapi.json', /^\/api\/openapi(\.json)?$/, openApiFunction],
+  ['/prices', /^\/api\/prices$/, pricesFunction],
+  ['/prices/chain/:chainId', /^\/api\/prices\/chain\/[^/]+$/, pricesChainFunction],
+  ['/prices/tokens/:list', /^\/api\/prices\/tokens\/[^/]+$/, pricesTokensFunction],
+  ['/prices/query', /^\/api\/prices\/query$/, pricesQueryFunction],
+  ['/prices/stream', /^\/api\/prices\/stream$/, pricesStreamFunction],
+  ['/prices/history/:chainId/:address', /^\/api\/prices\/history\/[^/]+\/[^/]+$/, pricesHistoryFunction],
+  ['/prices/quote/:chainId/:address', /^\/api\/prices\/quote\/[^/]+\/[^/]+$/, pricesQuoteFunction],
+  ['/prices/explain/:chainId/:address', /^\/api\/prices\/explain\/[^/]+\/[^/]+$/, pricesExplainFunction],
+  ['/tokens/:chainId', /^\/api\/tokens\/[^/]+$/, tokensChainFunction],
+  ['/tokens/:chainId/:address', /^\/api\/tokens\/[^/]+\/[^/]+$/, tokensAddressFunction],
+  ['/diagnostics/coverage/:chainId', /^\/api\/diagnostics\/coverage\/[^/]+$/, diagnosticsCoverageFunction],
+  ['/admin/refresh', /^\/api\/admin\/refresh$/, adminRefreshFunction],
+  ['/admin/refresh/:jobId', /^\/api\/admin\/refresh\/[^/]+$/, adminRefreshStatusFunction],
+  ['/ydaemon/*', /^\/api\/ydaemon(\/.*)?$/, ydaemonFunction]
+];
+
+// The rewrites of vercel.json: every public path is served from the same path under /api
+function toApiPath(pathname: string): string {
+  if (pathname === '/') return '/api/index';
+  if (pathname === '/openapi.json') return '/api/openapi';
+  if (pathname === '/api' || pathname.startsWith('/api/')) return pathname;
+  return `/api${pathname}`;
+}
+
+class BodyTooLargeError extends Error {
+  constructor() {
+    super('Request body too large');
+    this.name = 'BodyTooLargeError';
+  }
+}
+
+// Only JSON bodies are accepted, so they are handed over as text
+async function readBody(req: IncomingMessage): Promise<string | undefined> {
+  if (req.method === 'GET' || req.method === 'HEAD') return undefined;
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new BodyTooLargeError();
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function route(req: IncomingMessage): Promise<Response> {
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+  url.pathname = toApiPath(url.pathname);
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204 });
+  }
+
+  const match = routes.find(([, pattern]) => pattern.test(url.pathname));
+  if (!match) {
+    return new Response('Not found', { status: 404 });
+  }
+  const [name, , handler] = match;
+
+  const headers = new Headers();
+  for (const [key, value] of Object.entries(req.headers)) {
+    if (value !== undefined) headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+  }
+
+  // Streams are timed until their headers are sent
+  const done = httpRequestDuration.startTimer({ route: name, method: req.method || 'GET' });
+  try {
+    const body = await readBody(req);
+    const response = await handler(new Request(url, { method: req.method, headers, body }));
+    done({ status: response.status });
+    return response;
+  } catch (error) {
+    done({ status: error instanceof BodyTooLargeError ? 413 : 500 });
+    throw error;
+  }
+}
+
+// Open streams are ended on shutdown, they would otherwise keep the server from closing
+const openStreams = new Set<ServerResponse>();
+
+async function writeResponse(res: ServerResponse, response: Response): Promise<void> {
+  const headers: Record<string, string> = { ...CORS_HEADERS };
+  response.headers.forEach((value, key) => {
+    headers[key] = value;
+  });
+  res.writeHead(response.status, headers);
+
+  if (!response.body) {
+    res.end();
+    return;
+  }
+
+  // Chunks are written as they come so Server-Sent Events reach the client right away
+  const reader = response.body.getReader();
+  openStreams.add(res);
+  res.on('close', () => {
+    openStreams.delete(res);
+    reader.cancel().catch(() => {});
+  });
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      res.write(value);
+    }
+  } finally {
+    res.end();
+  }
+}
+
+const server = createServer(async (req, res) => {
+  try {
+    await writeResponse(res, await route(req));
+  } catch (error) {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    if (error instanceof BodyTooLargeError) {
+      await writeResponse(res, Response.json({ error: error.message }, { status: 413 }));
+      return;
+    }
+    logger.error('[Server] Unhandled error:', error);
+    await writeResponse(res, Response.json({ error: 'Internal server error' }, { status: 500 }));
+  }
+});
+
+let shuttingDown = false;
+async function shutdown(signal: string) {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  logger.info(`[Server] ${signal} received, shutting down`);
+
+  const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+  server.closeIdleConnections();
+  openStreams.forEach((res) => res.end());
+
+  const timeout = new Promise<'timeout'>((resolve) =>
+    setTimeout(() => resolve('timeout'), SHUTDOWN_TIMEOUT_SECONDS * 1000).unref()
+  );
+  const outcome = await Promise.race([
+    Promise.all([closed, priceService.stopPeriodicFetch()]),
+    timeout
+  ]);
+
+  if (outcome === 'timeout') {
+    logger.warn(`[Server] Still busy after ${SHUTDOWN_TIMEOUT_SECONDS}s, exiting anyway`);
+    server.closeAllConnections();
+    process.exit(1);
+  }
+  logger.info('[Server] Stopped');
+  process.exit(0);
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
+// Same storage settings as the handlers, so the refresh and the routes share one instance
+const cacheTTL = parseInt(process.env.CACHE_TTL_SECONDS || '0');
+const storageType = (process.env.STORAGE_TYPE || 'redis') as StorageType;
+initializeStorage(storageType, cacheTTL);
+
+server.listen(PORT, () => {
+  logger.info(`🚀 API server running on http://localhost:${PORT}`);
+  if (REFRESH_INTERVAL_SECONDS > 0) {
+    priceService.startPeriodicFetch(REFRESH_INTERVAL_SECONDS * 1000);
+  } else {
+    logger.info('[Server] REFRESH_INTERVAL_SECONDS is 0, serving stored prices only');
+  }
+});
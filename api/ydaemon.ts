@@ -0,0 +1,17 @@
+import { ydaemonHandler } from './handlers/ydaemon';
+
+export default async function handler(req: Request): Promise<Response> {
+  const url = new URL(req.url);
+  // The vercel.json rewrite passes the ydaemon path as a query parameter, other servers keep it
+  const path = url.searchParams.get('path') ?? url.pathname.replace(/^\/api\/ydaemon\/?/, '');
+  url.searchParams.delete('path');
+
+  const result = await ydaemonHandler(req.method, path, url.searchParams);
+  const headers = new Headers(result.headers || {});
+  headers.set('Content-Type', 'application/json');
+
+  return new Response(JSON.stringify(result.body), {
+    status: result.status,
+    headers
+  });
+}
@@ -0,0 +1,16 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    '^.+\\.ts$': 'ts-jest',
+    // p-limit and its queue only ship as ES modules
+    '^.+\\.js$': ['ts-jest', { tsconfig: { allowJs: true } }],
+  },
+  transformIgnorePatterns: ['/node_modules/(?!(p-limit|yocto-queue)/)'],
+  // Same aliases as tsconfig paths
+  moduleNameMapper: {
+    '^(models|openapi|discovery|fetchers|services|storage|utils)/(.*)$': '<rootDir>/src/$1/$2',
+  },
+}
@@ -0,0 +1,212 @@
+import dotenv from 'dotenv'
+import { StoredPrice, SUPPORTED_CHAINS } from 'models/index'
+import {
+  ChainPriceDiff,
+  createStorage,
+  diffChainPrices,
+  fromArchivedPrice,
+  PRICE_ARCHIVE_VERSION,
+  readPriceArchive,
+  StorageType,
+  StorageWrapper,
+  toArchivedPrice,
+  writePriceArchive,
+} from 'storage/index'
+import { formatPrice, logger } from 'utils/index'
+
+dotenv.config()
+
+const STORAGE_TYPES: StorageType[] = ['file', 'redis', 'upstash', 'redis-tcp', 'sqlite']
+
+// A storage backend, e.g. `sqlite:./data/staging.db`, or else the path of an archive file
+type Endpoint =
+  | { kind: 'storage'; name: string; type: StorageType; location?: string }
+  | { kind: 'archive'; name: string; file: string }
+
+type ChainPrices = Map<number, StoredPrice[]>
+
+const printUsage = () => {
+  console.log('Usage: backup <command> <from> <to> [--chain <id,...>]')
+  console.log('Commands:')
+  console.log('  export <storage> <archive>    Write the prices of a storage to an archive file')
+  console.log('  import <archive> <storage>    Replace the prices of a storage with an archive')
+  console.log('  migrate <storage> <storage>   Copy the prices of one storage into another')
+  console.log(
+    '  diff <a> <b>                  Compare storages or archives, exits 1 when they differ',
+  )
+  console.log('Storages:')
+  console.log('  file[:<dir>], sqlite[:<path>], redis, upstash, redis-tcp')
+  console.log('Options:')
+  console.log('  --chain, -c   Only these chains (comma separated)')
+  console.log('  --details     List every differing token (diff)')
+  console.log('')
+  console.log('Examples:')
+  console.log('  backup export upstash backups/prices.json')
+  console.log('  backup import backups/prices.json redis-tcp --chain 1,10')
+  console.log('  backup migrate file:./data/prices sqlite')
+  console.log('  backup diff file redis')
+}
+
+const parseEndpoint = (spec: string): Endpoint => {
+  const [type, ...location] = spec.split(':')
+  if (STORAGE_TYPES.includes(type as StorageType)) {
+    return {
+      kind: 'storage',
+      name: spec,
+      type: type as StorageType,
+      location: location.join(':') || undefined,
+    }
+  }
+  return { kind: 'archive', name: spec, file: spec }
+}
+
+// Value following a flag, e.g. `--chain 1,10`
+const flagValue = (args: string[], ...flags: string[]): string | undefined => {
+  const index = args.findIndex((arg) => flags.includes(arg))
+  return index >= 0 ? args[index + 1] : undefined
+}
+
+const openStorage = (endpoint: Extract<Endpoint, { kind: 'storage' }>): StorageWrapper => {
+  // Without a TTL nothing read is dropped for its age, whatever CACHE_TTL_SECONDS says
+  return new StorageWrapper(createStorage(endpoint.type, 0, endpoint.location))
+}
+
+async function readPrices(endpoint: Endpoint, chainIds: number[]): Promise<ChainPrices> {
+  const prices: ChainPrices = new Map()
+
+  if (endpoint.kind === 'archive') {
+    const archive = readPriceArchive(endpoint.file)
+    for (const chainId of chainIds) {
+      const entries = archive.chains[chainId] ?? []
+      if (entries.length > 0) prices.set(chainId, entries.map(fromArchivedPrice))
+    }
+    return prices
+  }
+
+  const storage = openStorage(endpoint)
+  for (const chainId of chainIds) {
+    const { asSlice } = await storage.listPrices(chainId)
+    if (asSlice.length > 0) prices.set(chainId, asSlice)
+  }
+  return prices
+}
+
+async function writePrices(endpoint: Endpoint, prices: ChainPrices, source: string) {
+  if (endpoint.kind === 'archive') {
+    writePriceArchive(endpoint.file, {
+      version: PRICE_ARCHIVE_VERSION,
+      createdAt: Date.now(),
+      source,
+      chains: Object.fromEntries(
+        Array.from(prices, ([chainId, entries]) => [chainId, entries.map(toArchivedPrice)]),
+      ),
+    })
+    return
+  }
+
+  // Chains without prices in the source are left as they are
+  const storage = openStorage(endpoint)
+  for (const [chainId, entries] of prices) {
+    await storage.restorePrices(chainId, entries)
+    logger.info(`Restored ${entries.length} prices of chain ${chainId} into ${endpoint.name}`)
+  }
+}
+
+const describePrice = (entry: StoredPrice): string =>
+  `${formatPrice(entry.price, 'decimal')} (${entry.source})`
+
+function printDiff(diff: ChainPriceDiff, left: string, right: string, details: boolean) {
+  console.log(
+    `Chain ${diff.chainId}: ${diff.onlyLeft.length} only in ${left}, ${diff.onlyRight.length} only in ${right}, ${diff.changed.length} differ`,
+  )
+  if (!details) return
+
+  diff.onlyLeft.forEach((entry) => {
+    console.log(`  - ${entry.address}  ${describePrice(entry)}`)
+  })
+  diff.onlyRight.forEach((entry) => {
+    console.log(`  + ${entry.address}  ${describePrice(entry)}`)
+  })
+  diff.changed.forEach(({ left: before, right: after }) => {
+    console.log(`  ~ ${before.address}  ${describePrice(before)} -> ${describePrice(after)}`)
+  })
+}
+
+async function backup() {
+  try {
+    const args = process.argv.slice(2)
+    const chainArg = flagValue(args, '--chain', '-c')
+    const details = args.includes('--details')
+    const positionalArgs = args.filter(
+      (arg, index) => !arg.startsWith('-') && !['--chain', '-c'].includes(args[index - 1] ?? ''),
+    )
+    const [command, fromArg, toArg] = positionalArgs
+
+    if (!command || !fromArg || !toArg) {
+      printUsage()
+      process.exit(1)
+    }
+
+    const from = parseEndpoint(fromArg)
+    const to = parseEndpoint(toArg)
+    const expected: Record<string, [Endpoint['kind'], Endpoint['kind']]> = {
+      export: ['storage', 'archive'],
+      import: ['archive', 'storage'],
+      migrate: ['storage', 'storage'],
+    }
+    const kinds = expected[command]
+    if (command !== 'diff' && (!kinds || kinds[0] !== from.kind || kinds[1] !== to.kind)) {
+      printUsage()
+      process.exit(1)
+    }
+
+    const supportedChainIds = Object.values(SUPPORTED_CHAINS).map((chain) => chain.id)
+    const chainIds = chainArg
+      ? chainArg.split(',').map((chainId) => parseInt(chainId.trim(), 10))
+      : supportedChainIds
+    const unsupported = chainIds.filter((chainId) => !supportedChainIds.includes(chainId))
+    if (unsupported.length > 0) {
+      logger.error(
+        `Chain ${unsupported.join(', ')} is not supported. Supported chains: ${supportedChainIds.join(', ')}`,
+      )
+      process.exit(1)
+    }
+
+    const prices = await readPrices(from, chainIds)
+
+    if (command === 'diff') {
+      const other = await readPrices(to, chainIds)
+      const diffs = chainIds
+        .map((chainId) =>
+          diffChainPrices(chainId, prices.get(chainId) ?? [], other.get(chainId) ?? []),
+        )
+        .filter((diff) => diff.onlyLeft.length + diff.onlyRight.length + diff.changed.length > 0)
+
+      diffs.forEach((diff) => {
+        printDiff(diff, from.name, to.name, details)
+      })
+      if (diffs.length === 0) {
+        console.log(`${from.name} and ${to.name} store the same prices`)
+      }
+      process.exit(diffs.length > 0 ? 1 : 0)
+    }
+
+    if (prices.size === 0) {
+      logger.warn(`No prices found in ${from.name}`)
+      process.exit(1)
+    }
+
+    await writePrices(to, prices, from.name)
+
+    const total = Array.from(prices.values()).reduce((sum, entries) => sum + entries.length, 0)
+    logger.info(
+      `✅ Copied ${total} prices of ${prices.size} chains from ${from.name} to ${to.name}`,
+    )
+    process.exit(0)
+  } catch (error) {
+    logger.error('Backup command failed:', error)
+    process.exit(1)
+  }
+}
+
+backup()
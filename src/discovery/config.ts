@@ -249,6 +249,7 @@ export const chainFetchers: Record<number, string[]> = {}
 // Populate the helper exports
 Object.entries(DISCOVERY_CONFIGS).forEach(([chainId, config]) => {
   const id = Number(chainId)
-  chainDiscoveryServices[id] = config.supportedServices || []
+  // Requested tokens are always discovered, so they can be refreshed on their own too
+  chainDiscoveryServices[id] = [...(config.supportedServices || []), 'requested']
   chainFetchers[id] = config.supportedPriceFetchers || []
 })
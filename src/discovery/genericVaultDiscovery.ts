@@ -107,6 +107,11 @@ export class GenericVaultDiscovery implements Discovery {
           symbol: vault.symbol,
           source: `vault-${vault.project}`,
           isVault: true,
+          // Multi-asset vaults have no single underlying
+          underlying:
+            vault.underlyingTokens?.length === 1
+              ? vault.underlyingTokens[0]?.toLowerCase()
+              : undefined,
         })
 
         // Add underlying tokens if available
@@ -1,5 +1,6 @@
 export * from './config'
 export * from './curveDiscovery'
+export * from './requestedDiscovery'
 export * from './tokenDiscoveryService'
 export { default as tokenDiscoveryService } from './tokenDiscoveryService'
 export * from './types'
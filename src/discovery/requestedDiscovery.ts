@@ -0,0 +1,111 @@
+import { Discovery, TokenInfo } from 'discovery/types'
+import { ERC20Token } from 'models/index'
+import { getStorage, StorageWrapper } from 'storage/index'
+import { logger } from 'utils/index'
+import { batchReadContracts } from 'utils/viemClients'
+import { type Address, parseAbi } from 'viem'
+
+const TOKEN_ABI = parseAbi([
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  // ERC4626 vaults
+  'function asset() view returns (address)',
+  // Yearn V2/V3 vaults
+  'function apiVersion() view returns (string)',
+  'function token() view returns (address)',
+])
+
+// Requested tokens are priced by refreshes for this long after their last on-demand quote
+export const REQUESTED_TOKEN_TTL_MS =
+  parseInt(process.env.REQUESTED_TOKEN_TTL_DAYS || '30', 10) * 24 * 60 * 60 * 1000
+
+// Most unexpired requested tokens a chain keeps, further quotes are priced but not remembered
+export const REQUESTED_TOKENS_MAX = parseInt(process.env.REQUESTED_TOKENS_MAX || '200', 10)
+
+// Tokens requested before expiry was tracked carry no time and count as expired
+export const isRequestActive = (token: ERC20Token, now: number = Date.now()): boolean =>
+  token.requestedAt !== undefined && now - token.requestedAt <= REQUESTED_TOKEN_TTL_MS
+
+/**
+ * Read ERC20 metadata of a single token and detect whether it is a vault, the way discovery
+ * sources would have tagged it. Undefined when the address does not answer `decimals()`, at
+ * `blockNumber` when given, e.g. before the token was deployed.
+ */
+export async function readTokenInfo(
+  chainId: number,
+  address: string,
+  blockNumber?: bigint,
+): Promise<TokenInfo | undefined> {
+  // Plain multicall rather than the aggregator: most tokens revert on the vault getters
+  const calls = ['name', 'symbol', 'decimals', 'asset', 'apiVersion', 'token'] as const
+  const results = await batchReadContracts(
+    chainId,
+    calls.map((functionName) => ({
+      address: address as Address,
+      abi: TOKEN_ABI,
+      functionName,
+      args: [],
+    })),
+    blockNumber,
+  )
+  const [name, symbol, decimals, asset, apiVersion, token] = results.map((result) =>
+    result?.status === 'success' ? result.result : undefined,
+  )
+
+  if (decimals === undefined || decimals === null) return undefined
+
+  const underlying = (asset ?? token) as string | undefined
+  const isYearn = apiVersion !== undefined && !!underlying
+
+  return {
+    address: address.toLowerCase(),
+    chainId,
+    source: isYearn ? 'yearn-vault' : underlying ? 'requested-vault' : 'requested',
+    name: typeof name === 'string' ? name : undefined,
+    symbol: typeof symbol === 'string' ? symbol : undefined,
+    decimals: Number(decimals),
+    isVault: !!underlying,
+    underlying: underlying?.toLowerCase(),
+  }
+}
+
+/**
+ * Tokens priced on demand through the quote route, so refreshes keep pricing them until their
+ * request expires
+ */
+export class RequestedDiscovery implements Discovery {
+  private chainId: number
+
+  constructor(chainId: number) {
+    this.chainId = chainId
+  }
+
+  async discoverTokens(): Promise<TokenInfo[]> {
+    try {
+      const storage = new StorageWrapper(getStorage())
+      const tokens = (await storage.getRequestedTokens(this.chainId)).filter((token) =>
+        isRequestActive(token),
+      )
+
+      logger.debug(`Chain ${this.chainId}: Found ${tokens.length} requested tokens`)
+
+      return tokens.map((token) => ({
+        address: token.address.toLowerCase(),
+        chainId: this.chainId,
+        source: token.source || 'requested',
+        name: token.name,
+        symbol: token.symbol,
+        decimals: token.decimals,
+        isVault: token.isVault,
+        underlying: token.underlying,
+      }))
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message.split('\n')[0] : String(error)
+      logger.warn(
+        `Requested token discovery failed for chain ${this.chainId}: ${(errorMsg || 'Unknown error').substring(0, 100)}`,
+      )
+      return []
+    }
+  }
+}
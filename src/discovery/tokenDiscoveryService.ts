@@ -8,13 +8,15 @@ import { CurveRegistriesDiscovery } from 'discovery/curveRegistries'
 import { GammaDiscovery } from 'discovery/gammaDiscovery'
 import { GenericVaultDiscovery } from 'discovery/genericVaultDiscovery'
 import { PendleDiscovery } from 'discovery/pendleDiscovery'
+import { RequestedDiscovery } from 'discovery/requestedDiscovery'
 import tokenListDiscovery from 'discovery/tokenListDiscovery'
 import { TokenInfo } from 'discovery/types'
 import { UniswapDiscovery } from 'discovery/uniswapDiscovery'
 import { VeloDiscovery } from 'discovery/veloDiscovery'
 import { YearnDiscovery } from 'discovery/yearnDiscovery'
 import { ERC20Token } from 'models/index'
-import { deduplicateTokens, logger } from 'utils/index'
+import { getStorage, StorageWrapper } from 'storage/index'
+import { logger } from 'utils/index'
 
 export class TokenDiscoveryService {
   private discoveredTokens: Map<number, TokenInfo[]> = new Map()
@@ -97,6 +99,8 @@ export class TokenDiscoveryService {
       logger.debug(`   Consider checking RPC URLs and API endpoints for these chains.`)
     }
 
+    await this.persistTokenRegistry(this.tokenCache)
+
     this.lastDiscovery = now
     return this.tokenCache
   }
@@ -396,6 +400,19 @@ export class TokenDiscoveryService {
         )
       }
 
+      // 13. Tokens priced on demand (storage read). Not listed in chain configs, so it runs
+      // on every full discovery.
+      if (!serviceFilter || serviceFilter === 'requested') {
+        sourceNames.push('Requested')
+        discoveryPromises.push(
+          withTimeout(
+            new RequestedDiscovery(chainId).discoverTokens(),
+            15000, // 15s for storage
+            'Requested',
+          ),
+        )
+      }
+
       // Execute all discoveries in parallel
       logger.info(`Chain ${chainId}: Starting discovery with ${discoveryPromises.length} sources`)
       logger.debug(`Chain ${chainId}: Discovery sources queued: ${sourceNames.join(', ')}`)
@@ -477,7 +494,7 @@ export class TokenDiscoveryService {
       logger.debug(`Chain ${chainId}: Total tokens before deduplication: ${allTokens.length}`)
 
       // Deduplicate and store discovered tokens
-      const uniqueTokens = deduplicateTokens(allTokens)
+      const uniqueTokens = this.mergeDuplicateTokens(allTokens)
       this.discoveredTokens.set(chainId, uniqueTokens)
 
       // Debug: Check for specific vault
@@ -525,6 +542,49 @@ export class TokenDiscoveryService {
     }
   }
 
+  /**
+   * Keep the first entry of every address, recording all sources that found it and filling
+   * metadata the first source did not know
+   */
+  private mergeDuplicateTokens(tokens: TokenInfo[]): TokenInfo[] {
+    const merged = new Map<string, TokenInfo>()
+
+    for (const token of tokens) {
+      const key = token.address.toLowerCase()
+      const existing = merged.get(key)
+      if (!existing) {
+        merged.set(key, { ...token, sources: [token.source] })
+        continue
+      }
+
+      if (!existing.sources?.includes(token.source)) existing.sources?.push(token.source)
+      existing.name ??= token.name
+      existing.symbol ??= token.symbol
+      existing.decimals ??= token.decimals
+      existing.isVault ??= token.isVault
+      existing.underlying ??= token.underlying
+    }
+
+    return Array.from(merged.values())
+  }
+
+  // The registry backs the token metadata routes, which run outside the refresh process
+  private async persistTokenRegistry(tokensByChain: Map<number, ERC20Token[]>): Promise<void> {
+    try {
+      const storage = new StorageWrapper(getStorage())
+      await Promise.all(
+        Array.from(tokensByChain.entries()).map(([chainId, tokens]) =>
+          storage.storeTokenRegistry(chainId, tokens),
+        ),
+      )
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message.split('\n')[0] : String(error)
+      logger.warn(
+        `Failed to persist token registry: ${(errorMsg || 'Unknown error').substring(0, 100)}`,
+      )
+    }
+  }
+
   private convertToERC20Tokens(chainId: number, tokens: TokenInfo[]): ERC20Token[] {
     const erc20Tokens: ERC20Token[] = []
 
@@ -537,6 +597,8 @@ export class TokenDiscoveryService {
         chainId: chainId,
         source: token.source,
         isVault: token.isVault,
+        underlying: token.underlying,
+        sources: token.sources,
       })
     }
 
@@ -10,6 +10,8 @@ export interface TokenInfo {
   symbol?: string
   decimals?: number
   isVault?: boolean
+  underlying?: string
+  sources?: string[]
 }
 
 export interface PoolInfo {
@@ -59,6 +61,7 @@ export type DiscoverySource =
   | 'uniswap'
   | 'balancer'
   | 'generic-vaults'
+  | 'requested'
 
 export type PriceFetcher =
   | 'defillama'
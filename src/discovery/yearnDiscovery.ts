@@ -133,6 +133,7 @@ export class YearnDiscovery implements Discovery {
               chainId: this.chainId,
               source: 'yearn-vault',
               isVault: true,
+              underlying: (vault.asset?.address || vault.token)?.toLowerCase(),
             })
 
             // Cache pricePerShare data for the vault
@@ -1,5 +1,5 @@
 import { ERC20Token, Price } from 'models/index'
-import { batchReadContracts, logger } from 'utils/index'
+import { batchReadContracts, fetcherErrors, logger } from 'utils/index'
 import { type Address, parseAbi } from 'viem'
 
 // Curve LP Token ABI for get_virtual_price
@@ -13,6 +13,8 @@ export class CurveAmmFetcher {
     chainId: number,
     tokens: ERC20Token[],
     _underlyingPrices: Map<string, Price>,
+    // Reads at this block instead of the latest
+    blockNumber?: bigint,
   ): Promise<Map<string, Price>> {
     const prices = new Map<string, Price>()
 
@@ -41,7 +43,11 @@ export class CurveAmmFetcher {
         args: [],
       }))
 
-      const virtualPriceResults = await batchReadContracts<bigint>(chainId, virtualPriceContracts)
+      const virtualPriceResults = await batchReadContracts<bigint>(
+        chainId,
+        virtualPriceContracts,
+        blockNumber,
+      )
 
       let successCount = 0
       potentialLpTokens.forEach((token, index) => {
@@ -57,6 +63,11 @@ export class CurveAmmFetcher {
               address: token.address.toLowerCase(),
               price: price,
               source: 'curve-amm',
+              // Assumes the pool's coins are worth $1, so there is no underlying to follow
+              derivation: {
+                method: 'virtual-price',
+                inputs: { virtualPrice: virtualPrice.toString() },
+              },
             })
             successCount++
           }
@@ -67,6 +78,7 @@ export class CurveAmmFetcher {
         logger.debug(`Curve AMM: Fetched ${successCount} prices for chain ${chainId}`)
       }
     } catch (error) {
+      fetcherErrors.inc({ chain: chainId, fetcher: 'curve-amm' })
       logger.error(`Curve AMM fetcher error for chain ${chainId}:`, error)
     }
 
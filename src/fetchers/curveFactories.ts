@@ -1,6 +1,6 @@
 import axios from 'axios'
 import { ERC20Token, Price } from 'models/index'
-import { createHttpsAgent, logger } from 'utils/index'
+import { createHttpsAgent, fetcherErrors, logger } from 'utils/index'
 
 interface CurvePoolData {
   id: string
@@ -128,6 +128,7 @@ export class CurveFactoriesFetcher {
 
       logger.debug(`Curve Factories: Found ${priceMap.size} prices for chain ${chainId}`)
     } catch (error) {
+      fetcherErrors.inc({ chain: chainId, fetcher: 'curve-factories' })
       const errorMsg = error instanceof Error ? error.message : String(error)
       logger.warn(`Curve Factories fetch failed for chain ${chainId}: ${errorMsg}`)
     }
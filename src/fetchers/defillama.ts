@@ -2,7 +2,7 @@ import axios from 'axios'
 import { find, forEach, partition, reduce } from 'lodash'
 import { ERC20Token, LlamaPrice, Price, PriceSource } from 'models/index'
 import pLimit from 'p-limit'
-import { addressEquals, chunk, logger, parseUnits } from 'utils/index'
+import { addressEquals, chunk, fetcherErrors, logger, parseUnits } from 'utils/index'
 import { priceCache } from 'utils/priceCache'
 
 const LLAMA_CHAIN_NAMES: Record<number, string> = {
@@ -47,7 +47,11 @@ const KATANA_TOKEN_TO_MAINNET: Record<string, { name: string; address: string }>
 }
 
 interface DefiLlamaFetcher {
-  fetchPrices(chainId: number, tokens: ERC20Token[]): Promise<Map<string, Price>>
+  fetchPrices(
+    chainId: number,
+    tokens: ERC20Token[],
+    timestamp?: number,
+  ): Promise<Map<string, Price>>
 }
 
 export class DefilllamaFetcher implements DefiLlamaFetcher {
@@ -55,7 +59,12 @@ export class DefilllamaFetcher implements DefiLlamaFetcher {
   private readonly limit = pLimit(10)
   private readonly BATCH_SIZE = 100 // Reduced from 200 to avoid 413 errors
 
-  async fetchPrices(chainId: number, tokens: ERC20Token[]): Promise<Map<string, Price>> {
+  // With a timestamp (unix seconds), prices are the historical ones of that time and bypass the cache
+  async fetchPrices(
+    chainId: number,
+    tokens: ERC20Token[],
+    timestamp?: number,
+  ): Promise<Map<string, Price>> {
     const prices = new Map<string, Price>()
     const chainName = LLAMA_CHAIN_NAMES[chainId]
 
@@ -65,7 +74,21 @@ export class DefilllamaFetcher implements DefiLlamaFetcher {
     }
 
     if (chainId === 747474) {
-      return this.fetchKatanaPrices(tokens)
+      return this.fetchKatanaPrices(tokens, timestamp)
+    }
+
+    if (timestamp !== undefined) {
+      const results = await Promise.all(
+        chunk(tokens, this.BATCH_SIZE).map((chunk) =>
+          this.limit(() => this.fetchChunkPrices(chainName, chainId, chunk, timestamp)),
+        ),
+      )
+      forEach(results, (chunkPrices) => {
+        chunkPrices.forEach((price, address) => {
+          prices.set(address, price)
+        })
+      })
+      return prices
     }
 
     const cachedPrices = priceCache.getMany(
@@ -119,12 +142,16 @@ export class DefilllamaFetcher implements DefiLlamaFetcher {
     chainName: string,
     chainId: number,
     tokens: ERC20Token[],
+    timestamp?: number,
   ): Promise<Map<string, Price>> {
     const prices = new Map<string, Price>()
 
     try {
       const addresses = tokens.map((t) => `${chainName}:${t.address}`).join(',')
-      const url = `${this.baseUrl}/prices/current/${addresses}`
+      const url =
+        timestamp === undefined
+          ? `${this.baseUrl}/prices/current/${addresses}`
+          : `${this.baseUrl}/prices/historical/${timestamp}/${addresses}`
 
       // Log URL length for debugging 413 errors
       if (url.length > 8000) {
@@ -184,13 +211,14 @@ export class DefilllamaFetcher implements DefiLlamaFetcher {
         if (tokens.length > 10) {
           const halfChunks = chunk(tokens, Math.floor(tokens.length / 2))
           for (const halfChunk of halfChunks) {
-            const halfPrices = await this.fetchChunkPrices(chainName, chainId, halfChunk)
+            const halfPrices = await this.fetchChunkPrices(chainName, chainId, halfChunk, timestamp)
             forEach(Array.from(halfPrices.entries()), ([address, price]) => {
               prices.set(address, price)
             })
           }
         }
       } else {
+        fetcherErrors.inc({ chain: chainId, fetcher: 'defillama' })
         logger.debug(`DeFiLlama fetch error for chain ${chainId}:`, error.message)
       }
     }
@@ -199,7 +227,10 @@ export class DefilllamaFetcher implements DefiLlamaFetcher {
     return prices
   }
 
-  private async fetchKatanaPrices(tokens: ERC20Token[]): Promise<Map<string, Price>> {
+  private async fetchKatanaPrices(
+    tokens: ERC20Token[],
+    timestamp?: number,
+  ): Promise<Map<string, Price>> {
     const prices = new Map<string, Price>()
 
     const mainnetTokens = await this.getMainnetTokensForKatana(tokens)
@@ -207,7 +238,7 @@ export class DefilllamaFetcher implements DefiLlamaFetcher {
       return prices
     }
 
-    const mainnetPrices = await this.fetchChunkPrices('ethereum', 1, mainnetTokens)
+    const mainnetPrices = await this.fetchChunkPrices('ethereum', 1, mainnetTokens, timestamp)
 
     forEach(tokens, (token) => {
       const mainnetInfo = KATANA_TOKEN_TO_MAINNET[token.name]
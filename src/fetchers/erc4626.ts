@@ -1,5 +1,5 @@
 import { ERC20Token, Price } from 'models/index'
-import { batchReadContracts, logger } from 'utils/index'
+import { batchReadContracts, fetcherErrors, logger } from 'utils/index'
 import { type Address, parseAbi } from 'viem'
 
 // ERC4626 Vault ABI - standard methods
@@ -15,6 +15,8 @@ export class ERC4626Fetcher {
     chainId: number,
     tokens: ERC20Token[],
     underlyingPrices: Map<string, Price>,
+    // Reads at this block instead of the latest
+    blockNumber?: bigint,
   ): Promise<Map<string, Price>> {
     const priceMap = new Map<string, Price>()
 
@@ -54,7 +56,7 @@ export class ERC4626Fetcher {
         args: [],
       }))
 
-      const assetResults = await batchReadContracts<Address>(chainId, assetContracts)
+      const assetResults = await batchReadContracts<Address>(chainId, assetContracts, blockNumber)
 
       // Filter vaults that successfully returned an asset address
       const validVaults: { vault: ERC20Token; asset: string }[] = []
@@ -80,7 +82,11 @@ export class ERC4626Fetcher {
         args: [BigInt(10 ** 18)], // 1e18 shares
       }))
 
-      const shareValueResults = await batchReadContracts<bigint>(chainId, shareValueContracts)
+      const shareValueResults = await batchReadContracts<bigint>(
+        chainId,
+        shareValueContracts,
+        blockNumber,
+      )
 
       // Step 3: Calculate vault prices based on underlying asset prices
       let successCount = 0
@@ -102,6 +108,12 @@ export class ERC4626Fetcher {
                 address: vault.address.toLowerCase(),
                 price: vaultPrice,
                 source: 'erc4626',
+                derivation: {
+                  method: 'share-value',
+                  underlying: asset,
+                  underlyingPrice: assetPrice.price.toString(),
+                  inputs: { convertToAssets: shareValue.toString(), shares: '1e18' },
+                },
               })
               successCount++
             }
@@ -113,6 +125,7 @@ export class ERC4626Fetcher {
         logger.debug(`ERC4626: Calculated ${successCount} vault prices on chain ${chainId}`)
       }
     } catch (error) {
+      fetcherErrors.inc({ chain: chainId, fetcher: 'erc4626' })
       logger.error(`ERC4626 fetcher failed for chain ${chainId}:`, error)
     }
 
@@ -1,6 +1,6 @@
 import axios from 'axios'
 import { ERC20Token, Price } from 'models/index'
-import { discoveryPriceCache, logger } from 'utils/index'
+import { discoveryPriceCache, fetcherErrors, logger } from 'utils/index'
 
 interface GammaHypervisor {
   id: string
@@ -94,6 +94,13 @@ export class GammaFetcher {
                 address: lpAddress,
                 price,
                 source: 'gamma',
+                derivation: {
+                  method: 'tvl-per-supply',
+                  inputs: {
+                    tvlUSD: hypervisor.tvlUSD,
+                    totalSupply: hypervisor.totalSupply,
+                  },
+                },
               })
             }
           }
@@ -104,6 +111,7 @@ export class GammaFetcher {
         `Gamma: Total ${priceMap.size} LP prices for chain ${chainId} (${cached.length} cached, ${priceMap.size - cached.length} fetched)`,
       )
     } catch (error) {
+      fetcherErrors.inc({ chain: chainId, fetcher: 'gamma' })
       const errorMsg = error instanceof Error ? error.message : String(error)
       // Only log rate limiting once, not for each retry
       if (errorMsg.includes('429')) {
@@ -18,8 +18,9 @@ import { GammaFetcher } from 'fetchers/gamma'
 import { PendleFetcher } from 'fetchers/pendle'
 import { VelodromeFetcher } from 'fetchers/velodrome'
 import { YearnVaultFetcher } from 'fetchers/yearnVault'
-import { ERC20Token, Price } from 'models/index'
-import { logger } from 'utils/index'
+import { ERC20Token, Price, PricingBlock } from 'models/index'
+import { CoverageTracker } from 'utils/coverageTracker'
+import { fetcherDuration, fetcherErrors, fetcherPrices, logger } from 'utils/index'
 import { priceCache } from 'utils/priceCache'
 import { progressTracker } from 'utils/progressTracker'
 
@@ -35,10 +36,12 @@ export class PriceFetcherOrchestrator {
   private yearnVault = new YearnVaultFetcher()
   private fetcherFilter?: string
 
+  // Tokens still unpriced at the end are recorded into `coverage` when given
   async fetchPrices(
     chainId: number,
     tokens: ERC20Token[],
     existingPrices?: Map<string, Price>,
+    coverage?: CoverageTracker,
   ): Promise<Map<string, Price>> {
     const priceMap = new Map<string, Price>()
     const progressKey = `fetch-${chainId}-${Date.now()}`
@@ -111,12 +114,13 @@ export class PriceFetcherOrchestrator {
 
     // All price fetchers that don't depend on other prices
     const independentFetchers = []
+    const attemptedFetchers: string[] = []
 
     // DeFiLlama - primary price source
     if (shouldRunFetcher('defillama')) {
+      attemptedFetchers.push('defillama')
       independentFetchers.push(
-        this.defillama
-          .fetchPrices(chainId, missingTokens)
+        this.measure('defillama', chainId, this.defillama.fetchPrices(chainId, missingTokens))
           .then((results) => {
             const filtered = new Map()
             results.forEach((price, address) => {
@@ -132,22 +136,42 @@ export class PriceFetcherOrchestrator {
 
     // Other API-based fetchers
     if (shouldRunFetcher('curve-factories')) {
+      attemptedFetchers.push('curve-factories')
       independentFetchers.push(
-        this.curveFactories.fetchPrices(chainId, missingTokens).catch(handleError),
+        this.measure(
+          'curve-factories',
+          chainId,
+          this.curveFactories.fetchPrices(chainId, missingTokens),
+        ).catch(handleError),
       )
     }
 
     if (shouldRunFetcher('gamma')) {
-      independentFetchers.push(this.gamma.fetchPrices(chainId, missingTokens).catch(handleError))
+      attemptedFetchers.push('gamma')
+      independentFetchers.push(
+        this.measure('gamma', chainId, this.gamma.fetchPrices(chainId, missingTokens)).catch(
+          handleError,
+        ),
+      )
     }
 
     if (shouldRunFetcher('pendle')) {
-      independentFetchers.push(this.pendle.fetchPrices(chainId, missingTokens).catch(handleError))
+      attemptedFetchers.push('pendle')
+      independentFetchers.push(
+        this.measure('pendle', chainId, this.pendle.fetchPrices(chainId, missingTokens)).catch(
+          handleError,
+        ),
+      )
     }
 
     if (shouldRunFetcher('velodrome')) {
+      attemptedFetchers.push('velodrome')
       independentFetchers.push(
-        this.velodrome.fetchPrices(chainId, missingTokens, new Map()).catch(handleError),
+        this.measure(
+          'velodrome',
+          chainId,
+          this.velodrome.fetchPrices(chainId, missingTokens, new Map()),
+        ).catch(handleError),
       )
     }
 
@@ -181,21 +205,36 @@ export class PriceFetcherOrchestrator {
 
     // CurveAmm needs priceMap for LP calculations
     if (shouldRunFetcher('curve-amm')) {
+      attemptedFetchers.push('curve-amm')
       dependentFetchers.push(
-        this.curveAmm.fetchPrices(chainId, missingTokens, priceMap).catch(handleError),
+        this.measure(
+          'curve-amm',
+          chainId,
+          this.curveAmm.fetchPrices(chainId, missingTokens, priceMap),
+        ).catch(handleError),
       )
     }
 
     // Vault fetchers need underlying token prices
     if (shouldRunFetcher('erc4626')) {
+      attemptedFetchers.push('erc4626')
       dependentFetchers.push(
-        this.erc4626.fetchPrices(chainId, missingTokens, priceMap).catch(handleError),
+        this.measure(
+          'erc4626',
+          chainId,
+          this.erc4626.fetchPrices(chainId, missingTokens, priceMap),
+        ).catch(handleError),
       )
     }
 
     if (shouldRunFetcher('yearn-vault')) {
+      attemptedFetchers.push('yearn-vault')
       dependentFetchers.push(
-        this.yearnVault.fetchPrices(chainId, missingTokens, priceMap).catch(handleError),
+        this.measure(
+          'yearn-vault',
+          chainId,
+          this.yearnVault.fetchPrices(chainId, missingTokens, priceMap),
+        ).catch(handleError),
       )
     }
 
@@ -205,8 +244,13 @@ export class PriceFetcherOrchestrator {
       priceMap.size > 0 &&
       !independentFetchers.some((f) => f.toString().includes('velodrome'))
     ) {
+      attemptedFetchers.push('velodrome')
       dependentFetchers.push(
-        this.velodrome.fetchPrices(chainId, missingTokens, priceMap).catch(handleError),
+        this.measure(
+          'velodrome',
+          chainId,
+          this.velodrome.fetchPrices(chainId, missingTokens, priceMap),
+        ).catch(handleError),
       )
     }
 
@@ -229,11 +273,128 @@ export class PriceFetcherOrchestrator {
     const finalMissing = tokens.filter((t) => !priceMap.has(t.address.toLowerCase()))
     if (finalMissing.length > 0) {
       logger.debug(`Missing prices for ${finalMissing.length} tokens on chain ${chainId}`)
+      coverage?.recordMissing(
+        chainId,
+        finalMissing.map((t) => t.address),
+        Array.from(new Set(attemptedFetchers)),
+      )
+    }
+
+    return priceMap
+  }
+
+  /**
+   * Price tokens as of a past block. On-chain fetchers read at the block and DeFiLlama returns
+   * its historical price for the block's time; sources that only know current values are skipped.
+   * Nothing is read from or written to the price cache.
+   */
+  async fetchPricesAt(
+    chainId: number,
+    tokens: ERC20Token[],
+    block: PricingBlock,
+  ): Promise<Map<string, Price>> {
+    const priceMap = new Map<string, Price>()
+    const supportedFetchers = DISCOVERY_CONFIGS[chainId]?.supportedPriceFetchers || []
+    const shouldRunFetcher = (fetcher: PriceFetcher): boolean =>
+      this.fetcherFilter
+        ? fetcher === this.fetcherFilter
+        : supportedFetchers.length === 0 || supportedFetchers.includes(fetcher)
+
+    const handleError = (error: any) => {
+      logger.debug(`Fetcher error at block ${block.number}: ${error.message || 'Unknown error'}`)
+      return new Map<string, Price>()
+    }
+    const merge = (results: PromiseSettledResult<Map<string, Price>>[]) => {
+      results.forEach((result) => {
+        if (result.status === 'fulfilled') {
+          result.value.forEach((price, address) => {
+            if (price.price > BigInt(0) && !priceMap.has(address)) {
+              priceMap.set(address, price)
+            }
+          })
+        }
+      })
+    }
+
+    if (shouldRunFetcher('defillama')) {
+      merge(
+        await Promise.allSettled([
+          this.measure(
+            'defillama',
+            chainId,
+            this.defillama.fetchPrices(chainId, tokens, block.timestamp),
+          ).catch(handleError),
+        ]),
+      )
     }
 
+    const missingTokens = tokens.filter((t) => !priceMap.has(t.address.toLowerCase()))
+    if (missingTokens.length === 0) return priceMap
+
+    // Same dependent fetchers as a refresh, on the base prices of the block's time
+    const dependentFetchers = []
+    if (shouldRunFetcher('curve-amm')) {
+      dependentFetchers.push(
+        this.measure(
+          'curve-amm',
+          chainId,
+          this.curveAmm.fetchPrices(chainId, missingTokens, priceMap, block.number),
+        ).catch(handleError),
+      )
+    }
+    if (shouldRunFetcher('erc4626')) {
+      dependentFetchers.push(
+        this.measure(
+          'erc4626',
+          chainId,
+          this.erc4626.fetchPrices(chainId, missingTokens, priceMap, block.number),
+        ).catch(handleError),
+      )
+    }
+    if (shouldRunFetcher('yearn-vault')) {
+      dependentFetchers.push(
+        this.measure(
+          'yearn-vault',
+          chainId,
+          this.yearnVault.fetchPrices(chainId, missingTokens, priceMap, block.number),
+        ).catch(handleError),
+      )
+    }
+    if (shouldRunFetcher('velodrome')) {
+      dependentFetchers.push(
+        this.measure(
+          'velodrome',
+          chainId,
+          this.velodrome.fetchPrices(chainId, missingTokens, priceMap, block.number),
+        ).catch(handleError),
+      )
+    }
+    merge(await Promise.allSettled(dependentFetchers))
+
     return priceMap
   }
 
+  // Times a fetcher run and counts what it returned, failures still reject
+  private measure(
+    fetcher: string,
+    chainId: number,
+    run: Promise<Map<string, Price>>,
+  ): Promise<Map<string, Price>> {
+    const done = fetcherDuration.startTimer({ chain: chainId, fetcher })
+    return run.then(
+      (prices) => {
+        done()
+        fetcherPrices.inc({ chain: chainId, fetcher }, prices.size)
+        return prices
+      },
+      (error) => {
+        done()
+        fetcherErrors.inc({ chain: chainId, fetcher })
+        throw error
+      },
+    )
+  }
+
   setFetcherFilter(fetcherName: string): void {
     this.fetcherFilter = fetcherName
   }
@@ -1,6 +1,6 @@
 import axios from 'axios'
 import { ERC20Token, Price } from 'models/index'
-import { discoveryPriceCache, logger } from 'utils/index'
+import { discoveryPriceCache, fetcherErrors, logger } from 'utils/index'
 
 interface PendleMarket {
   address: string
@@ -117,6 +117,7 @@ export class PendleFetcher {
         `Pendle: Total ${priceMap.size} prices for chain ${chainId} (${cached.length} cached, ${priceMap.size - cached.length} fetched)`,
       )
     } catch (error) {
+      fetcherErrors.inc({ chain: chainId, fetcher: 'pendle' })
       const errorMsg = error instanceof Error ? error.message : String(error)
       logger.warn(`Pendle fetch failed for chain ${chainId}: ${errorMsg}`)
     }
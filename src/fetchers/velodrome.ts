@@ -1,5 +1,5 @@
 import { ERC20Token, Price } from 'models/index'
-import { getPublicClient, logger } from 'utils/index'
+import { fetcherErrors, getPublicClient, logger } from 'utils/index'
 import { type Address, parseAbi } from 'viem'
 
 // Sugar Oracle contract addresses
@@ -79,12 +79,15 @@ const SUGAR_ORACLE_ABI = parseAbi([
 ])
 
 export class VelodromeFetcher {
-  private fetchingInProgress = new Map<number, Promise<Map<string, Price>>>()
+  // Keyed by chain and block, reads at different blocks must not share a result
+  private fetchingInProgress = new Map<string, Promise<Map<string, Price>>>()
 
   async fetchPrices(
     chainId: number,
     tokens: ERC20Token[],
     existingPrices: Map<string, Price>,
+    // Reads the oracle at this block instead of the latest
+    blockNumber?: bigint,
   ): Promise<Map<string, Price>> {
     // Only support Optimism and Base
     if (chainId !== 10 && chainId !== 8453) {
@@ -94,7 +97,8 @@ export class VelodromeFetcher {
     logger.debug(`[Velodrome] Processing chain ${chainId} with ${tokens.length} tokens`)
 
     // Prevent multiple concurrent fetches for the same chain
-    const existingFetch = this.fetchingInProgress.get(chainId)
+    const fetchKey = `${chainId}:${blockNumber ?? 'latest'}`
+    const existingFetch = this.fetchingInProgress.get(fetchKey)
     if (existingFetch) {
       logger.debug(
         `[Velodrome] Fetch already in progress for chain ${chainId}, returning existing promise`,
@@ -102,14 +106,14 @@ export class VelodromeFetcher {
       return existingFetch
     }
 
-    const fetchPromise = this._doFetchPrices(chainId, tokens, existingPrices)
-    this.fetchingInProgress.set(chainId, fetchPromise)
+    const fetchPromise = this._doFetchPrices(chainId, tokens, existingPrices, blockNumber)
+    this.fetchingInProgress.set(fetchKey, fetchPromise)
 
     try {
       const result = await fetchPromise
       return result
     } finally {
-      this.fetchingInProgress.delete(chainId)
+      this.fetchingInProgress.delete(fetchKey)
     }
   }
 
@@ -117,6 +121,7 @@ export class VelodromeFetcher {
     chainId: number,
     tokens: ERC20Token[],
     existingPrices: Map<string, Price>,
+    blockNumber?: bigint,
   ): Promise<Map<string, Price>> {
     const priceMap = new Map<string, Price>()
 
@@ -203,6 +208,7 @@ export class VelodromeFetcher {
             abi: SUGAR_ORACLE_ABI,
             functionName: 'getManyRatesWithConnectors',
             args: [batch.length, connectors],
+            blockNumber,
           })
 
           const tokenPrices = (await Promise.race([oraclePromise, timeoutPromise])) as bigint[]
@@ -319,6 +325,7 @@ export class VelodromeFetcher {
 
       logger.debug(`[Velodrome] Total prices returned: ${priceMap.size}`)
     } catch (error: any) {
+      fetcherErrors.inc({ chain: chainId, fetcher: 'velodrome' })
       logger.error(`Velodrome fetcher failed for chain ${chainId}:`, error)
     }
 
@@ -1,5 +1,5 @@
 import { ERC20Token, Price } from 'models/index'
-import { batchReadContracts, discoveryPriceCache, logger } from 'utils/index'
+import { batchReadContracts, discoveryPriceCache, fetcherErrors, logger } from 'utils/index'
 import { type Address, parseAbi } from 'viem'
 
 // Yearn Vault V2 ABI
@@ -23,6 +23,8 @@ export class YearnVaultFetcher {
     chainId: number,
     tokens: ERC20Token[],
     underlyingPrices: Map<string, Price>,
+    // Reads at this block instead of the latest
+    blockNumber?: bigint,
   ): Promise<Map<string, Price>> {
     const priceMap = new Map<string, Price>()
 
@@ -59,16 +61,25 @@ export class YearnVaultFetcher {
       })
 
       // First check cached data from discovery
-      const vaultsWithData: { vault: ERC20Token; underlying: string; pricePerShare: bigint }[] = []
+      // `via` records where pricePerShare came from, for price explanations
+      const vaultsWithData: {
+        vault: ERC20Token
+        underlying: string
+        pricePerShare: bigint
+        via: string
+      }[] = []
       const vaultsNeedingOnChain: ERC20Token[] = []
 
       yearnVaults.forEach((vault) => {
-        const cached = discoveryPriceCache.get(chainId, vault.address)
+        // Discovery caches current values, which a past block cannot use
+        const cached =
+          blockNumber === undefined ? discoveryPriceCache.get(chainId, vault.address) : undefined
         if (cached?.data?.pricePerShare && cached?.data?.underlyingAddress) {
           vaultsWithData.push({
             vault,
             underlying: cached.data.underlyingAddress,
             pricePerShare: cached.data.pricePerShare,
+            via: 'discovery',
           })
         } else {
           vaultsNeedingOnChain.push(vault)
@@ -89,7 +100,11 @@ export class YearnVaultFetcher {
           args: [],
         }))
 
-        const v2PriceResults = await batchReadContracts<bigint>(chainId, v2PriceContracts)
+        const v2PriceResults = await batchReadContracts<bigint>(
+          chainId,
+          v2PriceContracts,
+          blockNumber,
+        )
 
         // Also get underlying token addresses
         const tokenContracts = vaultsNeedingOnChain.map((vault) => ({
@@ -99,7 +114,7 @@ export class YearnVaultFetcher {
           args: [],
         }))
 
-        const tokenResults = await batchReadContracts<Address>(chainId, tokenContracts)
+        const tokenResults = await batchReadContracts<Address>(chainId, tokenContracts, blockNumber)
 
         vaultsNeedingOnChain.forEach((vault, index) => {
           const priceResult = v2PriceResults[index]
@@ -117,6 +132,7 @@ export class YearnVaultFetcher {
               vault,
               underlying: tokenResult.result.toLowerCase(),
               pricePerShare: priceResult.result,
+              via: 'pricePerShare()',
             })
           }
         })
@@ -136,7 +152,11 @@ export class YearnVaultFetcher {
           args: [BigInt(10 ** 18)], // 1e18 shares
         }))
 
-        const v3ConvertResults = await batchReadContracts<bigint>(chainId, v3ConvertContracts)
+        const v3ConvertResults = await batchReadContracts<bigint>(
+          chainId,
+          v3ConvertContracts,
+          blockNumber,
+        )
 
         // Get asset addresses for V3
         const v3AssetContracts = v3Vaults.map((vault) => ({
@@ -146,7 +166,11 @@ export class YearnVaultFetcher {
           args: [],
         }))
 
-        const v3AssetResults = await batchReadContracts<Address>(chainId, v3AssetContracts)
+        const v3AssetResults = await batchReadContracts<Address>(
+          chainId,
+          v3AssetContracts,
+          blockNumber,
+        )
 
         // Process V3 vaults
         v3Vaults.forEach((vault, index) => {
@@ -165,6 +189,7 @@ export class YearnVaultFetcher {
               vault,
               underlying: assetResult.result.toLowerCase(),
               pricePerShare: convertResult.result, // This is effectively the same as pricePerShare for 1e18
+              via: 'convertToAssets(1e18)',
             })
           }
         })
@@ -180,7 +205,7 @@ export class YearnVaultFetcher {
       )
       logger.debug(`Yearn Vault: Available underlying prices: ${underlyingPrices.size}`)
 
-      vaultsWithData.forEach(({ vault, underlying, pricePerShare }) => {
+      vaultsWithData.forEach(({ vault, underlying, pricePerShare, via }) => {
         const underlyingPrice = underlyingPrices.get(underlying)
 
         if (underlyingPrice && underlyingPrice.price > BigInt(0)) {
@@ -218,6 +243,16 @@ export class YearnVaultFetcher {
               address: vault.address.toLowerCase(),
               price: vaultPrice,
               source: 'yearn-vault',
+              derivation: {
+                method: 'share-value',
+                underlying,
+                underlyingPrice: underlyingPrice.price.toString(),
+                inputs: {
+                  pricePerShare: pricePerShare.toString(),
+                  pricePerShareDecimals: pricePerShareDecimals.toString(),
+                  pricePerShareFrom: via,
+                },
+              },
             })
             successCount++
           } else {
@@ -244,6 +279,7 @@ export class YearnVaultFetcher {
         logger.debug(`Yearn Vault: ${zeroVaultPriceCount} vaults calculated to zero price`)
       }
     } catch (error) {
+      fetcherErrors.inc({ chain: chainId, fetcher: 'yearn-vault' })
       logger.error(`Yearn Vault fetcher failed for chain ${chainId}:`, error)
     }
 
@@ -22,10 +22,82 @@ export const WETH_ADDRESSES: Record<number, string> = {
   8453: '0x4200000000000000000000000000000000000006',
 }
 
+export const WBTC_ADDRESSES: Record<number, string> = {
+  1: '0x2260fac5e5542a773aa44fbcfedf7c193bc2c599',
+  10: '0x68f180fcce6836688e9084f035309e29bf0a2095',
+  100: '0x8e5bbbb09ed1ebde8674cda39a0c169401db4252',
+  137: '0x1bfd67037b42cf73acf2047067bd4f2c47d9bfd6',
+  42161: '0x2f2a2543b76a4166549f7aab2e75bef0aefc5b0f',
+}
+
+// What a `?quote=` currency resolved to on one chain
+export type QuoteCurrency =
+  | { kind: 'usd' }
+  | { kind: 'token'; address: string; price: bigint }
+  | { kind: 'underlying' }
+  | { kind: 'fiat'; currency: string; rate: number }
+
+// How a fetcher computed a price from other values, kept so wrong prices can be explained
+export interface PriceDerivation {
+  method: 'share-value' | 'virtual-price' | 'tvl-per-supply'
+  // Token whose stored price the derivation was built on
+  underlying?: string
+  // Price of `underlying` at derivation time, 6 decimals
+  underlyingPrice?: string
+  // Raw values the price was computed from, as decimal strings
+  inputs: Record<string, string>
+}
+
 export interface Price {
   address: string
   price: bigint
   source: string
+  // Taken from the discovered token when the price is stored
+  symbol?: string
+  // Only set on prices derived from other prices or pool values
+  derivation?: PriceDerivation
+}
+
+export interface StoredPrice extends Price {
+  timestamp: number
+  // Decimals of `price` when not the stored 6, prices converted to a quote keep more
+  priceDecimals?: number
+}
+
+// A past block prices are read at, instead of the latest one
+export interface PricingBlock {
+  number: bigint
+  // Unix seconds
+  timestamp: number
+}
+
+export interface ChainPriceVersion {
+  // Changes whenever a stored price of the chain changes: a content hash, or a revision in Redis and SQLite
+  version: string
+  // When the hashed content last changed (ms)
+  lastModified: number
+  // When prices were last stored for the chain, changed or not (ms)
+  lastStored?: number
+  // Prices stored for the chain
+  priceCount?: number
+}
+
+// A chain's prices after a complete refresh, kept so the chain can be rolled back to it
+export interface PriceSnapshot {
+  id: string
+  chainId: number
+  // When the snapshot was published (ms)
+  createdAt: number
+  priceCount: number
+  // Whether the chain serves this snapshot, the last one published or rolled back to
+  current: boolean
+}
+
+export interface PriceHistoryPoint {
+  address: string
+  price: bigint
+  source: string
+  timestamp: number
 }
 
 export interface ERC20Token {
@@ -36,6 +108,12 @@ export interface ERC20Token {
   chainId: number
   source?: string
   isVault?: boolean
+  // Asset a vault's shares are backed by, when its discovery source knows it
+  underlying?: string
+  // Every discovery source that found the token, `source` being the first
+  sources?: string[]
+  // Last on-demand quote of a requested token (ms), refreshes stop pricing it once expired
+  requestedAt?: number
 }
 
 export interface CurveFactoriesPoolData {
@@ -120,10 +198,48 @@ export interface VeloPairs {
   data: VeloPairData[]
 }
 
+export interface MissingTokenReport {
+  address: string
+  symbol: string
+  name: string
+  sources: string[]
+  // Fetchers that ran on the token without pricing it
+  attemptedFetchers: string[]
+}
+
+export interface CoverageReport {
+  chainId: number
+  // When the refresh run finished (ms)
+  generatedAt: number
+  discovered: number
+  priced: number
+  missing: MissingTokenReport[]
+}
+
+export type RefreshJobStatus = 'running' | 'succeeded' | 'failed'
+
+export interface RefreshJob {
+  id: string
+  chainId: number
+  // At most one of these narrows the refresh, as in refresh-route
+  discoveryService?: string
+  fetcher?: string
+  status: RefreshJobStatus
+  // ms timestamps
+  startedAt: number
+  finishedAt?: number
+  error?: string
+}
+
+export type FormattedPrice = string | { raw: string; decimal: string }
+
 export interface PriceResponse {
   address: string
-  price: string
+  price: FormattedPrice
   source: string
+  timestamp: number
+  age: number
+  stale: boolean
 }
 
 export interface PriceMapResponse {
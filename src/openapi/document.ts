@@ -0,0 +1,924 @@
+import { SUPPORTED_CHAINS } from 'models/index'
+import { MAX_PAGE_SIZE } from 'utils/priceFilters'
+
+/**
+ * Subset of JSON Schema understood by the request validator
+ */
+export interface OpenApiSchema {
+  $ref?: string
+  type?: 'string' | 'integer' | 'number' | 'boolean' | 'array' | 'object'
+  description?: string
+  enum?: Array<string | number>
+  pattern?: string
+  format?: string
+  minimum?: number
+  maximum?: number
+  minItems?: number
+  maxItems?: number
+  items?: OpenApiSchema
+  properties?: Record<string, OpenApiSchema>
+  required?: string[]
+  additionalProperties?: boolean | OpenApiSchema
+  oneOf?: OpenApiSchema[]
+  nullable?: boolean
+  example?: unknown
+}
+
+export interface OpenApiParameter {
+  $ref?: string
+  name?: string
+  in?: 'path' | 'query' | 'header'
+  description?: string
+  required?: boolean
+  style?: 'simple' | 'form'
+  explode?: boolean
+  schema?: OpenApiSchema
+}
+
+export interface OpenApiOperation {
+  operationId: string
+  summary: string
+  description?: string
+  tags?: string[]
+  parameters?: OpenApiParameter[]
+  requestBody?: {
+    required?: boolean
+    content: Record<string, { schema: OpenApiSchema }>
+  }
+  responses: Record<
+    string,
+    { description: string; content?: Record<string, { schema: OpenApiSchema }> }
+  >
+}
+
+export interface OpenApiDocument {
+  openapi: string
+  info: { title: string; version: string; description?: string }
+  paths: Record<string, Record<string, OpenApiOperation>>
+  components: {
+    schemas: Record<string, OpenApiSchema>
+    parameters: Record<string, OpenApiParameter>
+    responses: Record<string, { description: string; content?: Record<string, any> }>
+  }
+}
+
+const json = (schema: OpenApiSchema) => ({ 'application/json': { schema } })
+const ref = (name: string): OpenApiSchema => ({ $ref: `#/components/schemas/${name}` })
+const param = (name: string): OpenApiParameter => ({ $ref: `#/components/parameters/${name}` })
+
+// Price dumps negotiated through `Accept`
+const exportContent: Record<string, { schema: OpenApiSchema }> = {
+  'text/csv': {
+    schema: { type: 'string', description: 'Header row then one row per price' },
+  },
+  'application/x-ndjson': {
+    schema: { type: 'string', description: 'One JSON price per line' },
+  },
+}
+
+const notModifiedResponse = {
+  '304': {
+    description:
+      'Prices unchanged since the `ETag` / `Last-Modified` sent in `If-None-Match` / `If-Modified-Since`. Not used for detailed responses and CSV/NDJSON exports.',
+  },
+}
+
+const errorResponses = {
+  '400': { description: 'Invalid request', content: json(ref('Error')) },
+  '405': { description: 'Method not allowed', content: json(ref('Error')) },
+  '500': { description: 'Internal server error', content: json(ref('Error')) },
+}
+
+export const openApiSpec: OpenApiDocument = {
+  openapi: '3.0.3',
+  info: {
+    title: 'Yearn Pricing Service',
+    version: '1.0.0',
+    description:
+      'Token prices aggregated from DeFiLlama, protocol APIs and on-chain calculations. Prices are integers with 6 decimals unless `format` asks otherwise.',
+  },
+  paths: {
+    '/api': {
+      get: {
+        operationId: 'getIndex',
+        summary: 'Service information and endpoint list',
+        tags: ['meta'],
+        responses: {
+          '200': {
+            description: 'Service information',
+            content: json({
+              type: 'object',
+              properties: {
+                message: { type: 'string' },
+                version: { type: 'string' },
+                endpoints: { type: 'array', items: { type: 'string' } },
+              },
+            }),
+          },
+          ...errorResponses,
+        },
+      },
+    },
+    '/api/healthcheck': {
+      get: {
+        operationId: 'getHealthcheck',
+        summary: 'Service health status',
+        description:
+          'Probes storage and reports when each chain last stored prices. Answers 503 when storage is unreachable (`down`) or a chain is older than `HEALTHCHECK_MAX_AGE_SECONDS` (`degraded`).',
+        tags: ['meta'],
+        responses: {
+          '200': { description: 'Service is healthy', content: json(ref('Healthcheck')) },
+          '503': {
+            description: 'Storage is down or a chain is stale',
+            content: json(ref('Healthcheck')),
+          },
+          ...errorResponses,
+        },
+      },
+    },
+    '/api/metrics': {
+      get: {
+        operationId: 'getMetrics',
+        summary: 'Prometheus metrics',
+        description:
+          'Prometheus text exposition. Prices per chain and source, coverage and last stored times are read from storage on each scrape; refresh, fetcher, RPC, cache and request metrics are counted by the serving process. Also served at `/metrics`.',
+        tags: ['meta'],
+        responses: {
+          '200': {
+            description: 'Metrics in text format 0.0.4',
+            content: { 'text/plain': { schema: { type: 'string' } } },
+          },
+          ...errorResponses,
+        },
+      },
+    },
+    '/api/openapi.json': {
+      get: {
+        operationId: 'getOpenApiSpec',
+        summary: 'This OpenAPI document',
+        tags: ['meta'],
+        responses: {
+          '200': { description: 'OpenAPI 3 document', content: json({ type: 'object' }) },
+          ...errorResponses,
+        },
+      },
+    },
+    '/api/prices': {
+      get: {
+        operationId: 'getAllPrices',
+        summary: 'All prices on all chains, keyed by chain ID then address',
+        tags: ['prices'],
+        parameters: [
+          param('Format'),
+          param('Quote'),
+          param('Detailed'),
+          param('IfNoneMatch'),
+          param('IfModifiedSince'),
+          param('Accept'),
+        ],
+        responses: {
+          '200': {
+            description: 'Prices by chain',
+            content: {
+              ...json({ type: 'object', additionalProperties: ref('PriceMap') }),
+              ...exportContent,
+            },
+          },
+          ...notModifiedResponse,
+          ...errorResponses,
+        },
+      },
+    },
+    '/api/prices/chain/{chainId}': {
+      get: {
+        operationId: 'getChainPrices',
+        summary: 'All prices on one chain, keyed by address',
+        description:
+          'Filters combine with AND. With `limit`, prices come in address order and the `X-Next-Cursor` and `Link` headers point at the next page while there is one.',
+        tags: ['prices'],
+        parameters: [
+          param('ChainIdPath'),
+          {
+            name: 'source',
+            in: 'query',
+            style: 'form',
+            explode: false,
+            description: 'Only prices from these sources, e.g. `defillama,erc4626`',
+            schema: { type: 'array', items: { type: 'string' } },
+          },
+          {
+            name: 'minPrice',
+            in: 'query',
+            description: 'Only prices at or above this decimal value, in the quote currency',
+            schema: { type: 'string', pattern: '^\\d+(\\.\\d{1,6})?$' },
+          },
+          {
+            name: 'maxAge',
+            in: 'query',
+            description: 'Only prices stored at most this many seconds ago',
+            schema: { type: 'integer', minimum: 0 },
+          },
+          {
+            name: 'addresses',
+            in: 'query',
+            style: 'form',
+            explode: false,
+            description: 'Only these addresses',
+            schema: { type: 'array', maxItems: 1000, items: ref('Address') },
+          },
+          {
+            name: 'vaultsOnly',
+            in: 'query',
+            description: 'Only tokens discovery flagged as vaults',
+            schema: { type: 'boolean' },
+          },
+          {
+            name: 'limit',
+            in: 'query',
+            description: `Page size, at most ${MAX_PAGE_SIZE}`,
+            schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE },
+          },
+          {
+            name: 'cursor',
+            in: 'query',
+            description: '`X-Next-Cursor` of the previous page',
+            schema: ref('Address'),
+          },
+          param('Format'),
+          param('Quote'),
+          param('Detailed'),
+          param('IfNoneMatch'),
+          param('IfModifiedSince'),
+          param('Accept'),
+        ],
+        responses: {
+          '200': {
+            description: 'Prices by address',
+            content: { ...json(ref('PriceMap')), ...exportContent },
+          },
+          ...notModifiedResponse,
+          ...errorResponses,
+        },
+      },
+    },
+    '/api/prices/tokens/{list}': {
+      get: {
+        operationId: 'getTokenPrices',
+        summary: 'Prices for a comma-separated list of chainId:address pairs',
+        tags: ['prices'],
+        parameters: [
+          {
+            name: 'list',
+            in: 'path',
+            required: true,
+            style: 'simple',
+            description: 'Comma-separated `chainId:address` pairs',
+            schema: {
+              type: 'array',
+              minItems: 1,
+              maxItems: 500,
+              items: ref('ChainAddress'),
+            },
+          },
+          param('Format'),
+          param('Quote'),
+          param('Detailed'),
+          param('IfNoneMatch'),
+          param('IfModifiedSince'),
+        ],
+        responses: {
+          '200': {
+            description: 'Prices keyed by chainId:address, tokens without a price are omitted',
+            content: json(ref('PriceMap')),
+          },
+          ...notModifiedResponse,
+          ...errorResponses,
+        },
+      },
+    },
+    '/api/prices/query': {
+      post: {
+        operationId: 'queryPrices',
+        summary: 'Prices for a large set of tokens and/or whole chains',
+        tags: ['prices'],
+        parameters: [param('Format'), param('Quote'), param('Detailed')],
+        requestBody: {
+          required: true,
+          content: json({
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              tokens: {
+                type: 'array',
+                maxItems: 5000,
+                items: {
+                  type: 'object',
+                  required: ['chainId', 'address'],
+                  properties: { chainId: ref('ChainId'), address: ref('Address') },
+                },
+              },
+              chains: { type: 'array', items: ref('ChainId') },
+            },
+          }),
+        },
+        responses: {
+          '200': {
+            description: 'Requested prices with missing tokens listed explicitly',
+            content: json({
+              type: 'object',
+              properties: {
+                prices: ref('PriceMap'),
+                chains: { type: 'object', additionalProperties: ref('PriceMap') },
+                missing: {
+                  type: 'array',
+                  items: {
+                    type: 'string',
+                    description:
+                      '`chainId:address` of a token without a price, or `chainId:*` for a requested chain the quote has no price on',
+                  },
+                },
+              },
+            }),
+          },
+          ...errorResponses,
+        },
+      },
+    },
+    '/api/prices/stream': {
+      get: {
+        operationId: 'streamPrices',
+        summary: 'Server-Sent Events stream of price changes',
+        tags: ['prices'],
+        parameters: [
+          {
+            name: 'chains',
+            in: 'query',
+            style: 'form',
+            explode: false,
+            schema: { type: 'array', items: ref('ChainId') },
+          },
+          {
+            name: 'addresses',
+            in: 'query',
+            style: 'form',
+            explode: false,
+            description: 'Addresses to follow, optionally pinned to a chain as `chainId:address`',
+            schema: {
+              type: 'array',
+              maxItems: 1000,
+              items: { oneOf: [ref('Address'), ref('ChainAddress')] },
+            },
+          },
+          param('Format'),
+          param('Detailed'),
+        ],
+        responses: {
+          '200': {
+            description: '`prices` events carrying `{ chainId, prices }`',
+            content: { 'text/event-stream': { schema: { type: 'string' } } },
+          },
+          ...errorResponses,
+        },
+      },
+    },
+    '/api/prices/quote/{chainId}/{address}': {
+      get: {
+        operationId: 'quotePrice',
+        summary: 'Price of one token, priced on demand for admin requests when never discovered',
+        description:
+          'With the admin bearer token, unknown tokens are read on chain, priced with every fetcher and kept in the refreshed token set once priced, until the request expires. Other requests get stored prices only. With `block` or `timestamp`, the token is priced as of that block instead and nothing is stored.',
+        tags: ['prices'],
+        parameters: [
+          param('ChainIdPath'),
+          param('AddressPath'),
+          {
+            name: 'block',
+            in: 'query',
+            description:
+              'Price at this block: on-chain reads at the block, DeFiLlama prices of its time. Only in USD.',
+            schema: { type: 'integer', minimum: 0 },
+          },
+          {
+            name: 'timestamp',
+            in: 'query',
+            description:
+              'Unix seconds, priced at the last block mined at or before them as with `block`. Not combined with `block`.',
+            schema: { type: 'integer', minimum: 0 },
+          },
+          param('Format'),
+          param('Quote'),
+          param('Detailed'),
+        ],
+        responses: {
+          '200': { description: 'The price keyed by address', content: json(ref('PriceMap')) },
+          '404': {
+            description: 'Not an ERC20 token, no source could price it, or not stored',
+            content: json(ref('Error')),
+          },
+          ...errorResponses,
+        },
+      },
+    },
+    '/api/prices/explain/{chainId}/{address}': {
+      get: {
+        operationId: 'explainPrice',
+        summary: 'How a price was derived, following underlyings down to a base price',
+        tags: ['prices'],
+        parameters: [param('ChainIdPath'), param('AddressPath'), param('Format')],
+        responses: {
+          '200': {
+            description: 'Derivation steps, each priced from the next',
+            content: json({
+              type: 'object',
+              properties: {
+                chainId: { type: 'integer' },
+                address: ref('Address'),
+                steps: { type: 'array', items: ref('PriceExplanationStep') },
+              },
+            }),
+          },
+          '404': { description: 'No stored price', content: json(ref('Error')) },
+          ...errorResponses,
+        },
+      },
+    },
+    '/api/prices/history/{chainId}/{address}': {
+      get: {
+        operationId: 'getPriceHistory',
+        summary: 'Stored price points of a token',
+        tags: ['prices'],
+        parameters: [
+          param('ChainIdPath'),
+          param('AddressPath'),
+          {
+            name: 'from',
+            in: 'query',
+            description: 'Unix timestamp in seconds or ISO date, defaults to 7 days before `to`',
+            schema: { type: 'string' },
+          },
+          {
+            name: 'to',
+            in: 'query',
+            description: 'Unix timestamp in seconds or ISO date, defaults to now',
+            schema: { type: 'string' },
+          },
+          {
+            name: 'interval',
+            in: 'query',
+            description: 'Keep the last point of every interval, e.g. `15m`, `1h`, `1d`',
+            schema: { type: 'string', pattern: '^\\d+[smhdw]?$' },
+          },
+          param('Format'),
+        ],
+        responses: {
+          '200': {
+            description: 'History points in ascending time order',
+            content: json({
+              type: 'object',
+              properties: {
+                chainId: { type: 'integer' },
+                address: { type: 'string' },
+                from: { type: 'integer' },
+                to: { type: 'integer' },
+                interval: { type: 'integer', nullable: true },
+                points: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      timestamp: { type: 'integer' },
+                      price: ref('FormattedPrice'),
+                      source: { type: 'string' },
+                    },
+                  },
+                },
+              },
+            }),
+          },
+          ...errorResponses,
+        },
+      },
+    },
+    '/api/tokens/{chainId}': {
+      get: {
+        operationId: 'getChainTokens',
+        summary: 'Discovered tokens on one chain, keyed by address',
+        tags: ['tokens'],
+        parameters: [param('ChainIdPath')],
+        responses: {
+          '200': {
+            description: 'Registry entries from the last full discovery',
+            content: json({ type: 'object', additionalProperties: ref('Token') }),
+          },
+          ...errorResponses,
+        },
+      },
+    },
+    '/api/tokens/{chainId}/{address}': {
+      get: {
+        operationId: 'getToken',
+        summary: 'Registry entry of one discovered token',
+        tags: ['tokens'],
+        parameters: [param('ChainIdPath'), param('AddressPath')],
+        responses: {
+          '200': { description: 'Registry entry', content: json(ref('Token')) },
+          '404': { description: 'Token was not discovered', content: json(ref('Error')) },
+          ...errorResponses,
+        },
+      },
+    },
+    '/api/diagnostics/coverage/{chainId}': {
+      get: {
+        operationId: 'getChainCoverage',
+        summary: 'Discovered tokens the last refresh run could not price',
+        tags: ['diagnostics'],
+        parameters: [param('ChainIdPath')],
+        responses: {
+          '200': {
+            description: 'Coverage of the last full refresh of the chain',
+            content: json({
+              type: 'object',
+              properties: {
+                chainId: { type: 'integer' },
+                generatedAt: {
+                  type: 'integer',
+                  description: 'When the run finished (unix seconds)',
+                },
+                discovered: { type: 'integer' },
+                priced: { type: 'integer' },
+                coverage: { type: 'number', description: 'Share of discovered tokens priced' },
+                missing: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      address: { type: 'string' },
+                      symbol: { type: 'string' },
+                      name: { type: 'string' },
+                      sources: { type: 'array', items: { type: 'string' } },
+                      attemptedFetchers: { type: 'array', items: { type: 'string' } },
+                    },
+                  },
+                },
+              },
+            }),
+          },
+          '404': { description: 'No refresh run has reported yet', content: json(ref('Error')) },
+          ...errorResponses,
+        },
+      },
+    },
+    '/api/ydaemon/prices/all': {
+      get: {
+        operationId: 'ydaemonGetAllPrices',
+        summary: 'ydaemon `/prices/all`: all prices keyed by chain ID then checksummed address',
+        tags: ['ydaemon'],
+        parameters: [param('Humanized')],
+        responses: {
+          '200': {
+            description: 'Prices by chain',
+            content: json({ type: 'object', additionalProperties: ref('YDaemonPriceMap') }),
+          },
+          ...errorResponses,
+        },
+      },
+    },
+    '/api/ydaemon/{chainId}/prices/all': {
+      get: {
+        operationId: 'ydaemonGetChainPrices',
+        summary: 'ydaemon `/:chainID/prices/all`: prices of one chain keyed by checksummed address',
+        tags: ['ydaemon'],
+        parameters: [param('ChainIdPath'), param('Humanized')],
+        responses: {
+          '200': { description: 'Prices by address', content: json(ref('YDaemonPriceMap')) },
+          ...errorResponses,
+        },
+      },
+    },
+    '/api/ydaemon/{chainId}/prices/some/{addresses}': {
+      get: {
+        operationId: 'ydaemonGetSomePrices',
+        summary: 'ydaemon `/:chainID/prices/some/:addresses`: prices of comma-separated addresses',
+        tags: ['ydaemon'],
+        parameters: [
+          param('ChainIdPath'),
+          {
+            name: 'addresses',
+            in: 'path',
+            required: true,
+            style: 'simple',
+            schema: { type: 'array', minItems: 1, maxItems: 500, items: ref('Address') },
+          },
+          param('Humanized'),
+        ],
+        responses: {
+          '200': {
+            description: 'Prices by address, addresses without a price are omitted',
+            content: json(ref('YDaemonPriceMap')),
+          },
+          ...errorResponses,
+        },
+      },
+    },
+    '/api/ydaemon/{chainId}/prices/{address}': {
+      get: {
+        operationId: 'ydaemonGetPrice',
+        summary: 'ydaemon `/:chainID/prices/:address`: the bare price of one token',
+        tags: ['ydaemon'],
+        parameters: [param('ChainIdPath'), param('AddressPath'), param('Humanized')],
+        responses: {
+          '200': { description: 'The price', content: json(ref('YDaemonPrice')) },
+          '404': { description: 'No stored price', content: json(ref('Error')) },
+          ...errorResponses,
+        },
+      },
+    },
+    '/api/admin/refresh': {
+      post: {
+        operationId: 'triggerRefresh',
+        summary: 'Start a background refresh of one chain',
+        description:
+          'Requires `Authorization: Bearer <ADMIN_REFRESH_SECRET>`. Refreshes the whole chain, or only the tokens of one discovery service, or only one fetcher, like `refresh-route`.',
+        tags: ['admin'],
+        parameters: [param('AdminAuthorization')],
+        requestBody: {
+          required: true,
+          content: json({
+            type: 'object',
+            required: ['chainId'],
+            additionalProperties: false,
+            properties: {
+              chainId: ref('ChainId'),
+              discoveryService: { type: 'string', example: 'yearn' },
+              fetcher: { type: 'string', example: 'defillama' },
+            },
+          }),
+        },
+        responses: {
+          '202': {
+            description: 'Job started, poll `statusUrl` for its outcome',
+            content: json({
+              type: 'object',
+              properties: {
+                jobId: { type: 'string' },
+                statusUrl: { type: 'string' },
+                job: ref('RefreshJob'),
+              },
+            }),
+          },
+          '401': { description: 'Missing or wrong admin secret', content: json(ref('Error')) },
+          '409': { description: 'The chain is already refreshing', content: json(ref('Error')) },
+          '503': { description: 'Admin routes are disabled', content: json(ref('Error')) },
+          ...errorResponses,
+        },
+      },
+    },
+    '/api/admin/refresh/{jobId}': {
+      get: {
+        operationId: 'getRefreshJob',
+        summary: 'Status of a refresh job',
+        tags: ['admin'],
+        parameters: [
+          {
+            name: 'jobId',
+            in: 'path',
+            required: true,
+            schema: {
+              type: 'string',
+              pattern: '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$',
+            },
+          },
+          param('AdminAuthorization'),
+        ],
+        responses: {
+          '200': { description: 'The job', content: json(ref('RefreshJob')) },
+          '401': { description: 'Missing or wrong admin secret', content: json(ref('Error')) },
+          '404': { description: 'Unknown job', content: json(ref('Error')) },
+          '503': { description: 'Admin routes are disabled', content: json(ref('Error')) },
+          ...errorResponses,
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      ChainId: {
+        type: 'integer',
+        enum: Object.values(SUPPORTED_CHAINS).map((chain) => chain.id),
+      },
+      Address: {
+        type: 'string',
+        format: 'address',
+        description: '20-byte hex address, case-insensitive',
+        example: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2',
+      },
+      ChainAddress: {
+        type: 'string',
+        format: 'chain-address',
+        description: 'Supported chain ID and address separated by a colon',
+        example: '1:0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2',
+      },
+      FormattedPrice: {
+        oneOf: [
+          { type: 'string', description: '6-decimal integer (`raw`) or decimal string' },
+          {
+            type: 'object',
+            properties: { raw: { type: 'string' }, decimal: { type: 'string' } },
+          },
+        ],
+      },
+      PriceResponse: {
+        type: 'object',
+        properties: {
+          address: { type: 'string' },
+          price: ref('FormattedPrice'),
+          source: { type: 'string' },
+          timestamp: { type: 'integer', description: 'When the price was stored (unix seconds)' },
+          age: { type: 'integer', description: 'Seconds since the price was stored' },
+          stale: { type: 'boolean' },
+        },
+      },
+      PriceExplanationStep: {
+        type: 'object',
+        description: '`PriceResponse` fields with the token symbol and how the price was derived',
+        properties: {
+          address: { type: 'string' },
+          symbol: { type: 'string' },
+          price: ref('FormattedPrice'),
+          source: { type: 'string' },
+          timestamp: { type: 'integer' },
+          age: { type: 'integer' },
+          stale: { type: 'boolean' },
+          derivation: {
+            type: 'object',
+            description: 'Absent on base prices taken from a price source as is',
+            properties: {
+              method: { type: 'string', enum: ['share-value', 'virtual-price', 'tvl-per-supply'] },
+              underlying: { type: 'string', description: 'Token of the next step' },
+              underlyingPrice: ref('FormattedPrice'),
+              inputs: { type: 'object', additionalProperties: { type: 'string' } },
+            },
+          },
+        },
+      },
+      YDaemonPrice: {
+        oneOf: [
+          { type: 'string', description: '6-decimal integer' },
+          { type: 'number', description: 'USD float with `humanized=true`' },
+        ],
+      },
+      YDaemonPriceMap: {
+        type: 'object',
+        description: 'Prices keyed by checksummed address',
+        additionalProperties: ref('YDaemonPrice'),
+      },
+      PriceMap: {
+        type: 'object',
+        description: 'Prices keyed by address, `PriceResponse` objects when `detailed=true`',
+        additionalProperties: { oneOf: [ref('FormattedPrice'), ref('PriceResponse')] },
+      },
+      Token: {
+        type: 'object',
+        properties: {
+          address: { type: 'string' },
+          chainId: { type: 'integer' },
+          symbol: { type: 'string' },
+          name: { type: 'string' },
+          decimals: { type: 'integer' },
+          isVault: { type: 'boolean' },
+          underlying: {
+            type: 'string',
+            nullable: true,
+            description: 'Asset backing a vault, when its discovery source knows it',
+          },
+          sources: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Discovery sources that found the token',
+          },
+        },
+      },
+      RefreshJob: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          chainId: { type: 'integer' },
+          discoveryService: { type: 'string' },
+          fetcher: { type: 'string' },
+          status: { type: 'string', enum: ['running', 'succeeded', 'failed'] },
+          startedAt: { type: 'integer', description: 'ms timestamp' },
+          finishedAt: { type: 'integer', description: 'ms timestamp' },
+          error: { type: 'string' },
+        },
+      },
+      Healthcheck: {
+        type: 'object',
+        properties: {
+          healthcheck: { type: 'integer' },
+          status: { type: 'string', enum: ['ok', 'degraded', 'down'] },
+          service: { type: 'string' },
+          storage: {
+            type: 'object',
+            properties: {
+              type: { type: 'string' },
+              ok: { type: 'boolean' },
+              latencyMs: { type: 'integer' },
+              error: { type: 'string' },
+            },
+          },
+          maxAge: { type: 'integer', description: 'Staleness budget in seconds' },
+          staleChains: { type: 'array', items: { type: 'string' } },
+          chains: {
+            type: 'object',
+            additionalProperties: {
+              type: 'object',
+              properties: {
+                lastRefresh: {
+                  type: 'integer',
+                  nullable: true,
+                  description: 'When prices were last stored (unix seconds)',
+                },
+                age: { type: 'integer', nullable: true },
+                priceCount: { type: 'integer' },
+                stale: { type: 'boolean' },
+              },
+            },
+          },
+        },
+      },
+      Error: {
+        type: 'object',
+        required: ['error'],
+        properties: {
+          error: { type: 'string' },
+          details: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                in: { type: 'string', enum: ['path', 'query', 'header', 'body'] },
+                name: { type: 'string' },
+                message: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+    },
+    parameters: {
+      ChainIdPath: { name: 'chainId', in: 'path', required: true, schema: ref('ChainId') },
+      AddressPath: { name: 'address', in: 'path', required: true, schema: ref('Address') },
+      Format: {
+        name: 'format',
+        in: 'query',
+        description: '`raw` 6-decimal integers (default), `decimal` strings or `both`',
+        schema: { type: 'string', enum: ['raw', 'decimal', 'both'] },
+      },
+      Quote: {
+        name: 'quote',
+        in: 'query',
+        description:
+          'Currency prices are expressed in: `usd` (default), a token address or `eth`/`btc` on the same chain, `underlying` for vaults, or a fiat code from the configured FX source. Converted prices are computed with 18 decimals, `format=decimal` returns all of them. Prices that cannot be converted are omitted.',
+        schema: { type: 'string', pattern: '^(0x[0-9a-fA-F]{40}|[A-Za-z]{3,10})$' },
+      },
+      IfNoneMatch: {
+        name: 'If-None-Match',
+        in: 'header',
+        description: 'ETag of a previous response, answered with 304 while prices are unchanged',
+        schema: { type: 'string' },
+      },
+      IfModifiedSince: {
+        name: 'If-Modified-Since',
+        in: 'header',
+        description: 'Last-Modified of a previous response, ignored when If-None-Match is sent',
+        schema: { type: 'string' },
+      },
+      Accept: {
+        name: 'Accept',
+        in: 'header',
+        description:
+          '`text/csv` or `application/x-ndjson` for a dump with chainId, address, symbol, price, source and timestamp columns',
+        schema: { type: 'string' },
+      },
+      AdminAuthorization: {
+        name: 'Authorization',
+        in: 'header',
+        description: '`Bearer <ADMIN_REFRESH_SECRET>`',
+        schema: { type: 'string' },
+      },
+      Humanized: {
+        name: 'humanized',
+        in: 'query',
+        description: 'Return USD floats instead of 6-decimal integer strings',
+        schema: { type: 'boolean' },
+      },
+      Detailed: {
+        name: 'detailed',
+        in: 'query',
+        description: 'Return source, timestamp, age and stale flag with every price',
+        schema: { type: 'boolean' },
+      },
+    },
+    responses: {},
+  },
+}
@@ -0,0 +1,2 @@
+export * from './document'
+export * from './validator'
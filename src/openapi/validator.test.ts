@@ -0,0 +1,109 @@
+import { invalidRequestBody, validateRequest, validateSchema } from 'openapi/validator'
+
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2'
+const WETH_CHECKSUMMED = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'
+
+describe('validateRequest', () => {
+  it('accepts a valid request', () => {
+    expect(
+      validateRequest('getChainPrices', {
+        path: { chainId: '1' },
+        query: new URLSearchParams('format=decimal&limit=10&vaultsOnly=yes'),
+      }),
+    ).toEqual([])
+  })
+
+  it('accepts addresses in any case, checksummed or not', () => {
+    for (const address of [WETH, WETH.toUpperCase().replace('0X', '0x'), WETH_CHECKSUMMED]) {
+      expect(validateRequest('quotePrice', { path: { chainId: '1', address } })).toEqual([])
+    }
+  })
+
+  it('rejects addresses that are not 20 bytes of hex', () => {
+    expect(validateRequest('quotePrice', { path: { chainId: '1', address: '0x1234' } })).toEqual([
+      { in: 'path', name: 'address', message: '"0x1234" is not a valid address' },
+    ])
+  })
+
+  it('rejects unsupported chains and non-integer values', () => {
+    expect(validateRequest('getChainPrices', { path: { chainId: '999999' } })).toEqual([
+      { in: 'path', name: 'chainId', message: expect.stringContaining('is not one of') },
+    ])
+    expect(validateRequest('getChainPrices', { path: { chainId: 'mainnet' } })).toEqual([
+      { in: 'path', name: 'chainId', message: 'expected integer, got "mainnet"' },
+    ])
+  })
+
+  it('reports missing required parameters', () => {
+    expect(validateRequest('getChainPrices', {})).toEqual([
+      { in: 'path', name: 'chainId', message: 'is required' },
+    ])
+  })
+
+  it('checks enums, bounds and patterns of query parameters', () => {
+    const issues = validateRequest('getChainPrices', {
+      path: { chainId: '1' },
+      query: new URLSearchParams('format=hex&limit=0&minPrice=1.1234567&vaultsOnly=maybe'),
+    })
+    expect(issues.map((issue) => issue.name).sort()).toEqual([
+      'format',
+      'limit',
+      'minPrice',
+      'vaultsOnly',
+    ])
+  })
+
+  it('validates every item of comma-separated lists', () => {
+    const issues = validateRequest('getTokenPrices', {
+      path: { list: `1:${WETH},999999:${WETH},1:0xnope` },
+    })
+    expect(issues).toEqual([
+      { in: 'path', name: 'list[1]', message: `"999999:${WETH}" is not a valid chain-address` },
+      { in: 'path', name: 'list[2]', message: '"1:0xnope" is not a valid chain-address' },
+    ])
+  })
+
+  it('validates JSON bodies, unknown properties included', () => {
+    expect(
+      validateRequest('queryPrices', { body: { tokens: [{ chainId: 1, address: WETH }] } }),
+    ).toEqual([])
+    expect(validateRequest('queryPrices', {})).toEqual([
+      { in: 'body', name: 'body', message: 'is required' },
+    ])
+    expect(
+      validateRequest('queryPrices', {
+        body: { tokens: [{ chainId: 1 }], extra: true },
+      }),
+    ).toEqual([
+      { in: 'body', name: 'body.tokens[0].address', message: 'is required' },
+      { in: 'body', name: 'body.extra', message: 'is not allowed' },
+    ])
+  })
+
+  it('throws for operations the document does not define', () => {
+    expect(() => validateRequest('deletePrices', {})).toThrow('Unknown OpenAPI operation')
+  })
+})
+
+describe('validateSchema', () => {
+  it('accepts null only for nullable schemas', () => {
+    expect(validateSchema(null, { type: 'string', nullable: true }, 'value')).toEqual([])
+    expect(validateSchema(null, { type: 'string' }, 'value')).toHaveLength(1)
+  })
+
+  it('matches any option of oneOf', () => {
+    const schema = { oneOf: [{ type: 'string' as const }, { type: 'integer' as const }] }
+    expect(validateSchema('a', schema, 'value')).toEqual([])
+    expect(validateSchema(1, schema, 'value')).toEqual([])
+    expect(validateSchema(true, schema, 'value')).toEqual([
+      { name: 'value', message: 'does not match any allowed shape' },
+    ])
+  })
+})
+
+describe('invalidRequestBody', () => {
+  it('wraps the issues in the shared 400 body', () => {
+    const details = [{ in: 'query' as const, name: 'limit', message: 'must be at least 1' }]
+    expect(invalidRequestBody(details)).toEqual({ error: 'Invalid request', details })
+  })
+})
@@ -0,0 +1,254 @@
+import { SUPPORTED_CHAINS } from 'models/index'
+import { isAddress } from 'viem'
+import { OpenApiOperation, OpenApiParameter, OpenApiSchema, openApiSpec } from './document'
+
+export type ValidationLocation = 'path' | 'query' | 'header' | 'body'
+
+export interface ValidationIssue {
+  in: ValidationLocation
+  name: string
+  message: string
+}
+
+export interface RequestInput {
+  path?: Record<string, string | undefined>
+  query?: URLSearchParams
+  headers?: Headers
+  body?: unknown
+}
+
+// Same spellings as stringToBool, plus their negations
+const TRUE_VALUES = ['true', '1', 'yes', 'on']
+const FALSE_VALUES = ['false', '0', 'no', 'off']
+
+const supportedChainIds = new Set<number>(Object.values(SUPPORTED_CHAINS).map((chain) => chain.id))
+
+const formats: Record<string, (value: string) => boolean> = {
+  // Any 20-byte hex address, in any case, as the routes accepted before validation
+  address: (value) => isAddress(value, { strict: false }),
+  'chain-address': (value) => {
+    const [chainId, address, ...rest] = value.split(':')
+    return (
+      rest.length === 0 &&
+      /^\d+$/.test(chainId || '') &&
+      supportedChainIds.has(Number(chainId)) &&
+      !!address &&
+      isAddress(address, { strict: false })
+    )
+  },
+}
+
+const operations = new Map<string, OpenApiOperation>()
+for (const pathItem of Object.values(openApiSpec.paths)) {
+  for (const operation of Object.values(pathItem)) {
+    operations.set(operation.operationId, operation)
+  }
+}
+
+const resolveRef = <T>(ref: string): T => {
+  const [, , section, name] = ref.split('/')
+  const resolved = (openApiSpec.components as any)[section as string]?.[name as string]
+  if (!resolved) throw new Error(`Unresolved OpenAPI reference ${ref}`)
+  return resolved as T
+}
+
+const resolveSchema = (schema: OpenApiSchema): OpenApiSchema =>
+  schema.$ref ? resolveSchema(resolveRef<OpenApiSchema>(schema.$ref)) : schema
+
+const resolveParameter = (parameter: OpenApiParameter): OpenApiParameter =>
+  parameter.$ref ? resolveRef<OpenApiParameter>(parameter.$ref) : parameter
+
+/**
+ * Convert a path or query string into the type its schema expects,
+ * leaving it untouched when it can't be converted so validation reports it
+ */
+const coerce = (raw: string, schema: OpenApiSchema): unknown => {
+  switch (schema.type) {
+    case 'integer':
+      return /^-?\d+$/.test(raw) ? Number(raw) : raw
+    case 'number':
+      return raw.trim() !== '' && !Number.isNaN(Number(raw)) ? Number(raw) : raw
+    case 'boolean':
+      if (TRUE_VALUES.includes(raw.toLowerCase())) return true
+      if (FALSE_VALUES.includes(raw.toLowerCase())) return false
+      return raw
+    case 'array': {
+      const items = schema.items ? resolveSchema(schema.items) : {}
+      return raw
+        .split(',')
+        .filter(Boolean)
+        .map((item) => coerce(item, items))
+    }
+    default:
+      return raw
+  }
+}
+
+const typeMatches = (value: unknown, type: OpenApiSchema['type']): boolean => {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value)
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    case 'array':
+      return Array.isArray(value)
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value)
+    case undefined:
+      return true
+    default:
+      return typeof value === type
+  }
+}
+
+const describe = (value: unknown): string =>
+  typeof value === 'string' ? `"${value}"` : JSON.stringify(value)
+
+/**
+ * Validate a value against a schema, returning messages keyed by JSON path
+ */
+export const validateSchema = (
+  value: unknown,
+  schemaOrRef: OpenApiSchema,
+  name: string,
+): Array<{ name: string; message: string }> => {
+  const schema = resolveSchema(schemaOrRef)
+
+  if (value === null && schema.nullable) return []
+
+  if (schema.oneOf) {
+    const matches = schema.oneOf.some((option) => validateSchema(value, option, name).length === 0)
+    return matches ? [] : [{ name, message: 'does not match any allowed shape' }]
+  }
+
+  if (!typeMatches(value, schema.type)) {
+    return [{ name, message: `expected ${schema.type}, got ${describe(value)}` }]
+  }
+
+  const issues: Array<{ name: string; message: string }> = []
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    issues.push({
+      name,
+      message: `${describe(value)} is not one of ${schema.enum.join(', ')}`,
+    })
+  }
+
+  if (typeof value === 'string') {
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ name, message: `${describe(value)} does not match ${schema.pattern}` })
+    }
+    const check = schema.format ? formats[schema.format] : undefined
+    if (check && !check(value)) {
+      issues.push({ name, message: `${describe(value)} is not a valid ${schema.format}` })
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ name, message: `must be at least ${schema.minimum}` })
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ name, message: `must be at most ${schema.maximum}` })
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ name, message: `must contain at least ${schema.minItems} items` })
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ name, message: `must contain at most ${schema.maxItems} items` })
+    }
+    if (schema.items) {
+      const items = schema.items
+      value.forEach((item, index) => {
+        issues.push(...validateSchema(item, items, `${name}[${index}]`))
+      })
+    }
+  }
+
+  if (schema.type === 'object' && typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>
+    const properties = schema.properties || {}
+
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) {
+        issues.push({ name: `${name}.${key}`, message: 'is required' })
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(record)) {
+      const property = properties[key]
+      const path = `${name}.${key}`
+      if (property) {
+        if (propertyValue === undefined) continue
+        issues.push(...validateSchema(propertyValue, property, path))
+      } else if (schema.additionalProperties === false) {
+        issues.push({ name: path, message: 'is not allowed' })
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(...validateSchema(propertyValue, schema.additionalProperties, path))
+      }
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Validate path params, query string and JSON body of a request against
+ * the OpenAPI operation, returning every issue found (empty when valid)
+ */
+export const validateRequest = (operationId: string, input: RequestInput): ValidationIssue[] => {
+  const operation = operations.get(operationId)
+  if (!operation) throw new Error(`Unknown OpenAPI operation ${operationId}`)
+
+  const issues: ValidationIssue[] = []
+
+  for (const parameter of (operation.parameters || []).map(resolveParameter)) {
+    if (!parameter.name || !parameter.schema) continue
+    const location = parameter.in || 'query'
+    const raw =
+      location === 'path'
+        ? input.path?.[parameter.name]
+        : location === 'header'
+          ? (input.headers?.get(parameter.name) ?? undefined)
+          : (input.query?.get(parameter.name) ?? undefined)
+
+    if (raw === undefined || raw === '') {
+      if (parameter.required) {
+        issues.push({ in: location, name: parameter.name, message: 'is required' })
+      }
+      continue
+    }
+
+    const schema = resolveSchema(parameter.schema)
+    for (const issue of validateSchema(coerce(raw, schema), schema, parameter.name)) {
+      issues.push({ in: location, ...issue })
+    }
+  }
+
+  const requestBody = operation.requestBody
+  const bodySchema = requestBody?.content['application/json']?.schema
+  if (bodySchema) {
+    if (input.body === undefined) {
+      if (requestBody?.required) {
+        issues.push({ in: 'body', name: 'body', message: 'is required' })
+      }
+    } else {
+      for (const issue of validateSchema(input.body, bodySchema, 'body')) {
+        issues.push({ in: 'body', ...issue })
+      }
+    }
+  }
+
+  return issues
+}
+
+/**
+ * The 400 body returned by every route for invalid input
+ */
+export const invalidRequestBody = (details: ValidationIssue[]) => ({
+  error: 'Invalid request',
+  details,
+})
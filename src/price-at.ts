@@ -0,0 +1,119 @@
+import dotenv from 'dotenv'
+import { PricingBlock, SUPPORTED_CHAINS } from 'models/index'
+import priceService from 'services/priceService'
+import { initializeStorage, StorageType } from 'storage/index'
+import { findBlockByTimestamp, formatPrice, getPricingBlock, logger } from 'utils/index'
+
+dotenv.config()
+
+// Value following a flag, e.g. `--block 19000000`
+const flagValue = (args: string[], ...flags: string[]): string | undefined => {
+  const index = args.findIndex((arg) => flags.includes(arg))
+  return index >= 0 ? args[index + 1] : undefined
+}
+
+// Accepts unix seconds or an ISO date
+const parseTimestamp = (value: string): number =>
+  /^\d+$/.test(value) ? parseInt(value, 10) : Math.floor(new Date(value).getTime() / 1000)
+
+async function priceAt() {
+  try {
+    const args = process.argv.slice(2)
+    const blockArg = flagValue(args, '--block', '-b')
+    const timestampArg = flagValue(args, '--timestamp', '-t')
+    const jsonFlag = args.includes('--json')
+
+    const positionalArgs = args.filter(
+      (arg, index) =>
+        !arg.startsWith('-') &&
+        !['--block', '-b', '--timestamp', '-t'].includes(args[index - 1] ?? ''),
+    )
+    const [chainIdArg, addressesArg] = positionalArgs
+
+    if (!chainIdArg || !addressesArg || (blockArg === undefined) === (timestampArg === undefined)) {
+      console.log('Usage: price-at <chainId> <address,...> (--block <number> | --timestamp <time>)')
+      console.log('Options:')
+      console.log('  --block, -b       Block to price at')
+      console.log(
+        '  --timestamp, -t   Unix seconds or ISO date, priced at the last block before it',
+      )
+      console.log('  --json            Print the prices as JSON')
+      console.log('')
+      console.log('Examples:')
+      console.log('  price-at 1 0xa258C4606Ca8206D8aA700cE2143D7db854D168c --block 19000000')
+      console.log('  price-at 10 0x...,0x... --timestamp 2024-01-01T00:00:00Z --json')
+      process.exit(1)
+    }
+
+    const chainId = parseInt(chainIdArg, 10)
+    const supportedChainIds = Object.values(SUPPORTED_CHAINS).map((chain) => chain.id)
+    if (!supportedChainIds.includes(chainId)) {
+      logger.error(
+        `Chain ${chainId} is not supported. Supported chains: ${supportedChainIds.join(', ')}`,
+      )
+      process.exit(1)
+    }
+
+    // Only the token registry is read, nothing is stored
+    const cacheTTL = parseInt(process.env.CACHE_TTL_SECONDS || '0', 10)
+    const storageType = (process.env.STORAGE_TYPE || 'file') as StorageType
+    initializeStorage(storageType, cacheTTL, './data/prices')
+
+    let block: PricingBlock
+    if (blockArg !== undefined) {
+      block = await getPricingBlock(chainId, BigInt(blockArg))
+    } else {
+      const timestamp = parseTimestamp(timestampArg as string)
+      if (Number.isNaN(timestamp)) {
+        logger.error(`Invalid timestamp '${timestampArg}'`)
+        process.exit(1)
+      }
+      block = await findBlockByTimestamp(chainId, timestamp)
+    }
+
+    logger.info(
+      `Pricing at block ${block.number} (${new Date(block.timestamp * 1000).toISOString()}) on chain ${chainId}`,
+    )
+
+    const addresses = addressesArg.split(',').map((address) => address.trim().toLowerCase())
+    const results = []
+    for (const address of addresses) {
+      const quote = await priceService.priceTokenAt(chainId, address, block)
+      if (!quote) {
+        logger.warn(`${address} is not an ERC20 token on chain ${chainId}`)
+      } else if (!quote.price) {
+        logger.warn(`No price found for ${quote.token?.symbol ?? address} (${address})`)
+      }
+      results.push({
+        address,
+        symbol: quote?.token?.symbol ?? null,
+        price: quote?.price ? formatPrice(quote.price.price, 'decimal') : null,
+        source: quote?.price?.source ?? null,
+        derivation: quote?.price?.derivation ?? null,
+      })
+    }
+
+    if (jsonFlag) {
+      console.log(
+        JSON.stringify(
+          { chainId, block: block.number.toString(), timestamp: block.timestamp, prices: results },
+          null,
+          2,
+        ),
+      )
+    } else {
+      results.forEach((result) => {
+        console.log(
+          `${result.address}  ${(result.symbol ?? '?').padEnd(12)}  ${result.price ?? 'n/a'}  ${result.source ?? ''}`,
+        )
+      })
+    }
+
+    process.exit(0)
+  } catch (error) {
+    logger.error('Failed to price at block:', error)
+    process.exit(1)
+  }
+}
+
+priceAt()
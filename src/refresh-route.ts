@@ -76,7 +76,7 @@ async function refreshRoute() {
     }
 
     logger.info(
-      `💾 Prices have been saved to ${storageType === 'redis' ? 'Redis' : 'data/prices/'}`,
+      `💾 Prices have been saved to ${storageType === 'file' ? 'data/prices/' : storageType === 'sqlite' ? 'SQLite' : 'Redis'}`,
     )
 
     // Export results if requested
@@ -27,7 +27,7 @@ async function refresh() {
     }
 
     logger.info(
-      `💾 Prices have been saved to ${storageType === 'redis' ? 'Redis' : 'data/prices/'}`,
+      `💾 Prices have been saved to ${storageType === 'file' ? 'data/prices/' : storageType === 'sqlite' ? 'SQLite' : 'Redis'}`,
     )
     process.exit(0)
   } catch (error) {
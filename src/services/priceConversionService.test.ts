@@ -0,0 +1,195 @@
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import axios from 'axios'
+import { StoredPrice, WETH_ADDRESSES } from 'models/index'
+import { PriceConversionService } from 'services/priceConversionService'
+import { getStorage, initializeStorage, StorageWrapper } from 'storage/index'
+import { formatPrice } from 'utils/priceResponse'
+
+const WETH = WETH_ADDRESSES[1] as string
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'
+const VAULT = '0xbe53a109b494e5c9f97b9cd39fe969be68bf6204'
+const SHIB = '0x95ad61b0a150d79219dcf64e1e6cc01f0b64c4ce'
+
+const stored = (address: string, price: bigint): StoredPrice => ({
+  address,
+  price,
+  source: 'test',
+  timestamp: Date.now(),
+})
+
+let dataDir: string
+let storage: StorageWrapper
+const service = new PriceConversionService()
+
+beforeAll(async () => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'yprice-conversion-'))
+  initializeStorage('file', 0, dataDir)
+  storage = new StorageWrapper(getStorage())
+  await storage.storePrices(1, [
+    stored(WETH, 3_000_000_000n),
+    stored(USDC, 1_000_000n),
+    stored(VAULT, 1_050_000n),
+    // $0.00001
+    stored(SHIB, 10n),
+  ])
+  await storage.storeTokenRegistry(1, [
+    {
+      address: VAULT,
+      chainId: 1,
+      name: 'USDC yVault',
+      symbol: 'yvUSDC',
+      decimals: 6,
+      underlying: USDC,
+    },
+  ])
+})
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true })
+})
+
+const prices = (...entries: StoredPrice[]) =>
+  new Map(entries.map((entry) => [entry.address, entry]))
+
+describe('resolveQuote', () => {
+  it('resolves usd, underlying and token aliases of the chain', async () => {
+    expect(await service.resolveQuote(1, null)).toEqual({ kind: 'usd' })
+    expect(await service.resolveQuote(1, 'UNDERLYING')).toEqual({ kind: 'underlying' })
+    expect(await service.resolveQuote(1, 'eth')).toEqual({
+      kind: 'token',
+      address: WETH,
+      price: 3_000_000_000n,
+    })
+    expect(await service.resolveQuote(1, USDC)).toMatchObject({ kind: 'token', price: 1_000_000n })
+  })
+
+  it('is undefined for tokens without a price and unknown currencies', async () => {
+    expect(await service.resolveQuote(1, '0x0000000000000000000000000000000000000001')).toBe(
+      undefined,
+    )
+    // No WBTC stored
+    expect(await service.resolveQuote(1, 'btc')).toBeUndefined()
+    expect(await service.resolveQuote(1, 'xyz')).toBeUndefined()
+  })
+})
+
+describe('fiat rates', () => {
+  const FX_URL = process.env.FX_RATES_URL
+
+  beforeAll(() => {
+    process.env.FX_RATES_URL = 'https://fx.example/rates'
+  })
+
+  afterAll(() => {
+    if (FX_URL === undefined) delete process.env.FX_RATES_URL
+    else process.env.FX_RATES_URL = FX_URL
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('caches fetched rates', async () => {
+    const get = jest.spyOn(axios, 'get').mockResolvedValue({ data: { rates: { eur: 0.9 } } })
+    const fiat = new PriceConversionService()
+
+    expect(await fiat.resolveQuote(1, 'eur')).toEqual({ kind: 'fiat', currency: 'EUR', rate: 0.9 })
+    await fiat.resolveQuote(1, 'EUR')
+    expect(get).toHaveBeenCalledTimes(1)
+  })
+
+  it('retries a failed fetch shortly instead of caching the failure', async () => {
+    const get = jest
+      .spyOn(axios, 'get')
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockResolvedValue({ data: { EUR: 0.9 } })
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000)
+    const fiat = new PriceConversionService()
+
+    expect(await fiat.resolveQuote(1, 'eur')).toBeUndefined()
+    // Within the backoff the source is left alone
+    expect(await fiat.resolveQuote(1, 'eur')).toBeUndefined()
+    expect(get).toHaveBeenCalledTimes(1)
+
+    now.mockReturnValue(1_700_000_030_000)
+    expect(await fiat.resolveQuote(1, 'eur')).toMatchObject({ kind: 'fiat', rate: 0.9 })
+    expect(get).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('convertPrices', () => {
+  it('returns USD prices untouched', async () => {
+    const usd = prices(stored(USDC, 1_000_000n))
+    expect(await service.convertPrices(1, usd, { kind: 'usd' })).toBe(usd)
+  })
+
+  it('quotes in a token with 18 decimals so cheap tokens keep their value', async () => {
+    const converted = await service.convertPrices(
+      1,
+      prices(stored(USDC, 1_000_000n), stored(SHIB, 10n)),
+      {
+        kind: 'token',
+        address: WETH,
+        price: 3_000_000_000n,
+      },
+    )
+
+    const usdc = converted.get(USDC)
+    expect(usdc?.priceDecimals).toBe(18)
+    expect(usdc?.price).toBe(333_333_333_333_333n)
+    expect(formatPrice(usdc?.price as bigint, 'decimal', 18)).toBe('0.000333333333333333')
+
+    // Below 6 decimals of ETH, which used to round to 0
+    const shib = converted.get(SHIB)
+    expect(shib?.price).toBe(3_333_333_333n)
+    expect(formatPrice(shib?.price as bigint, 'both', 18)).toEqual({
+      raw: '0',
+      decimal: '0.000000003333333333',
+    })
+  })
+
+  it('applies fiat rates without rounding them to 6 decimals', async () => {
+    const converted = await service.convertPrices(1, prices(stored(USDC, 2_000_000n)), {
+      kind: 'fiat',
+      currency: 'EUR',
+      rate: 0.923456789,
+    })
+    expect(formatPrice(converted.get(USDC)?.price as bigint, 'decimal', 18)).toBe('1.846913578')
+  })
+
+  it('quotes vaults in their underlying and drops tokens without one', async () => {
+    const converted = await service.convertPrices(
+      1,
+      prices(stored(VAULT, 1_050_000n), stored(WETH, 3_000_000_000n)),
+      { kind: 'underlying' },
+    )
+    expect(Array.from(converted.keys())).toEqual([VAULT])
+    expect(formatPrice(converted.get(VAULT)?.price as bigint, 'decimal', 18)).toBe('1.05')
+  })
+})
+
+describe('quoteVariant', () => {
+  it('keeps plain quotes as they are', async () => {
+    expect(await service.quoteVariant(null, [1])).toBe('usd')
+    expect(await service.quoteVariant('ETH', [1])).toBe('eth')
+  })
+
+  it('changes the underlying variant with the registry', async () => {
+    const before = await service.quoteVariant('underlying', [1])
+    expect(await service.quoteVariant('underlying', [1])).toBe(before)
+
+    await storage.storeTokenRegistry(1, [
+      {
+        address: VAULT,
+        chainId: 1,
+        name: 'USDC yVault',
+        symbol: 'yvUSDC',
+        decimals: 6,
+        underlying: WETH,
+      },
+    ])
+    expect(await service.quoteVariant('underlying', [1])).not.toBe(before)
+  })
+})
@@ -0,0 +1,173 @@
+import { createHash } from 'node:crypto'
+import axios from 'axios'
+import { QuoteCurrency, StoredPrice, WBTC_ADDRESSES, WETH_ADDRESSES } from 'models/index'
+import { getStorage, StorageWrapper } from 'storage/index'
+import { logger, PRICE_DECIMALS } from 'utils/index'
+
+// Converted prices keep this many decimals, so quotes in valuable tokens do not round to 0
+const QUOTE_DECIMALS = 18
+const QUOTE_SCALE = 10n ** BigInt(QUOTE_DECIMALS)
+// Fiat rates are floats, scaled so that price * rate has QUOTE_DECIMALS
+const RATE_SCALE = 10 ** (QUOTE_DECIMALS - PRICE_DECIMALS)
+
+// Quote currencies that name a well known token, resolved per chain
+const QUOTE_TOKEN_ALIASES: Record<string, Record<number, string>> = {
+  eth: WETH_ADDRESSES,
+  weth: WETH_ADDRESSES,
+  btc: WBTC_ADDRESSES,
+  wbtc: WBTC_ADDRESSES,
+}
+
+const ADDRESS_PATTERN = /^0x[0-9a-f]{40}$/
+
+// A failed rates fetch is retried after this long instead of FX_CACHE_SECONDS
+const FX_RETRY_MS = 30_000
+
+/**
+ * Expresses stored USD prices in another token of the same chain or in a fiat currency.
+ * Fiat rates come from `FX_RATES_URL`, a JSON document of units per USD either at the top level
+ * or under `rates` (e.g. `{ "rates": { "EUR": 0.92 } }`).
+ */
+export class PriceConversionService {
+  private readonly fxUrl = process.env.FX_RATES_URL
+  private readonly fxCacheMs = parseInt(process.env.FX_CACHE_SECONDS || '3600', 10) * 1000
+  private fxRates: Record<string, number> = {}
+  private fxFetchedAt = 0
+  private fxRetryAt = 0
+
+  /**
+   * Undefined when the quote names nothing priced on the chain
+   */
+  async resolveQuote(chainId: number, quote: string | null): Promise<QuoteCurrency | undefined> {
+    const normalized = (quote || 'usd').toLowerCase()
+    if (normalized === 'usd') return { kind: 'usd' }
+    if (normalized === 'underlying') return { kind: 'underlying' }
+
+    const address = ADDRESS_PATTERN.test(normalized)
+      ? normalized
+      : QUOTE_TOKEN_ALIASES[normalized]?.[chainId]
+    if (address) {
+      const storage = new StorageWrapper(getStorage())
+      const stored = await storage.getPrice(chainId, address)
+      return stored && stored.price > 0n
+        ? { kind: 'token', address, price: stored.price }
+        : undefined
+    }
+    if (QUOTE_TOKEN_ALIASES[normalized]) return undefined
+
+    const rate = (await this.getFxRates())[normalized.toUpperCase()]
+    return rate ? { kind: 'fiat', currency: normalized.toUpperCase(), rate } : undefined
+  }
+
+  /**
+   * Cache key of a quote on the chains of a response. Fiat quotes carry their rate and underlying
+   * quotes the version of the registry's underlying tokens, both change without the prices.
+   */
+  async quoteVariant(quote: string | null, chainIds: number[]): Promise<string> {
+    const normalized = (quote || 'usd').toLowerCase()
+    if (normalized === 'underlying') {
+      return `${normalized}@${await this.underlyingVersion(chainIds)}`
+    }
+    const rate =
+      /^[a-z]{3}$/.test(normalized) && !QUOTE_TOKEN_ALIASES[normalized]
+        ? (await this.getFxRates())[normalized.toUpperCase()]
+        : undefined
+    return rate ? `${normalized}@${rate}` : normalized
+  }
+
+  // Content hash of which token has which underlying on the chains
+  private async underlyingVersion(chainIds: number[]): Promise<string> {
+    const storage = new StorageWrapper(getStorage())
+    const lines: string[] = []
+    for (const chainId of chainIds) {
+      for (const token of await storage.getTokenRegistry(chainId)) {
+        if (token.underlying) {
+          lines.push(`${chainId}:${token.address.toLowerCase()}:${token.underlying.toLowerCase()}`)
+        }
+      }
+    }
+    return createHash('sha1').update(lines.sort().join('\n')).digest('hex').slice(0, 16)
+  }
+
+  /**
+   * Convert prices of one chain, dropping those that cannot be expressed in the quote. Converted
+   * prices have QUOTE_DECIMALS, set as their priceDecimals.
+   */
+  async convertPrices(
+    chainId: number,
+    prices: Map<string, StoredPrice>,
+    quote: QuoteCurrency,
+  ): Promise<Map<string, StoredPrice>> {
+    switch (quote.kind) {
+      case 'usd':
+        return prices
+      case 'token':
+        return this.mapPrices(prices, (price) => (price * QUOTE_SCALE) / quote.price)
+      case 'fiat': {
+        const rate = BigInt(Math.round(quote.rate * RATE_SCALE))
+        return this.mapPrices(prices, (price) => price * rate)
+      }
+      case 'underlying': {
+        const storage = new StorageWrapper(getStorage())
+        const underlyings = new Map(
+          (await storage.getTokenRegistry(chainId))
+            .filter((token) => token.underlying && prices.has(token.address.toLowerCase()))
+            .map((token) => [token.address.toLowerCase(), token.underlying!.toLowerCase()]),
+        )
+        const underlyingPrices = await storage.getPrices(
+          chainId,
+          Array.from(new Set(underlyings.values())),
+        )
+        return this.mapPrices(prices, (price, address) => {
+          const underlying = underlyings.get(address)
+          const underlyingPrice = underlying ? underlyingPrices.get(underlying)?.price : undefined
+          return underlyingPrice ? (price * QUOTE_SCALE) / underlyingPrice : undefined
+        })
+      }
+    }
+  }
+
+  private mapPrices(
+    prices: Map<string, StoredPrice>,
+    convert: (price: bigint, address: string) => bigint | undefined,
+  ): Map<string, StoredPrice> {
+    const converted = new Map<string, StoredPrice>()
+    prices.forEach((stored, address) => {
+      const price = convert(stored.price, address.toLowerCase())
+      if (price !== undefined) {
+        converted.set(address, { ...stored, price, priceDecimals: QUOTE_DECIMALS })
+      }
+    })
+    return converted
+  }
+
+  private async getFxRates(): Promise<Record<string, number>> {
+    const now = Date.now()
+    if (!this.fxUrl || now - this.fxFetchedAt < this.fxCacheMs || now < this.fxRetryAt) {
+      return this.fxRates
+    }
+
+    try {
+      const { data } = await axios.get(this.fxUrl, { timeout: 10000 })
+      const rates = data?.rates ?? data
+      this.fxRates = Object.fromEntries(
+        Object.entries(rates ?? {})
+          .filter(([, rate]) => typeof rate === 'number' && rate > 0)
+          .map(([currency, rate]) => [currency.toUpperCase(), rate as number]),
+      )
+      this.fxFetchedAt = Date.now()
+    } catch (error) {
+      // Keep serving the last rates, the source is asked again shortly
+      this.fxRetryAt = Date.now() + FX_RETRY_MS
+      logger.warn(
+        `Failed to fetch FX rates: ${error instanceof Error ? error.message : 'Unknown'}`.substring(
+          0,
+          100,
+        ),
+      )
+    }
+    return this.fxRates
+  }
+}
+
+export default new PriceConversionService()
@@ -1,15 +1,24 @@
+import { isRequestActive, REQUESTED_TOKENS_MAX, readTokenInfo } from 'discovery/requestedDiscovery'
 import tokenDiscoveryService from 'discovery/tokenDiscoveryService'
 import { PriceFetcherOrchestrator } from 'fetchers/index'
 import { chunk } from 'lodash'
-import { ERC20Token, Price, WETH_ADDRESSES } from 'models/index'
+import {
+  CoverageReport,
+  ERC20Token,
+  Price,
+  PricingBlock,
+  StoredPrice,
+  WETH_ADDRESSES,
+} from 'models/index'
 import { getStorage, StorageWrapper } from 'storage/index'
 import { betterLogger } from 'utils/betterLogger'
-import { logger } from 'utils/index'
+import { CoverageTracker, logger, refreshDuration, refreshLastSuccess } from 'utils/index'
 import { zeroAddress } from 'viem'
 
 export class PriceService {
   private fetcher = new PriceFetcherOrchestrator()
   private fetchInterval: NodeJS.Timeout | null = null
+  private activeFetch: Promise<void> | null = null
 
   // Utility method for controlled concurrent processing
   private async processBatchesConcurrently<T, R>(
@@ -37,48 +46,278 @@ export class PriceService {
     return results
   }
 
-  async fetchAndStorePrices(
+  // Carry discovered symbols into storage so exports can name the tokens
+  private withSymbols(prices: Price[], tokens: ERC20Token[]): Price[] {
+    const symbols = new Map(tokens.map((token) => [token.address.toLowerCase(), token.symbol]))
+    return prices.map((price) => {
+      const symbol = price.symbol ?? symbols.get(price.address.toLowerCase())
+      return symbol ? { ...price, symbol } : price
+    })
+  }
+
+  // Prices with the native token priced as WETH and discovered symbols carried over, not stored.
+  // Refresh runs pass their `coverage` tracker to learn which tokens stayed unpriced.
+  private async fetchTokenPrices(
     chainId: number,
     tokens: ERC20Token[],
     existingPrices?: Map<string, Price>,
+    coverage?: CoverageTracker,
   ): Promise<Map<string, Price>> {
-    try {
-      const tokensWithNative = [...tokens]
-      const wethAddress = WETH_ADDRESSES[chainId]
+    const tokensWithNative = [...tokens]
+    const wethAddress = WETH_ADDRESSES[chainId]
+
+    if (wethAddress && !tokensWithNative.some((t) => t.address.toLowerCase() === wethAddress)) {
+      tokensWithNative.push({
+        address: wethAddress,
+        name: 'Wrapped Ether',
+        symbol: 'WETH',
+        decimals: 18,
+        chainId,
+      })
+    }
 
-      if (wethAddress && !tokensWithNative.some((t) => t.address.toLowerCase() === wethAddress)) {
-        tokensWithNative.push({
-          address: wethAddress,
-          name: 'Wrapped Ether',
-          symbol: 'WETH',
-          decimals: 18,
-          chainId,
+    const prices = await this.fetcher.fetchPrices(
+      chainId,
+      tokensWithNative,
+      existingPrices,
+      coverage,
+    )
+
+    if (wethAddress) {
+      const wethPrice = prices.get(wethAddress)
+      if (wethPrice) {
+        prices.set(zeroAddress, {
+          ...wethPrice,
+          address: zeroAddress,
         })
       }
+    }
+
+    const withSymbols = this.withSymbols(Array.from(prices.values()), tokensWithNative)
+    return new Map(
+      Array.from(prices.entries(), ([address, price], index) => [
+        address,
+        withSymbols[index] ?? price,
+      ]),
+    )
+  }
+
+  async fetchAndStorePrices(
+    chainId: number,
+    tokens: ERC20Token[],
+    existingPrices?: Map<string, Price>,
+  ): Promise<Map<string, Price>> {
+    try {
+      const prices = await this.fetchTokenPrices(chainId, tokens, existingPrices)
+      if (prices.size > 0) {
+        const storage = new StorageWrapper(getStorage())
+        await storage.storePrices(chainId, Array.from(prices.values()))
+      }
+      return prices
+    } catch (error) {
+      logger.error(`Error fetching prices for chain ${chainId}:`, error)
+      return new Map()
+    }
+  }
 
-      const prices = await this.fetcher.fetchPrices(chainId, tokensWithNative, existingPrices)
+  /**
+   * Serves the prices of a complete chain refresh as a new snapshot. Returns the chain's price
+   * count, or undefined when nothing was published.
+   */
+  private async publishRefresh(
+    chainId: number,
+    prices: Map<string, Price>,
+  ): Promise<number | undefined> {
+    if (prices.size === 0) return undefined
+    try {
       const storage = new StorageWrapper(getStorage())
+      const snapshot = await storage.publishSnapshot(chainId, Array.from(prices.values()))
+      return snapshot.priceCount
+    } catch (error) {
+      logger.error(`Failed to publish the prices of chain ${chainId}:`, error)
+      return undefined
+    }
+  }
 
-      if (wethAddress) {
-        const wethPrice = prices.get(wethAddress)
-        if (wethPrice) {
-          prices.set(zeroAddress, {
-            ...wethPrice,
-            address: zeroAddress,
+  /**
+   * Persist which discovered tokens are still unpriced after a full run over `tokens`, with
+   * the fetchers that were tried on them as recorded in the run's `coverage`
+   */
+  private async storeCoverageReport(
+    chainId: number,
+    tokens: ERC20Token[],
+    coverage: CoverageTracker,
+  ): Promise<void> {
+    try {
+      const storage = new StorageWrapper(getStorage())
+      const { asMap } = await storage.listPrices(chainId)
+      const attempts = coverage.take(chainId)
+      // Prices from earlier runs may still be stored, so attempts decide what this run missed
+      const missing = tokens.filter((token) => {
+        const address = token.address.toLowerCase()
+        return attempts.has(address) || !asMap.has(address)
+      })
+
+      const report: CoverageReport = {
+        chainId,
+        generatedAt: Date.now(),
+        discovered: tokens.length,
+        priced: tokens.length - missing.length,
+        missing: missing.map((token) => ({
+          address: token.address.toLowerCase(),
+          symbol: token.symbol,
+          name: token.name,
+          sources: token.sources ?? (token.source ? [token.source] : []),
+          attemptedFetchers: attempts.get(token.address.toLowerCase()) ?? [],
+        })),
+      }
+      await storage.storeCoverageReport(chainId, report)
+    } catch (error) {
+      logger.warn(`Failed to store coverage report for chain ${chainId}:`, error)
+    }
+  }
+
+  /**
+   * Price a single token. With `onDemand`, tokens that are not stored yet are read on chain,
+   * priced with all fetchers and remembered, up to REQUESTED_TOKENS_MAX per chain, so later
+   * refreshes keep them priced. Returns undefined when the address is not an ERC20, and no price
+   * when no fetcher could price it.
+   */
+  async quoteToken(
+    chainId: number,
+    address: string,
+    onDemand: boolean = false,
+  ): Promise<{ token?: ERC20Token; price?: StoredPrice } | undefined> {
+    const storage = new StorageWrapper(getStorage())
+    const stored = await storage.getPrice(chainId, address)
+    if (stored || !onDemand) return { price: stored }
+
+    const info = await readTokenInfo(chainId, address)
+    if (!info) return undefined
+
+    const { underlying } = info
+    const token: ERC20Token = {
+      ...info,
+      symbol: info.symbol || 'UNKNOWN',
+      name: info.name || 'Unknown Token',
+      decimals: info.decimals ?? 18,
+    }
+    const tokens = [token]
+
+    // Vault fetchers price shares from the underlying, fetched alongside when not stored
+    const existingPrices = new Map<string, Price>()
+    if (underlying) {
+      const underlyingPrice = await storage.getPrice(chainId, underlying)
+      if (underlyingPrice) {
+        existingPrices.set(underlying, underlyingPrice)
+      } else {
+        const underlyingInfo = await readTokenInfo(chainId, underlying)
+        if (underlyingInfo) {
+          tokens.push({
+            address: underlyingInfo.address,
+            symbol: underlyingInfo.symbol || 'UNKNOWN',
+            name: underlyingInfo.name || 'Unknown Token',
+            decimals: underlyingInfo.decimals ?? 18,
+            chainId,
+            source: 'requested-underlying',
           })
         }
       }
+    }
+
+    const prices = await this.fetchAndStorePrices(chainId, tokens, existingPrices)
+    if (!prices.has(token.address)) {
+      logger.debug(`No price found on demand for ${token.address} on chain ${chainId}`)
+      return { token }
+    }
+
+    const requested = (await storage.getRequestedTokens(chainId)).filter((t) => isRequestActive(t))
+    if (
+      requested.length < REQUESTED_TOKENS_MAX ||
+      requested.some((t) => t.address === token.address)
+    ) {
+      await storage.addRequestedToken(chainId, { ...token, requestedAt: Date.now() })
+      logger.info(`Priced requested token ${token.symbol} (${token.address}) on chain ${chainId}`)
+    } else {
+      logger.warn(
+        `Chain ${chainId} already has ${REQUESTED_TOKENS_MAX} requested tokens, ${token.address} is not remembered`,
+      )
+    }
 
-      const pricesArray = Array.from(prices.values())
-      if (pricesArray.length > 0) {
-        await storage.storePrices(chainId, pricesArray)
+    return { token, price: await storage.getPrice(chainId, token.address) }
+  }
+
+  /**
+   * Price a token as of a past block, along with its underlying when it is a vault. Nothing is
+   * stored; the price carries the block's time as its timestamp. Returns undefined when the
+   * address is not an ERC20, and no price when no fetcher could price it at that block.
+   */
+  async priceTokenAt(
+    chainId: number,
+    address: string,
+    block: PricingBlock,
+  ): Promise<{ token?: ERC20Token; price?: StoredPrice } | undefined> {
+    const storage = new StorageWrapper(getStorage())
+
+    // Metadata is read on chain at the block so the underlying is the one of that time;
+    // discovered tokens keep the source fetchers select on
+    const resolveToken = async (tokenAddress: string): Promise<ERC20Token | undefined> => {
+      const info = await readTokenInfo(chainId, tokenAddress, block.number)
+      if (!info) return undefined
+      const registered = await storage.getRegistryToken(chainId, tokenAddress)
+      return {
+        ...info,
+        symbol: info.symbol || 'UNKNOWN',
+        name: info.name || 'Unknown Token',
+        decimals: info.decimals ?? 18,
+        ...registered,
+        isVault: registered?.isVault || info.isVault,
+        underlying: registered?.underlying ?? info.underlying,
       }
+    }
 
-      return prices
-    } catch (error) {
-      logger.error(`Error fetching prices for chain ${chainId}:`, error)
-      return new Map()
+    const token = await resolveToken(address)
+    if (!token) return undefined
+
+    const tokens = [token]
+    const underlying = token.underlying && (await resolveToken(token.underlying))
+    if (underlying) tokens.push(underlying)
+
+    const prices = await this.fetcher.fetchPricesAt(chainId, tokens, block)
+    const price = prices.get(token.address.toLowerCase())
+    if (!price) {
+      logger.debug(
+        `No price found for ${token.address} on chain ${chainId} at block ${block.number}`,
+      )
+      return { token }
     }
+
+    return {
+      token,
+      price: { ...price, symbol: price.symbol ?? token.symbol, timestamp: block.timestamp * 1000 },
+    }
+  }
+
+  /**
+   * Follow the stored derivations of a price down to the base price it was built on. The first
+   * entry is the requested token, empty when it has no stored price.
+   */
+  async explainPrice(chainId: number, address: string): Promise<StoredPrice[]> {
+    const storage = new StorageWrapper(getStorage())
+    const steps: StoredPrice[] = []
+    const seen = new Set<string>()
+
+    let next: string | undefined = address.toLowerCase()
+    // A vault listing itself as underlying must not loop forever
+    while (next && !seen.has(next)) {
+      seen.add(next)
+      const stored = await storage.getPrice(chainId, next)
+      if (!stored) break
+      steps.push(stored)
+      next = stored.derivation?.underlying?.toLowerCase()
+    }
+
+    return steps
   }
 
   async fetchDiscoveredTokens(forceRefresh: boolean = false): Promise<void> {
@@ -113,6 +352,7 @@ export class PriceService {
 
           const chainStartTime = Date.now()
           logger.debug(`Chain ${chainId}: Processing ${tokens.length} tokens...`)
+          const coverage = new CoverageTracker()
 
           // Helper to determine if a token is a derivative
           const isDerivative = (token: ERC20Token): boolean => {
@@ -144,6 +384,8 @@ export class PriceService {
 
           // Accumulator for all base token prices
           const accumulatedPrices = new Map<string, Price>()
+          // Every price of this run, published at once when the chain completes
+          const refreshed = new Map<string, Price>()
 
           // Process base token batches
           if (baseBatches.length > 0) {
@@ -154,10 +396,16 @@ export class PriceService {
               maxConcurrentBatches,
               async (batch) => {
                 try {
-                  const batchPrices = await this.fetchAndStorePrices(chainId, batch)
+                  const batchPrices = await this.fetchTokenPrices(
+                    chainId,
+                    batch,
+                    undefined,
+                    coverage,
+                  )
                   // Accumulate prices
                   batchPrices.forEach((price, address) => {
                     accumulatedPrices.set(address, price)
+                    refreshed.set(address, price)
                   })
                   return { success: true }
                 } catch (error) {
@@ -183,7 +431,15 @@ export class PriceService {
               async (batch) => {
                 try {
                   // Pass accumulated prices to derivative processing
-                  await this.fetchAndStorePrices(chainId, batch, accumulatedPrices)
+                  const batchPrices = await this.fetchTokenPrices(
+                    chainId,
+                    batch,
+                    accumulatedPrices,
+                    coverage,
+                  )
+                  batchPrices.forEach((price, address) => {
+                    refreshed.set(address, price)
+                  })
                   return { success: true }
                 } catch (error) {
                   errors++
@@ -194,13 +450,19 @@ export class PriceService {
             )
           }
 
-          // Get final price count after all batches complete
-          const storage = new StorageWrapper(getStorage())
-          const { asSlice } = await storage.listPrices(chainId)
-          const pricesFound = asSlice.length
+          // Readers see the chain's previous prices until the whole run is published
+          let pricesFound = await this.publishRefresh(chainId, refreshed)
+          if (pricesFound === undefined) {
+            const storage = new StorageWrapper(getStorage())
+            const { asSlice } = await storage.listPrices(chainId)
+            pricesFound = asSlice.length
+          }
+          await this.storeCoverageReport(chainId, tokens, coverage)
 
           const chainDuration = Date.now() - chainStartTime
           betterLogger.chainComplete(chainId, tokens.length, pricesFound, chainDuration)
+          refreshDuration.observe({ chain: chainId }, chainDuration / 1000)
+          refreshLastSuccess.set({ chain: chainId }, Math.floor(Date.now() / 1000))
 
           return { chainId, tokens: tokens.length, prices: pricesFound, errors }
         }),
@@ -232,24 +494,40 @@ export class PriceService {
   startPeriodicFetch(intervalMs: number = 60000): void {
     logger.info(`🚀 Starting price service (interval: ${intervalMs / 1000}s)`)
 
-    this.fetchDiscoveredTokens(true).catch((error) => {
-      logger.error('Error in initial price fetch:', error)
-    })
+    this.runPeriodicFetch(true, 'initial')
 
     this.fetchInterval = setInterval(() => {
       const shouldRediscover = Date.now() % 3600000 < intervalMs
-      this.fetchDiscoveredTokens(shouldRediscover).catch((error) => {
-        logger.error('Error in periodic price fetch:', error)
-      })
+      this.runPeriodicFetch(shouldRediscover, 'periodic')
     }, intervalMs)
   }
 
-  stopPeriodicFetch(): void {
+  // Runs never overlap, a refresh slower than the interval skips the next tick instead
+  private runPeriodicFetch(forceRefresh: boolean, label: string): void {
+    if (this.activeFetch) {
+      logger.warn(`Skipping ${label} price fetch, the previous one is still running`)
+      return
+    }
+
+    this.activeFetch = this.fetchDiscoveredTokens(forceRefresh)
+      .catch((error) => {
+        logger.error(`Error in ${label} price fetch:`, error)
+      })
+      .finally(() => {
+        this.activeFetch = null
+      })
+  }
+
+  /**
+   * Resolves once the refresh in progress, if any, has finished storing its prices
+   */
+  stopPeriodicFetch(): Promise<void> {
     if (this.fetchInterval) {
       clearInterval(this.fetchInterval)
       this.fetchInterval = null
       logger.info('⏹️ Stopped periodic price fetching')
     }
+    return this.activeFetch ?? Promise.resolve()
   }
 
   setVerboseLogging(verbose: boolean): void {
@@ -274,15 +552,18 @@ export class PriceService {
       const tokensByChain = await tokenDiscoveryService.discoverAllTokens(false)
       const tokens = tokensByChain.get(chainId)
 
-      if (!tokens || tokens.length === 0) {
-        logger.warn(`No tokens found for chain ${chainId}`)
-        return
-      }
+      // Discovery failures surface as an empty list, refresh jobs must report them as failed
+      if (!tokens || tokens.length === 0) throw new Error(`No tokens found for chain ${chainId}`)
 
       logger.info(`📈 Processing ${tokens.length} tokens for chain ${chainId}`)
 
-      // Use the existing fetchAndStorePrices method
-      const prices = await this.fetchAndStorePrices(chainId, tokens)
+      const coverage = new CoverageTracker()
+      const prices = await this.fetchTokenPrices(chainId, tokens, undefined, coverage)
+      if (prices.size === 0) throw new Error(`No prices found for chain ${chainId}`)
+      // Unlike the full refresh, a failed publish fails the run, refresh jobs report it
+      const storage = new StorageWrapper(getStorage())
+      await storage.publishSnapshot(chainId, Array.from(prices.values()))
+      await this.storeCoverageReport(chainId, tokens, coverage)
 
       logger.info(`✅ Chain ${chainId}: Found prices for ${prices.size} tokens`)
     } catch (error) {
@@ -304,18 +585,19 @@ export class PriceService {
       const tokens = tokensByChain.get(chainId)
 
       if (!tokens || tokens.length === 0) {
-        logger.warn(
-          `No tokens found for chain ${chainId} with discovery service ${discoveryService}`,
-        )
-        return
+        throw new Error(`No tokens found for chain ${chainId} with ${discoveryService}`)
       }
 
       logger.info(
         `📈 Processing ${tokens.length} tokens for chain ${chainId} from ${discoveryService}`,
       )
 
-      // Use the existing fetchAndStorePrices method
-      const prices = await this.fetchAndStorePrices(chainId, tokens)
+      const prices = await this.fetchTokenPrices(chainId, tokens)
+      if (prices.size === 0) {
+        throw new Error(`No prices found for chain ${chainId} with ${discoveryService}`)
+      }
+      const storage = new StorageWrapper(getStorage())
+      await storage.storePrices(chainId, Array.from(prices.values()))
 
       logger.info(
         `✅ Chain ${chainId} with ${discoveryService}: Found prices for ${prices.size} tokens`,
@@ -333,10 +615,7 @@ export class PriceService {
       const tokensByChain = await tokenDiscoveryService.discoverAllTokens(false)
       const tokens = tokensByChain.get(chainId)
 
-      if (!tokens || tokens.length === 0) {
-        logger.warn(`No tokens found for chain ${chainId}`)
-        return
-      }
+      if (!tokens || tokens.length === 0) throw new Error(`No tokens found for chain ${chainId}`)
 
       logger.info(
         `📈 Processing ${tokens.length} tokens for chain ${chainId} with fetcher ${fetcher}`,
@@ -362,10 +641,11 @@ export class PriceService {
         }
       }
 
-      const pricesArray = Array.from(prices.values())
-      if (pricesArray.length > 0) {
-        await storage.storePrices(chainId, pricesArray)
+      const pricesArray = this.withSymbols(Array.from(prices.values()), tokens)
+      if (pricesArray.length === 0) {
+        throw new Error(`No prices found for chain ${chainId} with ${fetcher}`)
       }
+      await storage.storePrices(chainId, pricesArray)
 
       logger.info(`✅ Chain ${chainId} with ${fetcher}: Found prices for ${prices.size} tokens`)
     } catch (error) {
@@ -0,0 +1,101 @@
+import { randomUUID } from 'node:crypto'
+import { RefreshJob } from 'models/index'
+import priceService from 'services/priceService'
+import { getStorage, StorageWrapper } from 'storage/index'
+import { logger } from 'utils/index'
+
+export interface RefreshJobRequest {
+  chainId: number
+  discoveryService?: string
+  fetcher?: string
+}
+
+// A job still running after this long was cut off, e.g. at the function's maxDuration
+const JOB_TIMEOUT_MS = parseInt(process.env.REFRESH_JOB_TIMEOUT_SECONDS || '300', 10) * 1000
+
+export type RefreshJobStart =
+  // `finished` settles with the stored outcome, hosts that end the request early wait on it
+  | { job: RefreshJob; finished: Promise<RefreshJob> }
+  // Another job holds the chain
+  | { runningJobId: string }
+
+/**
+ * Runs the refresh-route style refreshes in the background. Their status and the per chain
+ * lock are kept in storage, so any process can poll a job and a chain refreshes once at a time.
+ */
+export class RefreshJobService {
+  async start(request: RefreshJobRequest): Promise<RefreshJobStart> {
+    const storage = new StorageWrapper(getStorage())
+    const job: RefreshJob = {
+      id: randomUUID(),
+      ...request,
+      status: 'running',
+      startedAt: Date.now(),
+    }
+
+    const holder = await storage.acquireRefreshLock(job.chainId, job.id, JOB_TIMEOUT_MS)
+    if (holder !== job.id) return { runningJobId: holder }
+
+    try {
+      await storage.storeRefreshJob(job)
+    } catch (error) {
+      await storage.releaseRefreshLock(job.chainId, job.id)
+      throw error
+    }
+
+    logger.info(
+      `🔁 Refresh job ${job.id} started for chain ${job.chainId}${job.discoveryService ? ` (discovery: ${job.discoveryService})` : ''}${job.fetcher ? ` (fetcher: ${job.fetcher})` : ''}`,
+    )
+
+    const finished = this.run(job)
+      .then(() => ({ ...job, status: 'succeeded' as const, finishedAt: Date.now() }))
+      .catch((error) => ({
+        ...job,
+        status: 'failed' as const,
+        finishedAt: Date.now(),
+        error: error instanceof Error ? error.message : String(error),
+      }))
+      .then(async (outcome: RefreshJob) => {
+        logger.info(`🔁 Refresh job ${job.id} ${outcome.status}`)
+        try {
+          await storage.storeRefreshJob(outcome)
+        } catch (error) {
+          logger.error(`Failed to store refresh job ${job.id}:`, error)
+        }
+        try {
+          await storage.releaseRefreshLock(job.chainId, job.id)
+        } catch (error) {
+          // The lock expires by itself after JOB_TIMEOUT_MS
+          logger.warn(`Failed to release the refresh lock of chain ${job.chainId}:`, error)
+        }
+        return outcome
+      })
+
+    return { job, finished }
+  }
+
+  async get(id: string): Promise<RefreshJob | undefined> {
+    const job = await new StorageWrapper(getStorage()).getRefreshJob(id)
+    if (job?.status === 'running' && Date.now() - job.startedAt > JOB_TIMEOUT_MS) {
+      return {
+        ...job,
+        status: 'failed',
+        finishedAt: job.startedAt + JOB_TIMEOUT_MS,
+        error: `Did not finish within ${JOB_TIMEOUT_MS / 1000}s`,
+      }
+    }
+    return job
+  }
+
+  private async run(job: RefreshJob): Promise<void> {
+    if (job.discoveryService) {
+      await priceService.fetchPricesForChainAndDiscovery(job.chainId, job.discoveryService)
+    } else if (job.fetcher) {
+      await priceService.fetchPricesForChainAndFetcher(job.chainId, job.fetcher)
+    } else {
+      await priceService.fetchPricesForChain(job.chainId)
+    }
+  }
+}
+
+export default new RefreshJobService()
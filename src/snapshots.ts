@@ -0,0 +1,86 @@
+import dotenv from 'dotenv'
+import { PriceSnapshot, SUPPORTED_CHAINS } from 'models/index'
+import { getStorage, initializeStorage, StorageType, StorageWrapper } from 'storage/index'
+import { logger } from 'utils/index'
+
+dotenv.config()
+
+const printUsage = () => {
+  console.log('Usage: snapshots <command> <chainId> [snapshotId]')
+  console.log('Commands:')
+  console.log('  list        List the kept snapshots of a chain, newest first')
+  console.log('  rollback    Serve a snapshot again, by default the one before the current one')
+  console.log('')
+  console.log('Examples:')
+  console.log('  snapshots list 1')
+  console.log('  snapshots rollback 1')
+  console.log('  snapshots rollback 1 1718000000000')
+}
+
+const describe = (snapshot: PriceSnapshot): string =>
+  `${snapshot.id}  ${new Date(snapshot.createdAt).toISOString()}  ${String(snapshot.priceCount).padStart(6)} prices${snapshot.current ? '  (current)' : ''}`
+
+// The newest snapshot published before the current one
+const previousSnapshot = (snapshots: PriceSnapshot[]): PriceSnapshot | undefined => {
+  const current = snapshots.find((snapshot) => snapshot.current)
+  if (!current) return snapshots[1]
+  return snapshots.find((snapshot) => snapshot.createdAt < current.createdAt)
+}
+
+async function snapshots() {
+  try {
+    const [command, chainIdArg, snapshotId] = process.argv.slice(2)
+
+    if (!command || !chainIdArg || !['list', 'rollback'].includes(command)) {
+      printUsage()
+      process.exit(1)
+    }
+
+    const chainId = parseInt(chainIdArg, 10)
+    const supportedChainIds = Object.values(SUPPORTED_CHAINS).map((chain) => chain.id)
+    if (!supportedChainIds.includes(chainId)) {
+      logger.error(
+        `Chain ${chainId} is not supported. Supported chains: ${supportedChainIds.join(', ')}`,
+      )
+      process.exit(1)
+    }
+
+    // Same storage settings as the refresh that published the snapshots
+    const cacheTTL = parseInt(process.env.CACHE_TTL_SECONDS || '0', 10)
+    const storageType = (process.env.STORAGE_TYPE || 'file') as StorageType
+    initializeStorage(storageType, cacheTTL, './data/prices')
+    const storage = new StorageWrapper(getStorage())
+
+    const kept = await storage.listSnapshots(chainId)
+
+    if (command === 'list') {
+      if (kept.length === 0) {
+        console.log(`No snapshots kept for chain ${chainId}`)
+      }
+      kept.forEach((snapshot) => {
+        console.log(describe(snapshot))
+      })
+      process.exit(0)
+    }
+
+    const target = snapshotId ?? previousSnapshot(kept)?.id
+    if (!target) {
+      logger.error(`No earlier snapshot of chain ${chainId} to roll back to`)
+      process.exit(1)
+    }
+
+    const snapshot = await storage.rollbackToSnapshot(chainId, target)
+    if (!snapshot) {
+      logger.error(`Snapshot ${target} of chain ${chainId} is not kept`)
+      process.exit(1)
+    }
+
+    logger.info(`✅ Chain ${chainId} rolled back to snapshot ${describe(snapshot)}`)
+    process.exit(0)
+  } catch (error) {
+    logger.error('Snapshot command failed:', error)
+    process.exit(1)
+  }
+}
+
+snapshots()
@@ -0,0 +1,143 @@
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { StoredPrice } from 'models/index'
+import {
+  diffChainPrices,
+  fromArchivedPrice,
+  PRICE_ARCHIVE_VERSION,
+  PriceArchive,
+  readPriceArchive,
+  toArchivedPrice,
+  writePriceArchive,
+} from 'storage/archive'
+import { PriceStorage } from 'storage/priceStorage'
+import { SqliteStorage } from 'storage/sqliteStorage'
+
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2'
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'
+const DAI = '0x6b175474e89094c44da98b954eedeac495271d0f'
+const NOW = 1_700_000_000_000
+
+const stored = (address: string, price: bigint, source = 'defillama'): StoredPrice => ({
+  address,
+  price,
+  source,
+  timestamp: NOW,
+})
+
+let dataDir: string
+
+beforeAll(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'yprice-archive-'))
+})
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true })
+})
+
+describe('archived prices', () => {
+  it('round-trip prices beyond the range of a double', () => {
+    const entry = {
+      ...stored(WETH, 2n ** 100n),
+      symbol: 'WETH',
+      derivation: { method: 'share-value' as const, inputs: { shares: '1' } },
+    }
+    expect(toArchivedPrice(entry).price).toBe('1267650600228229401496703205376')
+    expect(fromArchivedPrice(JSON.parse(JSON.stringify(toArchivedPrice(entry))))).toEqual(entry)
+  })
+
+  it('lowercase addresses on the way back', () => {
+    const archived = toArchivedPrice(stored(WETH.toUpperCase().replace('0X', '0x'), 1n))
+    expect(fromArchivedPrice(archived).address).toBe(WETH)
+  })
+})
+
+describe('price archive files', () => {
+  const archive: PriceArchive = {
+    version: PRICE_ARCHIVE_VERSION,
+    createdAt: NOW,
+    source: 'sqlite',
+    chains: { '1': [toArchivedPrice(stored(WETH, 3_000_000_000n))] },
+  }
+
+  it('are written to new directories and read back', () => {
+    const file = path.join(dataDir, 'nested', 'dir', 'prices.json')
+    writePriceArchive(file, archive)
+    expect(readPriceArchive(file)).toEqual(archive)
+  })
+
+  it('are rejected in another version', () => {
+    const file = path.join(dataDir, 'future.json')
+    fs.writeFileSync(file, JSON.stringify({ ...archive, version: PRICE_ARCHIVE_VERSION + 1 }))
+    expect(() => readPriceArchive(file)).toThrow(
+      `is a version ${PRICE_ARCHIVE_VERSION + 1} price archive`,
+    )
+  })
+
+  it('are rejected without chains', () => {
+    const file = path.join(dataDir, 'backup.json')
+    fs.writeFileSync(file, JSON.stringify({ [WETH]: { price: '1' } }))
+    expect(() => readPriceArchive(file)).toThrow('is not a price archive')
+  })
+
+  it('restore the prices of one backend into another', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW)
+    const sqlite = new SqliteStorage(0, path.join(dataDir, 'source.db'))
+    sqlite.storePrices(1, [
+      { address: WETH, price: 3_000_000_000n, source: 'defillama' },
+      { address: USDC, price: 1_000_000n, source: 'curve', symbol: 'USDC' },
+    ])
+    jest.restoreAllMocks()
+
+    const file = path.join(dataDir, 'export.json')
+    writePriceArchive(file, {
+      version: PRICE_ARCHIVE_VERSION,
+      createdAt: NOW,
+      source: 'sqlite',
+      chains: { '1': sqlite.listPrices(1).asSlice.map(toArchivedPrice) },
+    })
+
+    const target = new PriceStorage(0, path.join(dataDir, 'target'))
+    const restored = (readPriceArchive(file).chains['1'] ?? []).map(fromArchivedPrice)
+    target.restorePrices(1, restored)
+
+    const { asSlice } = target.listPrices(1)
+    expect(diffChainPrices(1, sqlite.listPrices(1).asSlice, asSlice)).toEqual({
+      chainId: 1,
+      onlyLeft: [],
+      onlyRight: [],
+      changed: [],
+    })
+    // Store times are kept, not reset by the restore
+    expect(asSlice.map((entry) => entry.timestamp)).toEqual([NOW, NOW])
+  })
+})
+
+describe('diffChainPrices', () => {
+  it('splits prices into one-sided and changed ones', () => {
+    const diff = diffChainPrices(
+      1,
+      [stored(WETH, 1n), stored(USDC, 2n), stored(DAI, 3n)],
+      [stored(WETH, 1n), stored(USDC, 5n), stored('0x01', 4n)],
+    )
+
+    expect(diff.onlyLeft).toEqual([stored(DAI, 3n)])
+    expect(diff.onlyRight).toEqual([stored('0x01', 4n)])
+    expect(diff.changed).toEqual([{ left: stored(USDC, 2n), right: stored(USDC, 5n) }])
+  })
+
+  it('counts another source as a change', () => {
+    const diff = diffChainPrices(1, [stored(WETH, 1n)], [stored(WETH, 1n, 'curve')])
+    expect(diff.changed).toHaveLength(1)
+  })
+
+  it('ignores store times and address case', () => {
+    const diff = diffChainPrices(
+      1,
+      [stored(WETH.toUpperCase().replace('0X', '0x'), 1n)],
+      [{ ...stored(WETH, 1n), timestamp: NOW + 60_000 }],
+    )
+    expect(diff).toEqual({ chainId: 1, onlyLeft: [], onlyRight: [], changed: [] })
+  })
+})
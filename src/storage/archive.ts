@@ -0,0 +1,89 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { StoredPrice } from 'models/index'
+
+// Bumped when the layout changes in a way older readers would misread
+export const PRICE_ARCHIVE_VERSION = 1
+
+export type ArchivedPrice = Omit<StoredPrice, 'price'> & {
+  // Integer string with 6 decimals, as in the file backups
+  price: string
+}
+
+/**
+ * Stored prices of one or more chains, independent of the backend they were exported from, so
+ * an archive of any backend restores into any other
+ */
+export interface PriceArchive {
+  version: number
+  // When the archive was written (ms)
+  createdAt: number
+  // Storage the prices were exported from, e.g. `upstash` or `file:./data/prices`
+  source: string
+  chains: Record<string, ArchivedPrice[]>
+}
+
+export interface ChainPriceDiff {
+  chainId: number
+  onlyLeft: StoredPrice[]
+  onlyRight: StoredPrice[]
+  // Stored on both sides with another price or source
+  changed: Array<{ left: StoredPrice; right: StoredPrice }>
+}
+
+export const toArchivedPrice = (entry: StoredPrice): ArchivedPrice => ({
+  ...entry,
+  price: entry.price.toString(),
+})
+
+export const fromArchivedPrice = (entry: ArchivedPrice): StoredPrice => ({
+  ...entry,
+  address: entry.address.toLowerCase(),
+  price: BigInt(entry.price),
+})
+
+export function writePriceArchive(file: string, archive: PriceArchive): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  fs.writeFileSync(file, JSON.stringify(archive, null, 2))
+}
+
+export function readPriceArchive(file: string): PriceArchive {
+  const archive = JSON.parse(fs.readFileSync(file, 'utf8')) as PriceArchive
+  if (!archive || typeof archive.chains !== 'object') {
+    throw new Error(`${file} is not a price archive`)
+  }
+  if (archive.version !== PRICE_ARCHIVE_VERSION) {
+    throw new Error(
+      `${file} is a version ${archive.version} price archive, only version ${PRICE_ARCHIVE_VERSION} is supported`,
+    )
+  }
+  return archive
+}
+
+/**
+ * Compares prices by address. Timestamps are left out, two backends refreshed independently
+ * rarely store at the same moment.
+ */
+export function diffChainPrices(
+  chainId: number,
+  left: StoredPrice[],
+  right: StoredPrice[],
+): ChainPriceDiff {
+  const rightByAddress = new Map(right.map((entry) => [entry.address.toLowerCase(), entry]))
+  const leftAddresses = new Set<string>()
+  const diff: ChainPriceDiff = { chainId, onlyLeft: [], onlyRight: [], changed: [] }
+
+  for (const entry of left) {
+    const address = entry.address.toLowerCase()
+    leftAddresses.add(address)
+    const other = rightByAddress.get(address)
+    if (!other) {
+      diff.onlyLeft.push(entry)
+    } else if (BigInt(other.price) !== BigInt(entry.price) || other.source !== entry.source) {
+      diff.changed.push({ left: entry, right: other })
+    }
+  }
+  diff.onlyRight = right.filter((entry) => !leftAddresses.has(entry.address.toLowerCase()))
+
+  return diff
+}
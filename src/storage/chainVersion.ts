@@ -0,0 +1,11 @@
+import { createHash } from 'node:crypto'
+import { StoredPrice } from 'models/index'
+
+/**
+ * Content hash of a chain's prices, independent of insertion order and store timestamps,
+ * so re-storing the same prices keeps the same version
+ */
+export const computeChainVersion = (entries: Iterable<StoredPrice>): string => {
+  const lines = Array.from(entries, (entry) => `${entry.address.toLowerCase()}:${entry.price}`)
+  return createHash('sha1').update(lines.sort().join('\n')).digest('hex')
+}
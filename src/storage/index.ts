@@ -1,4 +1,11 @@
+export * from './archive'
+export * from './chainVersion'
+export * from './priceChangeFeed'
+export * from './priceEvents'
 export * from './priceStorage'
+export * from './redisClient'
 export * from './redisStorage'
+export * from './snapshots'
+export * from './sqliteStorage'
 export * from './storageFactory'
 export * from './storageInterface'
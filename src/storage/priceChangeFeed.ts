@@ -0,0 +1,88 @@
+import { StoredPrice, SUPPORTED_CHAINS } from 'models/index'
+import {
+  diffPrices,
+  PriceChangeEvent,
+  PriceChangeNotifier,
+  priceChangeNotifier,
+} from 'storage/priceEvents'
+import { getCurrentStorageType, getStorage, StorageWrapper } from 'storage/storageFactory'
+import { logger } from 'utils/index'
+
+// How often shared storage is checked for prices written by other processes
+const POLL_INTERVAL_MS = parseInt(process.env.PRICE_STREAM_POLL_SECONDS || '5', 10) * 1000
+
+/**
+ * Emits the prices that changed in storage, whichever process wrote them. Chain versions are
+ * polled and a chain is only listed again when its version moved, so an idle chain costs one
+ * version read per interval.
+ */
+export class PriceChangePoller {
+  private events = new PriceChangeNotifier()
+  private timer: NodeJS.Timeout | null = null
+  private polling = false
+  private versions: Map<number, string> = new Map()
+  private prices: Map<number, Map<string, StoredPrice>> = new Map()
+
+  subscribe(listener: (event: PriceChangeEvent) => void): () => void {
+    const unsubscribe = this.events.subscribe(listener)
+    if (!this.timer) {
+      this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS)
+      // Open streams keep the process alive, the poller alone does not
+      this.timer.unref()
+      this.poll()
+    }
+
+    return () => {
+      unsubscribe()
+      if (this.events.listenerCount('change') === 0 && this.timer) {
+        clearInterval(this.timer)
+        this.timer = null
+        this.versions.clear()
+        this.prices.clear()
+      }
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return
+    this.polling = true
+
+    try {
+      const storage = new StorageWrapper(getStorage())
+      for (const chain of Object.values(SUPPORTED_CHAINS)) {
+        const version = (await storage.getChainVersion(chain.id))?.version
+        if (!version || version === this.versions.get(chain.id)) continue
+
+        const { asMap, asSlice } = await storage.listPrices(chain.id)
+        const previous = this.prices.get(chain.id)
+        this.versions.set(chain.id, version)
+        this.prices.set(chain.id, asMap)
+
+        // The first read only sets the baseline, clients get changes from when they connected
+        if (previous) {
+          this.events.notify(
+            chain.id,
+            diffPrices((address) => previous.get(address), asSlice),
+          )
+        }
+      }
+    } catch (error) {
+      logger.warn('[PriceChangePoller] Failed to poll price versions:', error)
+    } finally {
+      this.polling = false
+    }
+  }
+}
+
+export const priceChangePoller = new PriceChangePoller()
+
+/**
+ * File storage lives in the process that writes it, so its writes are heard directly. Redis and
+ * SQLite are written by other processes too (the refresh CLI, other instances), so they are polled.
+ */
+export function subscribePriceChanges(listener: (event: PriceChangeEvent) => void): () => void {
+  if (getCurrentStorageType() === 'file') {
+    return priceChangeNotifier.subscribe(listener)
+  }
+  return priceChangePoller.subscribe(listener)
+}
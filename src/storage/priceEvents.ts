@@ -0,0 +1,47 @@
+import { EventEmitter } from 'node:events'
+import { StoredPrice } from 'models/index'
+
+export interface PriceChangeEvent {
+  chainId: number
+  changes: StoredPrice[]
+}
+
+type PriceChangeListener = (event: PriceChangeEvent) => void
+
+/**
+ * Storage backends notify here after a write that added or changed prices,
+ * so in-process consumers (e.g. streaming endpoints) see every backend alike
+ */
+export class PriceChangeNotifier extends EventEmitter {
+  constructor() {
+    super()
+    // One listener per connected stream client
+    this.setMaxListeners(0)
+  }
+
+  notify(chainId: number, changes: StoredPrice[]): void {
+    if (changes.length === 0) return
+    this.emit('change', { chainId, changes })
+  }
+
+  subscribe(listener: PriceChangeListener): () => void {
+    this.on('change', listener)
+    return () => {
+      this.off('change', listener)
+    }
+  }
+}
+
+export const priceChangeNotifier = new PriceChangeNotifier()
+
+/**
+ * Entries from `next` that are new or whose price differs from `previous`
+ */
+export const diffPrices = (
+  previous: (address: string) => StoredPrice | undefined,
+  next: StoredPrice[],
+): StoredPrice[] =>
+  next.filter((entry) => {
+    const existing = previous(entry.address)
+    return !existing || BigInt(existing.price) !== entry.price
+  })
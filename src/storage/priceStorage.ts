@@ -1,15 +1,37 @@
 import * as fs from 'node:fs'
 import * as path from 'node:path'
-import { ChainConfig, Price, SUPPORTED_CHAINS } from 'models/index'
+import {
+  ChainConfig,
+  ChainPriceVersion,
+  CoverageReport,
+  ERC20Token,
+  Price,
+  PriceHistoryPoint,
+  PriceSnapshot,
+  RefreshJob,
+  StoredPrice,
+  SUPPORTED_CHAINS,
+} from 'models/index'
 import NodeCache from 'node-cache'
-import { logger } from 'utils/index'
-
-interface PriceCacheEntry extends Price {
-  timestamp: number
-}
+import { computeChainVersion } from 'storage/chainVersion'
+import { diffPrices, priceChangeNotifier } from 'storage/priceEvents'
+import {
+  isSnapshotId,
+  newSnapshotId,
+  SNAPSHOT_RETENTION,
+  snapshotCreatedAt,
+} from 'storage/snapshots'
+import { HISTORY_RETENTION_MS, logger, parseHistoryPoint, serializeHistoryPoint } from 'utils/index'
+
+// UTC day of a timestamp, YYYY-MM-DD, so file names sort by date
+const historyDay = (timestamp: number): string => new Date(timestamp).toISOString().slice(0, 10)
 
 export class PriceStorage {
   private caches: Map<number, NodeCache>
+  // Computed lazily and dropped whenever a chain's cached prices change
+  private versions: Map<number, ChainPriceVersion> = new Map()
+  // File storage belongs to one process, so its refresh locks are only held in memory
+  private refreshLocks: Map<number, { jobId: string; expiresAt: number }> = new Map()
   private cacheTTL: number
   private backupDir: string
 
@@ -23,14 +45,15 @@ export class PriceStorage {
 
   private initializeCaches(): void {
     Object.values(SUPPORTED_CHAINS).forEach((chain: ChainConfig) => {
-      this.caches.set(
-        chain.id,
-        new NodeCache({
-          stdTTL: this.cacheTTL,
-          checkperiod: this.cacheTTL * 2,
-          useClones: false,
-        }),
-      )
+      const cache = new NodeCache({
+        stdTTL: this.cacheTTL,
+        checkperiod: this.cacheTTL * 2,
+        useClones: false,
+      })
+      // Expired entries change the chain's content without going through storePrices
+      cache.on('expired', () => this.versions.delete(chain.id))
+      cache.on('flush', () => this.versions.delete(chain.id))
+      this.caches.set(chain.id, cache)
     })
   }
 
@@ -48,9 +71,7 @@ export class PriceStorage {
         const cache = this.caches.get(id)
         if (!cache) return 0
 
-        const prices: Record<string, PriceCacheEntry> = JSON.parse(
-          fs.readFileSync(backupFile, 'utf8'),
-        )
+        const prices: Record<string, StoredPrice> = JSON.parse(fs.readFileSync(backupFile, 'utf8'))
 
         const loadedPrices = Object.entries(prices).filter(([address, price]) => {
           if (typeof price.price === 'string') price.price = BigInt(price.price)
@@ -100,45 +121,70 @@ export class PriceStorage {
     if (!cache) throw new Error(`Chain ${chainId} not supported`)
 
     const timestamp = Date.now()
-    cache.mset(
+    const entries: StoredPrice[] = prices.map((price) => ({
+      ...price,
+      address: price.address.toLowerCase(),
+      timestamp,
+    }))
+    const changes = diffPrices((address) => cache.get<StoredPrice>(address), entries)
+
+    cache.mset(entries.map((entry) => ({ key: entry.address, val: entry, ttl: this.cacheTTL })))
+    const version = this.versions.get(chainId)
+    if (changes.length > 0) {
+      this.versions.delete(chainId)
+    } else if (version) {
+      this.versions.set(chainId, {
+        ...version,
+        lastStored: timestamp,
+        priceCount: cache.keys().length,
+      })
+    }
+
+    this.persistToBackup(chainId)
+    this.appendHistory(
+      chainId,
       prices.map((price) => ({
-        key: price.address.toLowerCase(),
-        val: { ...price, address: price.address.toLowerCase(), timestamp },
-        ttl: this.cacheTTL,
+        address: price.address.toLowerCase(),
+        price: price.price,
+        source: price.source,
+        timestamp,
       })),
     )
+    priceChangeNotifier.notify(chainId, changes)
+  }
 
-    this.persistToBackup(chainId)
+  public getPrice(chainId: number, address: string): StoredPrice | undefined {
+    return this.caches.get(chainId)?.get<StoredPrice>(address.toLowerCase())
   }
 
-  public getPrice(chainId: number, address: string): Price | undefined {
-    const entry = this.caches.get(chainId)?.get<PriceCacheEntry>(address.toLowerCase())
-    if (!entry) return undefined
-    const { timestamp: _timestamp, ...price } = entry
-    return price
+  public getPrices(chainId: number, addresses: string[]): Map<string, StoredPrice> {
+    const cache = this.caches.get(chainId)
+    if (!cache) return new Map()
+
+    const entries = cache.mget<StoredPrice>(addresses.map((address) => address.toLowerCase()))
+    return new Map(Object.entries(entries))
   }
 
-  public listPrices(chainId: number): { asMap: Map<string, Price>; asSlice: Price[] } {
+  public listPrices(chainId: number): { asMap: Map<string, StoredPrice>; asSlice: StoredPrice[] } {
     const cache = this.caches.get(chainId)
     if (!cache) return { asMap: new Map(), asSlice: [] }
 
-    const asMap = new Map<string, Price>()
-    const asSlice: Price[] = []
+    const asMap = new Map<string, StoredPrice>()
+    const asSlice: StoredPrice[] = []
 
     cache.keys().forEach((key) => {
-      const entry = cache.get<PriceCacheEntry>(key)
+      const entry = cache.get<StoredPrice>(key)
       if (entry) {
-        const { timestamp: _timestamp, ...price } = entry
-        asMap.set(price.address, price)
-        asSlice.push(price)
+        asMap.set(entry.address, entry)
+        asSlice.push(entry)
       }
     })
 
     return { asMap, asSlice }
   }
 
-  public getAllPrices(): Map<number, Map<string, Price>> {
-    const allPrices = new Map<number, Map<string, Price>>()
+  public getAllPrices(): Map<number, Map<string, StoredPrice>> {
+    const allPrices = new Map<number, Map<string, StoredPrice>>()
 
     Object.values(SUPPORTED_CHAINS).forEach((chain: ChainConfig) => {
       const { asMap } = this.listPrices(chain.id)
@@ -150,24 +196,413 @@ export class PriceStorage {
     return allPrices
   }
 
-  private persistToBackup(chainId: number): void {
+  public getChainVersion(chainId: number): ChainPriceVersion | undefined {
+    const cached = this.versions.get(chainId)
+    if (cached) return cached
+
+    const { asSlice } = this.listPrices(chainId)
+    if (asSlice.length === 0) return undefined
+
+    // The newest store is the latest moment the content could have changed
+    const lastStored = asSlice.reduce((latest, entry) => Math.max(latest, entry.timestamp), 0)
+    const version: ChainPriceVersion = {
+      version: computeChainVersion(asSlice),
+      lastModified: lastStored,
+      lastStored,
+      priceCount: asSlice.length,
+    }
+    this.versions.set(chainId, version)
+    return version
+  }
+
+  private getSnapshotDir(chainId: number): string {
+    return path.join(this.backupDir, 'snapshots', `chain_${chainId}`)
+  }
+
+  // Renamed over the old file, so it is never read half-written
+  private writeFileAtomic(file: string, content: string): void {
+    fs.writeFileSync(`${file}.tmp`, content)
+    fs.renameSync(`${file}.tmp`, file)
+  }
+
+  private readSnapshot(chainId: number, id: string): StoredPrice[] | undefined {
+    // Part of the file name, so nothing outside the snapshot directory is read
+    if (!isSnapshotId(id)) return undefined
+    const snapshotFile = path.join(this.getSnapshotDir(chainId), `${id}.json`)
+    if (!fs.existsSync(snapshotFile)) return undefined
+
+    const entries: StoredPrice[] = JSON.parse(fs.readFileSync(snapshotFile, 'utf8'))
+    return entries.map((entry) => ({ ...entry, price: BigInt(entry.price) }))
+  }
+
+  private readCurrentSnapshotId(chainId: number): string | undefined {
+    const currentFile = path.join(this.getSnapshotDir(chainId), 'current')
+    return fs.existsSync(currentFile) ? fs.readFileSync(currentFile, 'utf8').trim() : undefined
+  }
+
+  /**
+   * Prices are stored synchronously, so requests see the chain either before or after the whole
+   * refresh. The snapshot file is written after, as a copy to roll back to.
+   */
+  public publishSnapshot(chainId: number, prices: Price[]): PriceSnapshot {
+    this.storePrices(chainId, prices)
+    const { asSlice } = this.listPrices(chainId)
+    const createdAt = Date.now()
+    const id = newSnapshotId(createdAt)
+
+    const snapshotDir = this.getSnapshotDir(chainId)
+    fs.mkdirSync(snapshotDir, { recursive: true })
+    this.writeFileAtomic(
+      path.join(snapshotDir, `${id}.json`),
+      JSON.stringify(asSlice, (_, v) => (typeof v === 'bigint' ? v.toString() : v)),
+    )
+    this.writeFileAtomic(path.join(snapshotDir, 'current'), id)
+    this.pruneSnapshots(chainId)
+
+    return { id, chainId, createdAt, priceCount: asSlice.length, current: true }
+  }
+
+  // Newest first
+  private listSnapshotIds(chainId: number): string[] {
+    const snapshotDir = this.getSnapshotDir(chainId)
+    if (!fs.existsSync(snapshotDir)) return []
+
+    return fs
+      .readdirSync(snapshotDir)
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => file.slice(0, -'.json'.length))
+      .sort((a, b) => snapshotCreatedAt(b) - snapshotCreatedAt(a))
+  }
+
+  public listSnapshots(chainId: number): PriceSnapshot[] {
+    const current = this.readCurrentSnapshotId(chainId)
+    return this.listSnapshotIds(chainId).map((id) => ({
+      id,
+      chainId,
+      createdAt: snapshotCreatedAt(id),
+      priceCount: this.readSnapshot(chainId, id)?.length ?? 0,
+      current: id === current,
+    }))
+  }
+
+  // Prices stored since the snapshot are dropped
+  public rollbackToSnapshot(chainId: number, id: string): PriceSnapshot | undefined {
+    const entries = this.readSnapshot(chainId, id)
+    if (!entries) return undefined
+
+    this.restorePrices(chainId, entries)
+    this.writeFileAtomic(path.join(this.getSnapshotDir(chainId), 'current'), id)
+
+    return {
+      id,
+      chainId,
+      createdAt: snapshotCreatedAt(id),
+      priceCount: entries.length,
+      current: true,
+    }
+  }
+
+  // Keeps the newest SNAPSHOT_RETENTION snapshots and the current one
+  private pruneSnapshots(chainId: number): void {
+    const current = this.readCurrentSnapshotId(chainId)
+    this.listSnapshotIds(chainId)
+      .slice(SNAPSHOT_RETENTION)
+      .filter((id) => id !== current)
+      .forEach((id) => {
+        fs.rmSync(path.join(this.getSnapshotDir(chainId), `${id}.json`), { force: true })
+      })
+  }
+
+  // Replaces every cached price of the chain at once
+  public restorePrices(chainId: number, entries: StoredPrice[]): void {
+    const cache = this.caches.get(chainId)
+    if (!cache) throw new Error(`Chain ${chainId} not supported`)
+
+    const restored = entries.map((entry) => ({ ...entry, address: entry.address.toLowerCase() }))
+    // Written first and not swallowed, a restore that did not reach the disk must fail
+    this.writeBackup(chainId, restored)
+
+    const changes = diffPrices((address) => cache.get<StoredPrice>(address), restored)
+    cache.flushAll()
+    cache.mset(restored.map((entry) => ({ key: entry.address, val: entry, ttl: this.cacheTTL })))
+    this.versions.delete(chainId)
+
+    priceChangeNotifier.notify(chainId, changes)
+  }
+
+  /**
+   * Only the daily files overlapping the range are read, so a request costs the days it covers
+   * rather than the chain's whole history
+   */
+  public getPriceHistory(
+    chainId: number,
+    address: string,
+    from: number,
+    to: number,
+  ): PriceHistoryPoint[] {
+    this.migrateLegacyHistory(chainId)
+    const target = address.toLowerCase()
+    const firstDay = historyDay(from)
+    const lastDay = historyDay(to)
+
+    return this.listHistoryDays(chainId)
+      .filter((day) => day >= firstDay && day <= lastDay)
+      .flatMap((day) =>
+        fs
+          .readFileSync(path.join(this.getHistoryDir(chainId), `${day}.ndjson`), 'utf8')
+          .split('\n'),
+      )
+      .filter((line) => line.includes(target))
+      .map((line) => parseHistoryPoint(line))
+      .filter(
+        (point): point is PriceHistoryPoint =>
+          !!point && point.address === target && point.timestamp >= from && point.timestamp <= to,
+      )
+      .sort((a, b) => a.timestamp - b.timestamp)
+  }
+
+  // One NDJSON file per UTC day, named YYYY-MM-DD
+  private getHistoryDir(chainId: number): string {
+    return path.join(this.backupDir, 'history', `chain_${chainId}`)
+  }
+
+  // Oldest first
+  private listHistoryDays(chainId: number): string[] {
+    const historyDir = this.getHistoryDir(chainId)
+    if (!fs.existsSync(historyDir)) return []
+
+    return fs
+      .readdirSync(historyDir)
+      .filter((file) => file.endsWith('.ndjson'))
+      .map((file) => file.slice(0, -'.ndjson'.length))
+      .sort()
+  }
+
+  // History is append-only, one JSON point per line in the file of its day
+  private appendHistory(chainId: number, points: PriceHistoryPoint[]): void {
+    if (points.length === 0) return
+
     try {
-      if (!fs.existsSync(this.backupDir)) fs.mkdirSync(this.backupDir, { recursive: true })
+      this.migrateLegacyHistory(chainId)
+      this.appendHistoryLines(
+        chainId,
+        points.map((point) => ({
+          day: historyDay(point.timestamp),
+          line: serializeHistoryPoint(point),
+        })),
+      )
+      this.trimHistory(chainId)
+    } catch (error) {
+      logger.warn(
+        `Failed to append price history for chain ${chainId}: ${error instanceof Error ? error.message : 'Unknown'}`.substring(
+          0,
+          100,
+        ),
+      )
+    }
+  }
 
-      const cache = this.caches.get(chainId)
-      if (!cache) return
+  private appendHistoryLines(chainId: number, lines: Array<{ day: string; line: string }>): void {
+    const historyDir = this.getHistoryDir(chainId)
+    fs.mkdirSync(historyDir, { recursive: true })
+
+    const byDay = new Map<string, string>()
+    lines.forEach(({ day, line }) => {
+      byDay.set(day, `${byDay.get(day) ?? ''}${line}\n`)
+    })
+    byDay.forEach((content, day) => {
+      fs.appendFileSync(path.join(historyDir, `${day}.ndjson`), content)
+    })
+  }
+
+  // Drops the days that ended before PRICE_HISTORY_RETENTION_DAYS, like the other backends
+  private trimHistory(chainId: number): void {
+    if (HISTORY_RETENTION_MS <= 0) return
+
+    const oldestKept = historyDay(Date.now() - HISTORY_RETENTION_MS)
+    this.listHistoryDays(chainId)
+      .filter((day) => day < oldestKept)
+      .forEach((day) => {
+        fs.rmSync(path.join(this.getHistoryDir(chainId), `${day}.ndjson`), { force: true })
+      })
+  }
 
-      const prices = Object.fromEntries(
-        cache
-          .keys()
-          .map((key) => [key, cache.get<PriceCacheEntry>(key)])
-          .filter(([, v]) => v),
+  /**
+   * History used to be one file per chain, `history/chain_<id>.ndjson`. It is split into daily
+   * files the first time the chain's history is used, then removed.
+   */
+  private migrateLegacyHistory(chainId: number): void {
+    const legacyFile = path.join(this.backupDir, 'history', `chain_${chainId}.ndjson`)
+    if (!fs.existsSync(legacyFile)) return
+
+    const lines = fs
+      .readFileSync(legacyFile, 'utf8')
+      .split('\n')
+      .flatMap((line) => {
+        const point = parseHistoryPoint(line)
+        return point ? [{ day: historyDay(point.timestamp), line }] : []
+      })
+    this.appendHistoryLines(chainId, lines)
+    fs.rmSync(legacyFile)
+    this.trimHistory(chainId)
+  }
+
+  private getRequestedFile(chainId: number): string {
+    return path.join(this.backupDir, 'requested', `chain_${chainId}.json`)
+  }
+
+  public addRequestedToken(chainId: number, token: ERC20Token): void {
+    const tokens = Object.fromEntries(
+      this.getRequestedTokens(chainId).map((t) => [t.address, t] as const),
+    )
+    tokens[token.address.toLowerCase()] = { ...token, address: token.address.toLowerCase() }
+
+    try {
+      const requestedFile = this.getRequestedFile(chainId)
+      fs.mkdirSync(path.dirname(requestedFile), { recursive: true })
+      fs.writeFileSync(requestedFile, JSON.stringify(tokens, null, 2))
+    } catch (error) {
+      logger.warn(
+        `Failed to persist requested tokens for chain ${chainId}: ${error instanceof Error ? error.message : 'Unknown'}`.substring(
+          0,
+          100,
+        ),
       )
+    }
+  }
+
+  public getRequestedTokens(chainId: number): ERC20Token[] {
+    const requestedFile = this.getRequestedFile(chainId)
+    if (!fs.existsSync(requestedFile)) return []
+
+    const tokens: Record<string, ERC20Token> = JSON.parse(fs.readFileSync(requestedFile, 'utf8'))
+    return Object.values(tokens)
+  }
+
+  private getRegistryFile(chainId: number): string {
+    return path.join(this.backupDir, 'tokens', `chain_${chainId}.json`)
+  }
 
+  // Replaced as a whole after every full discovery
+  public storeTokenRegistry(chainId: number, tokens: ERC20Token[]): void {
+    try {
+      const registryFile = this.getRegistryFile(chainId)
+      fs.mkdirSync(path.dirname(registryFile), { recursive: true })
       fs.writeFileSync(
-        path.join(this.backupDir, `chain_${chainId}.json`),
-        JSON.stringify(prices, (_, v) => (typeof v === 'bigint' ? v.toString() : v), 2),
+        registryFile,
+        JSON.stringify(
+          Object.fromEntries(tokens.map((t) => [t.address.toLowerCase(), t])),
+          null,
+          2,
+        ),
+      )
+    } catch (error) {
+      logger.warn(
+        `Failed to persist token registry for chain ${chainId}: ${error instanceof Error ? error.message : 'Unknown'}`.substring(
+          0,
+          100,
+        ),
+      )
+    }
+  }
+
+  private readTokenRegistry(chainId: number): Record<string, ERC20Token> {
+    const registryFile = this.getRegistryFile(chainId)
+    if (!fs.existsSync(registryFile)) return {}
+    return JSON.parse(fs.readFileSync(registryFile, 'utf8'))
+  }
+
+  public getTokenRegistry(chainId: number): ERC20Token[] {
+    return Object.values(this.readTokenRegistry(chainId))
+  }
+
+  public getRegistryToken(chainId: number, address: string): ERC20Token | undefined {
+    return this.readTokenRegistry(chainId)[address.toLowerCase()]
+  }
+
+  private getCoverageFile(chainId: number): string {
+    return path.join(this.backupDir, 'coverage', `chain_${chainId}.json`)
+  }
+
+  // Only the latest refresh run is kept
+  public storeCoverageReport(chainId: number, report: CoverageReport): void {
+    try {
+      const coverageFile = this.getCoverageFile(chainId)
+      fs.mkdirSync(path.dirname(coverageFile), { recursive: true })
+      fs.writeFileSync(coverageFile, JSON.stringify(report, null, 2))
+    } catch (error) {
+      logger.warn(
+        `Failed to persist coverage report for chain ${chainId}: ${error instanceof Error ? error.message : 'Unknown'}`.substring(
+          0,
+          100,
+        ),
+      )
+    }
+  }
+
+  public getCoverageReport(chainId: number): CoverageReport | undefined {
+    const coverageFile = this.getCoverageFile(chainId)
+    if (!fs.existsSync(coverageFile)) return undefined
+    return JSON.parse(fs.readFileSync(coverageFile, 'utf8'))
+  }
+
+  private getJobFile(id: string): string {
+    return path.join(this.backupDir, 'jobs', `${id}.json`)
+  }
+
+  public storeRefreshJob(job: RefreshJob): void {
+    try {
+      const jobFile = this.getJobFile(job.id)
+      fs.mkdirSync(path.dirname(jobFile), { recursive: true })
+      fs.writeFileSync(jobFile, JSON.stringify(job, null, 2))
+    } catch (error) {
+      logger.warn(
+        `Failed to persist refresh job ${job.id}: ${error instanceof Error ? error.message : 'Unknown'}`.substring(
+          0,
+          100,
+        ),
       )
+    }
+  }
+
+  public getRefreshJob(id: string): RefreshJob | undefined {
+    const jobFile = this.getJobFile(id)
+    if (!fs.existsSync(jobFile)) return undefined
+    return JSON.parse(fs.readFileSync(jobFile, 'utf8'))
+  }
+
+  public acquireRefreshLock(chainId: number, jobId: string, ttlMs: number): string {
+    const lock = this.refreshLocks.get(chainId)
+    if (lock && lock.expiresAt >= Date.now()) return lock.jobId
+    this.refreshLocks.set(chainId, { jobId, expiresAt: Date.now() + ttlMs })
+    return jobId
+  }
+
+  public releaseRefreshLock(chainId: number, jobId: string): void {
+    if (this.refreshLocks.get(chainId)?.jobId === jobId) this.refreshLocks.delete(chainId)
+  }
+
+  private writeBackup(chainId: number, entries: StoredPrice[]): void {
+    if (!fs.existsSync(this.backupDir)) fs.mkdirSync(this.backupDir, { recursive: true })
+
+    const prices = Object.fromEntries(entries.map((entry) => [entry.address, entry]))
+    this.writeFileAtomic(
+      path.join(this.backupDir, `chain_${chainId}.json`),
+      JSON.stringify(prices, (_, v) => (typeof v === 'bigint' ? v.toString() : v), 2),
+    )
+  }
+
+  // The cache keeps serving when the disk fails, the next refresh writes the backup again
+  private persistToBackup(chainId: number): void {
+    try {
+      const cache = this.caches.get(chainId)
+      if (!cache) return
+
+      const entries = cache
+        .keys()
+        .map((key) => cache.get<StoredPrice>(key))
+        .filter((entry): entry is StoredPrice => !!entry)
+      this.writeBackup(chainId, entries)
     } catch (error) {
       logger.warn(
         `Failed to persist backup for chain ${chainId}: ${error instanceof Error ? error.message : 'Unknown'}`.substring(
@@ -188,6 +623,10 @@ export class PriceStorage {
     }
   }
 
+  public ping(): void {
+    fs.accessSync(this.backupDir, fs.constants.W_OK)
+  }
+
   public getStats(chainId?: number): any {
     if (chainId) return this.caches.get(chainId)?.getStats()
     return Object.fromEntries(
@@ -0,0 +1,378 @@
+import { Redis as UpstashRedis } from '@upstash/redis'
+import IORedis, { ChainableCommander } from 'ioredis'
+import { logger } from 'utils/index'
+
+// Upstash over its REST API, or any server speaking the Redis protocol (TLS with rediss://)
+export type RedisBackend = 'upstash' | 'redis-tcp'
+
+/**
+ * Commands queued in a pipeline or transaction. Results come back in command order, a hash read
+ * with hgetall is an object of its fields, empty or null when it does not exist.
+ */
+export interface RedisBatch {
+  del(...keys: string[]): RedisBatch
+  expire(key: string, seconds: number): RedisBatch
+  hgetall(key: string): RedisBatch
+  hincrby(key: string, field: string, increment: number): RedisBatch
+  hlen(key: string): RedisBatch
+  hset(key: string, fields: Record<string, string | number>): RedisBatch
+  hsetnx(key: string, field: string, value: string | number): RedisBatch
+  zadd(key: string, score: number, member: string): RedisBatch
+  zrem(key: string, ...members: string[]): RedisBatch
+  zremrangebyscore(key: string, min: number, max: number): RedisBatch
+  exec(): Promise<unknown[]>
+}
+
+/**
+ * The commands RedisStorage sends, the same over both backends. Values are returned as the strings
+ * that were stored, parsing them is left to the storage.
+ */
+export interface RedisClient {
+  get(key: string): Promise<string | null>
+  set(key: string, value: string): Promise<void>
+  setex(key: string, seconds: number, value: string): Promise<void>
+  // SET NX with an expiry, false when the key already exists
+  setnx(key: string, value: string, seconds: number): Promise<boolean>
+  // Deletes the key only while it still holds the value, in one step
+  delIfEquals(key: string, value: string): Promise<boolean>
+  exists(key: string): Promise<boolean>
+  hget(key: string, field: string): Promise<string | null>
+  // In the order of the fields, null for missing ones
+  hmget(key: string, fields: string[]): Promise<Array<string | null>>
+  hgetall(key: string): Promise<Record<string, string>>
+  hkeys(key: string): Promise<string[]>
+  hlen(key: string): Promise<number>
+  hset(key: string, fields: Record<string, string | number>): Promise<void>
+  zrangeByScore(key: string, min: number, max: number): Promise<string[]>
+  // Members by rank from the highest score, stop included
+  zrevrange(key: string, start: number, stop: number): Promise<string[]>
+  ping(): Promise<void>
+  pipeline(): RedisBatch
+  // Sent as one MULTI/EXEC transaction
+  multi(): RedisBatch
+}
+
+type UpstashPipeline = ReturnType<UpstashRedis['pipeline']>
+
+const DEL_IF_EQUALS_SCRIPT =
+  "if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) else return 0 end"
+
+// Without deserialization the REST client hands hashes over as [field, value, ...]
+const toFields = (reply: unknown): Record<string, string> => {
+  const fields: Record<string, string> = {}
+  if (!Array.isArray(reply)) return fields
+  for (let index = 0; index + 1 < reply.length; index += 2) {
+    fields[String(reply[index])] = String(reply[index + 1])
+  }
+  return fields
+}
+
+class UpstashBatch implements RedisBatch {
+  // Indexes of hgetall results, converted to objects after exec
+  private hashReads: Set<number> = new Set()
+
+  constructor(private batch: UpstashPipeline) {}
+
+  del(...keys: string[]): RedisBatch {
+    this.batch.del(...keys)
+    return this
+  }
+
+  expire(key: string, seconds: number): RedisBatch {
+    this.batch.expire(key, seconds)
+    return this
+  }
+
+  hgetall(key: string): RedisBatch {
+    this.hashReads.add(this.batch.length())
+    this.batch.hgetall(key)
+    return this
+  }
+
+  hincrby(key: string, field: string, increment: number): RedisBatch {
+    this.batch.hincrby(key, field, increment)
+    return this
+  }
+
+  hlen(key: string): RedisBatch {
+    this.batch.hlen(key)
+    return this
+  }
+
+  hset(key: string, fields: Record<string, string | number>): RedisBatch {
+    this.batch.hset(key, fields)
+    return this
+  }
+
+  hsetnx(key: string, field: string, value: string | number): RedisBatch {
+    this.batch.hsetnx(key, field, value)
+    return this
+  }
+
+  zadd(key: string, score: number, member: string): RedisBatch {
+    this.batch.zadd(key, { score, member })
+    return this
+  }
+
+  zrem(key: string, ...members: string[]): RedisBatch {
+    this.batch.zrem(key, ...members)
+    return this
+  }
+
+  zremrangebyscore(key: string, min: number, max: number): RedisBatch {
+    this.batch.zremrangebyscore(key, min, max)
+    return this
+  }
+
+  async exec(): Promise<unknown[]> {
+    const results = await this.batch.exec()
+    return results.map((result, index) => (this.hashReads.has(index) ? toFields(result) : result))
+  }
+}
+
+export class UpstashRedisClient implements RedisClient {
+  private redis: UpstashRedis
+
+  constructor(url: string, token: string) {
+    // Values are parsed by the storage, the same way for both backends
+    this.redis = new UpstashRedis({ url, token, automaticDeserialization: false })
+  }
+
+  get(key: string): Promise<string | null> {
+    return this.redis.get<string>(key)
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.redis.set(key, value)
+  }
+
+  async setex(key: string, seconds: number, value: string): Promise<void> {
+    await this.redis.setex(key, seconds, value)
+  }
+
+  async setnx(key: string, value: string, seconds: number): Promise<boolean> {
+    return (await this.redis.set(key, value, { nx: true, ex: seconds })) !== null
+  }
+
+  async delIfEquals(key: string, value: string): Promise<boolean> {
+    return Number(await this.redis.eval(DEL_IF_EQUALS_SCRIPT, [key], [value])) > 0
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.redis.exists(key)) > 0
+  }
+
+  hget(key: string, field: string): Promise<string | null> {
+    return this.redis.hget<string>(key, field)
+  }
+
+  // Without deserialization the reply is the plain array, in the order of the fields
+  async hmget(key: string, fields: string[]): Promise<Array<string | null>> {
+    const values = (await this.redis.hmget(key, ...fields)) as unknown as Array<string | null>
+    return values ?? fields.map(() => null)
+  }
+
+  async hgetall(key: string): Promise<Record<string, string>> {
+    return toFields(await this.redis.hgetall(key))
+  }
+
+  hkeys(key: string): Promise<string[]> {
+    return this.redis.hkeys(key)
+  }
+
+  hlen(key: string): Promise<number> {
+    return this.redis.hlen(key)
+  }
+
+  async hset(key: string, fields: Record<string, string | number>): Promise<void> {
+    await this.redis.hset(key, fields)
+  }
+
+  zrangeByScore(key: string, min: number, max: number): Promise<string[]> {
+    return this.redis.zrange<string[]>(key, min, max, { byScore: true })
+  }
+
+  zrevrange(key: string, start: number, stop: number): Promise<string[]> {
+    return this.redis.zrange<string[]>(key, start, stop, { rev: true })
+  }
+
+  async ping(): Promise<void> {
+    await this.redis.ping()
+  }
+
+  pipeline(): RedisBatch {
+    return new UpstashBatch(this.redis.pipeline())
+  }
+
+  multi(): RedisBatch {
+    return new UpstashBatch(this.redis.multi())
+  }
+}
+
+class TcpBatch implements RedisBatch {
+  constructor(private batch: ChainableCommander) {}
+
+  del(...keys: string[]): RedisBatch {
+    this.batch.del(...keys)
+    return this
+  }
+
+  expire(key: string, seconds: number): RedisBatch {
+    this.batch.expire(key, seconds)
+    return this
+  }
+
+  hgetall(key: string): RedisBatch {
+    this.batch.hgetall(key)
+    return this
+  }
+
+  hincrby(key: string, field: string, increment: number): RedisBatch {
+    this.batch.hincrby(key, field, increment)
+    return this
+  }
+
+  hlen(key: string): RedisBatch {
+    this.batch.hlen(key)
+    return this
+  }
+
+  hset(key: string, fields: Record<string, string | number>): RedisBatch {
+    this.batch.hset(key, fields)
+    return this
+  }
+
+  hsetnx(key: string, field: string, value: string | number): RedisBatch {
+    this.batch.hsetnx(key, field, value)
+    return this
+  }
+
+  zadd(key: string, score: number, member: string): RedisBatch {
+    this.batch.zadd(key, score, member)
+    return this
+  }
+
+  zrem(key: string, ...members: string[]): RedisBatch {
+    this.batch.zrem(key, ...members)
+    return this
+  }
+
+  zremrangebyscore(key: string, min: number, max: number): RedisBatch {
+    this.batch.zremrangebyscore(key, min, max)
+    return this
+  }
+
+  // ioredis pairs every result with its error, the first error fails the batch like over REST
+  async exec(): Promise<unknown[]> {
+    const results = (await this.batch.exec()) ?? []
+    return results.map(([error, result]) => {
+      if (error) throw error
+      return result
+    })
+  }
+}
+
+export class TcpRedisClient implements RedisClient {
+  private redis: IORedis
+
+  constructor(url: string) {
+    this.redis = new IORedis(url, {
+      // Fail commands while the server is unreachable instead of queueing them for long
+      maxRetriesPerRequest: 2,
+      connectTimeout: 5000,
+    })
+    // Reconnects on its own, unhandled errors would only be printed by ioredis
+    this.redis.on('error', (error) => {
+      logger.warn(`[RedisStorage] Redis connection error: ${error.message}`)
+    })
+  }
+
+  get(key: string): Promise<string | null> {
+    return this.redis.get(key)
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.redis.set(key, value)
+  }
+
+  async setex(key: string, seconds: number, value: string): Promise<void> {
+    await this.redis.setex(key, seconds, value)
+  }
+
+  async setnx(key: string, value: string, seconds: number): Promise<boolean> {
+    return (await this.redis.set(key, value, 'EX', seconds, 'NX')) !== null
+  }
+
+  async delIfEquals(key: string, value: string): Promise<boolean> {
+    return Number(await this.redis.eval(DEL_IF_EQUALS_SCRIPT, 1, key, value)) > 0
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.redis.exists(key)) > 0
+  }
+
+  hget(key: string, field: string): Promise<string | null> {
+    return this.redis.hget(key, field)
+  }
+
+  hmget(key: string, fields: string[]): Promise<Array<string | null>> {
+    return this.redis.hmget(key, ...fields)
+  }
+
+  hgetall(key: string): Promise<Record<string, string>> {
+    return this.redis.hgetall(key)
+  }
+
+  hkeys(key: string): Promise<string[]> {
+    return this.redis.hkeys(key)
+  }
+
+  hlen(key: string): Promise<number> {
+    return this.redis.hlen(key)
+  }
+
+  async hset(key: string, fields: Record<string, string | number>): Promise<void> {
+    await this.redis.hset(key, fields)
+  }
+
+  zrangeByScore(key: string, min: number, max: number): Promise<string[]> {
+    return this.redis.zrangebyscore(key, min, max)
+  }
+
+  zrevrange(key: string, start: number, stop: number): Promise<string[]> {
+    return this.redis.zrevrange(key, start, stop)
+  }
+
+  async ping(): Promise<void> {
+    await this.redis.ping()
+  }
+
+  pipeline(): RedisBatch {
+    return new TcpBatch(this.redis.pipeline())
+  }
+
+  multi(): RedisBatch {
+    return new TcpBatch(this.redis.multi())
+  }
+}
+
+// REDIS_URL wins when both are configured
+export const detectRedisBackend = (): RedisBackend =>
+  process.env.REDIS_URL ? 'redis-tcp' : 'upstash'
+
+export function createRedisClient(backend: RedisBackend = detectRedisBackend()): RedisClient {
+  if (backend === 'redis-tcp') {
+    const redisUrl = process.env.REDIS_URL
+    if (!redisUrl) throw new Error('Missing REDIS_URL environment variable')
+    return new TcpRedisClient(redisUrl)
+  }
+
+  const redisUrl = process.env.UPSTASH_REDIS_REST_URL
+  const redisToken = process.env.UPSTASH_REDIS_REST_TOKEN
+  if (!redisUrl || !redisToken) {
+    throw new Error(
+      'Missing UPSTASH_REDIS_REST_URL or UPSTASH_REDIS_REST_TOKEN environment variables',
+    )
+  }
+  return new UpstashRedisClient(redisUrl, redisToken)
+}
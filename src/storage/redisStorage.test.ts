@@ -0,0 +1,363 @@
+import { RedisBatch, RedisClient } from 'storage/redisClient'
+import { RedisStorage } from 'storage/redisStorage'
+
+// Strings, hashes and sorted sets in memory, enough of Redis for the storage
+class MemoryRedis implements RedisClient {
+  strings: Map<string, string> = new Map()
+  hashes: Map<string, Map<string, string>> = new Map()
+  sortedSets: Map<string, Map<string, number>> = new Map()
+  calls: string[] = []
+  failNext?: string
+
+  private track(command: string): void {
+    this.calls.push(command)
+    if (this.failNext === command) {
+      this.failNext = undefined
+      throw new Error(`${command} failed`)
+    }
+  }
+
+  private hash(key: string): Map<string, string> {
+    let hash = this.hashes.get(key)
+    if (!hash) {
+      hash = new Map()
+      this.hashes.set(key, hash)
+    }
+    return hash
+  }
+
+  private sortedSet(key: string): Map<string, number> {
+    let set = this.sortedSets.get(key)
+    if (!set) {
+      set = new Map()
+      this.sortedSets.set(key, set)
+    }
+    return set
+  }
+
+  private ranked(key: string): string[] {
+    return Array.from(this.sortedSets.get(key) ?? [])
+      .sort(([, a], [, b]) => a - b)
+      .map(([member]) => member)
+  }
+
+  async get(key: string) {
+    this.track('get')
+    return this.strings.get(key) ?? null
+  }
+
+  async set(key: string, value: string) {
+    this.strings.set(key, value)
+  }
+
+  async setex(key: string, _seconds: number, value: string) {
+    this.strings.set(key, value)
+  }
+
+  async setnx(key: string, value: string) {
+    if (this.strings.has(key)) return false
+    this.strings.set(key, value)
+    return true
+  }
+
+  async delIfEquals(key: string, value: string) {
+    if (this.strings.get(key) !== value) return false
+    return this.strings.delete(key)
+  }
+
+  async exists(key: string) {
+    this.track('exists')
+    return this.strings.has(key) || this.hashes.has(key) || this.sortedSets.has(key)
+  }
+
+  async hget(key: string, field: string) {
+    return this.hashes.get(key)?.get(field) ?? null
+  }
+
+  async hmget(key: string, fields: string[]) {
+    return fields.map((field) => this.hashes.get(key)?.get(field) ?? null)
+  }
+
+  async hgetall(key: string) {
+    return Object.fromEntries(this.hashes.get(key) ?? [])
+  }
+
+  async hkeys(key: string) {
+    this.track('hkeys')
+    return Array.from(this.hashes.get(key)?.keys() ?? [])
+  }
+
+  async hlen(key: string) {
+    return this.hashes.get(key)?.size ?? 0
+  }
+
+  async hset(key: string, fields: Record<string, string | number>) {
+    for (const [field, value] of Object.entries(fields)) {
+      this.hash(key).set(field, String(value))
+    }
+  }
+
+  async zrangeByScore(key: string, min: number, max: number) {
+    if (Number.isNaN(min) || Number.isNaN(max)) throw new Error('ERR min or max is not a float')
+    const set = this.sortedSets.get(key)
+    return this.ranked(key).filter((member) => {
+      const score = set?.get(member) ?? Number.NaN
+      return score >= min && score <= max
+    })
+  }
+
+  async zrevrange(key: string, start: number, stop: number) {
+    const members = this.ranked(key).reverse()
+    return members.slice(start, stop < 0 ? members.length + stop + 1 : stop + 1)
+  }
+
+  async ping() {}
+
+  pipeline(): RedisBatch {
+    return new MemoryBatch(this)
+  }
+
+  multi(): RedisBatch {
+    return new MemoryBatch(this)
+  }
+
+  del(...keys: string[]): number {
+    let removed = 0
+    for (const key of keys) {
+      if (this.strings.delete(key) || this.hashes.delete(key) || this.sortedSets.delete(key)) {
+        removed++
+      }
+    }
+    return removed
+  }
+
+  hsetnx(key: string, field: string, value: string | number): number {
+    const hash = this.hash(key)
+    if (hash.has(field)) return 0
+    hash.set(field, String(value))
+    return 1
+  }
+
+  hincrby(key: string, field: string, increment: number): number {
+    const value = Number(this.hash(key).get(field) ?? 0) + increment
+    this.hash(key).set(field, String(value))
+    return value
+  }
+
+  zadd(key: string, score: number, member: string): number {
+    this.sortedSet(key).set(member, score)
+    return 1
+  }
+
+  zrem(key: string, members: string[]): number {
+    return members.filter((member) => this.sortedSets.get(key)?.delete(member)).length
+  }
+
+  zremrangebyscore(key: string, min: number, max: number): number {
+    const set = this.sortedSet(key)
+    let removed = 0
+    for (const [member, score] of set) {
+      if (score >= min && score <= max && set.delete(member)) removed++
+    }
+    return removed
+  }
+}
+
+// Queues commands and runs them in order on exec, like a pipeline or MULTI
+class MemoryBatch implements RedisBatch {
+  private commands: Array<() => unknown> = []
+
+  constructor(private redis: MemoryRedis) {}
+
+  private queue(command: () => unknown): RedisBatch {
+    this.commands.push(command)
+    return this
+  }
+
+  del(...keys: string[]) {
+    return this.queue(() => this.redis.del(...keys))
+  }
+
+  expire() {
+    return this.queue(() => 1)
+  }
+
+  hgetall(key: string) {
+    return this.queue(() => Object.fromEntries(this.redis.hashes.get(key) ?? []))
+  }
+
+  hincrby(key: string, field: string, increment: number) {
+    return this.queue(() => this.redis.hincrby(key, field, increment))
+  }
+
+  hlen(key: string) {
+    return this.queue(() => this.redis.hashes.get(key)?.size ?? 0)
+  }
+
+  hset(key: string, fields: Record<string, string | number>) {
+    return this.queue(() => this.redis.hset(key, fields))
+  }
+
+  hsetnx(key: string, field: string, value: string | number) {
+    return this.queue(() => this.redis.hsetnx(key, field, value))
+  }
+
+  zadd(key: string, score: number, member: string) {
+    return this.queue(() => this.redis.zadd(key, score, member))
+  }
+
+  zrem(key: string, ...members: string[]) {
+    return this.queue(() => this.redis.zrem(key, members))
+  }
+
+  zremrangebyscore(key: string, min: number, max: number) {
+    return this.queue(() => this.redis.zremrangebyscore(key, min, max))
+  }
+
+  async exec() {
+    return this.commands.map((command) => command())
+  }
+}
+
+let mockRedis: MemoryRedis
+
+jest.mock('storage/redisClient', () => ({
+  createRedisClient: () => mockRedis,
+}))
+
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2'
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'
+const STORED_AT = 1_700_000_000_000
+
+// The whole chain as one JSON blob, addresses as they were stored
+const writeLegacyChain = (chainId: number, entries: Record<string, unknown>) => {
+  mockRedis.strings.set(`yprice:chain:${chainId}`, JSON.stringify(entries))
+  mockRedis.strings.set(`yprice:version:${chainId}`, 'legacy-version')
+}
+
+let storage: RedisStorage
+
+beforeEach(() => {
+  mockRedis = new MemoryRedis()
+  // No expiry, the fake has none
+  storage = new RedisStorage(0)
+})
+
+describe('RedisStorage legacy migration', () => {
+  it('moves a blob chain into the hash on first read and drops the blob', async () => {
+    writeLegacyChain(1, {
+      [WETH]: { address: WETH, price: '3000000000', source: 'defillama', timestamp: STORED_AT },
+      [USDC]: {
+        address: USDC.toUpperCase().replace('0X', '0x'),
+        price: '1000000',
+        source: 'defillama',
+        timestamp: STORED_AT - 1000,
+      },
+    })
+
+    const { asMap } = await storage.listPrices(1)
+    expect(asMap.get(WETH)?.price).toBe(3_000_000_000n)
+    expect(asMap.get(USDC)).toEqual({
+      address: USDC,
+      price: 1_000_000n,
+      source: 'defillama',
+      timestamp: STORED_AT - 1000,
+    })
+
+    expect(mockRedis.strings.has('yprice:chain:1')).toBe(false)
+    expect(mockRedis.strings.has('yprice:version:1')).toBe(false)
+    expect(Array.from(mockRedis.hashes.get('yprice:prices:1')?.keys() ?? []).sort()).toEqual([
+      USDC,
+      WETH,
+    ])
+  })
+
+  it('dates the migrated version by the newest blob entry', async () => {
+    writeLegacyChain(1, {
+      [WETH]: { address: WETH, price: '3000000000', source: 'defillama', timestamp: STORED_AT },
+      [USDC]: { address: USDC, price: '1000000', source: 'defillama', timestamp: 1 },
+    })
+
+    const version = await storage.getChainVersion(1)
+    expect(version).toMatchObject({
+      version: expect.stringMatching(/:1$/),
+      lastModified: STORED_AT,
+      lastStored: STORED_AT,
+      priceCount: 2,
+    })
+  })
+
+  it('keeps prices already written to the hash over the blob', async () => {
+    await mockRedis.hset('yprice:prices:1', {
+      [WETH]: JSON.stringify({
+        address: WETH,
+        price: '3500000000',
+        source: 'curve',
+        timestamp: STORED_AT + 1000,
+      }),
+    })
+    writeLegacyChain(1, {
+      [WETH]: { address: WETH, price: '3000000000', source: 'defillama', timestamp: STORED_AT },
+      [USDC]: { address: USDC, price: '1000000', source: 'defillama', timestamp: STORED_AT },
+    })
+
+    const prices = await storage.getPrices(1, [WETH, USDC])
+    expect(prices.get(WETH)).toMatchObject({ price: 3_500_000_000n, source: 'curve' })
+    expect(prices.get(USDC)?.price).toBe(1_000_000n)
+  })
+
+  it('skips unreadable blob entries', async () => {
+    writeLegacyChain(1, {
+      [WETH]: { address: WETH, price: '3000000000', source: 'defillama', timestamp: STORED_AT },
+      broken: { price: 'not a number', source: 'defillama', timestamp: STORED_AT },
+      [USDC]: { address: USDC, price: '1.5', source: 'defillama', timestamp: STORED_AT },
+    })
+
+    const { asSlice } = await storage.listPrices(1)
+    expect(asSlice.map((entry) => entry.address)).toEqual([WETH])
+  })
+
+  it('migrates each chain once', async () => {
+    writeLegacyChain(1, {
+      [WETH]: { address: WETH, price: '3000000000', source: 'defillama', timestamp: STORED_AT },
+    })
+
+    await Promise.all([storage.getPrice(1, WETH), storage.listPrices(1), storage.getStats(1)])
+    await storage.getPrice(1, USDC)
+    expect(mockRedis.calls.filter((command) => command === 'exists')).toHaveLength(1)
+  })
+
+  it('retries a failed migration on the next use', async () => {
+    writeLegacyChain(1, {
+      [WETH]: { address: WETH, price: '3000000000', source: 'defillama', timestamp: STORED_AT },
+    })
+    mockRedis.failNext = 'hkeys'
+
+    await expect(storage.getPrice(1, WETH)).rejects.toThrow('hkeys failed')
+    expect(mockRedis.strings.has('yprice:chain:1')).toBe(true)
+
+    expect((await storage.getPrice(1, WETH))?.price).toBe(3_000_000_000n)
+    expect(mockRedis.strings.has('yprice:chain:1')).toBe(false)
+  })
+
+  it('stores new prices next to the migrated ones', async () => {
+    writeLegacyChain(1, {
+      [WETH]: { address: WETH, price: '3000000000', source: 'defillama', timestamp: STORED_AT },
+    })
+
+    await storage.storePrices(1, [{ address: USDC, price: 1_000_000n, source: 'defillama' }])
+    const { asMap } = await storage.listPrices(1)
+    expect(Array.from(asMap.keys()).sort()).toEqual([USDC, WETH])
+    expect((await storage.getChainVersion(1))?.version).toMatch(/:2$/)
+  })
+})
+
+describe('RedisStorage snapshots', () => {
+  it('treats IDs that are no publish time as unknown snapshots', async () => {
+    await storage.publishSnapshot(1, [{ address: WETH, price: 1n, source: 'test' }])
+
+    expect(await storage.rollbackToSnapshot(1, 'latest')).toBeUndefined()
+    expect(await storage.rollbackToSnapshot(1, '1e3')).toBeUndefined()
+    expect(await storage.rollbackToSnapshot(1, '42')).toBeUndefined()
+  })
+})
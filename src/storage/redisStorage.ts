@@ -1,254 +1,606 @@
-import { Redis } from '@upstash/redis'
-import { Price, SUPPORTED_CHAINS } from 'models/index'
-import { logger } from 'utils/index'
+import {
+  ChainPriceVersion,
+  CoverageReport,
+  ERC20Token,
+  Price,
+  PriceHistoryPoint,
+  PriceSnapshot,
+  RefreshJob,
+  StoredPrice,
+  SUPPORTED_CHAINS,
+} from 'models/index'
+import { computeChainVersion } from 'storage/chainVersion'
+import { diffPrices, priceChangeNotifier } from 'storage/priceEvents'
+import { createRedisClient, RedisBackend, RedisClient } from 'storage/redisClient'
+import {
+  isSnapshotId,
+  newSnapshotId,
+  SNAPSHOT_RETENTION,
+  snapshotCreatedAt,
+} from 'storage/snapshots'
+import { HISTORY_RETENTION_MS, logger, parseHistoryPoint, serializeHistoryPoint } from 'utils/index'
+
+// Finished jobs only matter to whoever triggered them
+const REFRESH_JOB_TTL_SECONDS = 7 * 24 * 60 * 60
 
-interface PriceCacheEntry extends Price {
-  timestamp: number
+interface ChainPriceData {
+  [address: string]: StoredPrice
 }
 
-interface ChainPriceData {
-  [address: string]: PriceCacheEntry
+const serializeEntry = (entry: StoredPrice): string =>
+  JSON.stringify(entry, (_, v) => (typeof v === 'bigint' ? v.toString() : v))
+
+// Hash fields hold JSON, entries of the legacy blobs arrive parsed
+const parseEntry = (value: unknown): StoredPrice | undefined => {
+  if (!value) return undefined
+  try {
+    const entry = (typeof value === 'string' ? JSON.parse(value) : value) as StoredPrice
+    if (!entry || typeof entry !== 'object' || !entry.address) return undefined
+    return {
+      ...entry,
+      address: entry.address.toLowerCase(),
+      price: BigInt(entry.price),
+    }
+  } catch (error) {
+    logger.warn('[RedisStorage] Skipping unreadable price entry:', error)
+    return undefined
+  }
 }
 
+// Tells versions apart after the meta hash of a chain was deleted and its revision restarted
+const newEpoch = (): string => Date.now().toString(36)
+
+// Same key layout over Upstash REST and the Redis protocol, so either can serve the other's data
 export class RedisStorage {
-  private redis: Redis
+  private redis: RedisClient
   private cacheTTL: number
   private keyPrefix: string = 'yprice'
+  private migrations: Map<number, Promise<void>> = new Map()
 
-  constructor(cacheTTL: number = 60) {
+  constructor(cacheTTL: number = 60, backend?: RedisBackend) {
     this.cacheTTL = cacheTTL
+    this.redis = createRedisClient(backend)
 
-    const redisUrl = process.env.UPSTASH_REDIS_REST_URL
-    const redisToken = process.env.UPSTASH_REDIS_REST_TOKEN
-
-    if (!redisUrl || !redisToken) {
-      throw new Error(
-        'Missing UPSTASH_REDIS_REST_URL or UPSTASH_REDIS_REST_TOKEN environment variables',
-      )
-    }
+    logger.info('Redis storage initialized')
+  }
 
-    this.redis = new Redis({
-      url: redisUrl,
-      token: redisToken,
-    })
+  // One hash per chain, field per address
+  private getPricesKey(chainId: number): string {
+    return `${this.keyPrefix}:prices:${chainId}`
+  }
 
-    logger.info('Redis storage initialized')
+  // Hash with the epoch, revision, lastModified, lastStored and current snapshot of a chain's prices
+  private getMetaKey(chainId: number): string {
+    return `${this.keyPrefix}:meta:${chainId}`
   }
 
-  private getChainKey(chainId: number): string {
+  // Whole-chain JSON blob and its version, the layout before prices moved to hashes
+  private getLegacyChainKey(chainId: number): string {
     return `${this.keyPrefix}:chain:${chainId}`
   }
 
+  private getLegacyVersionKey(chainId: number): string {
+    return `${this.keyPrefix}:version:${chainId}`
+  }
+
+  // Copy of a chain's prices, field per address like the live hash
+  private getSnapshotKey(chainId: number, id: string): string {
+    return `${this.keyPrefix}:snapshot:${chainId}:${id}`
+  }
+
+  // Sorted set of a chain's kept snapshot IDs, scored by publish time
+  private getSnapshotIndexKey(chainId: number): string {
+    return `${this.keyPrefix}:snapshots:${chainId}`
+  }
+
+  private getHistoryKey(chainId: number, address: string): string {
+    return `${this.keyPrefix}:history:${chainId}:${address.toLowerCase()}`
+  }
+
+  private getRegistryKey(chainId: number): string {
+    return `${this.keyPrefix}:tokens:${chainId}`
+  }
+
+  private getCoverageKey(chainId: number): string {
+    return `${this.keyPrefix}:coverage:${chainId}`
+  }
+
+  private getJobKey(id: string): string {
+    return `${this.keyPrefix}:job:${id}`
+  }
+
+  private getRefreshLockKey(chainId: number): string {
+    return `${this.keyPrefix}:refresh-lock:${chainId}`
+  }
+
+  private getRequestedKey(chainId: number): string {
+    return `${this.keyPrefix}:requested:${chainId}`
+  }
+
   public async storePrice(chainId: number, price: Price): Promise<void> {
     await this.storePrices(chainId, [price])
   }
 
+  /**
+   * Written in one transaction with HSET, so concurrent batches of a chain never overwrite each
+   * other. Only the written addresses are read first, to tell which prices changed.
+   */
   public async storePrices(chainId: number, prices: Price[]): Promise<void> {
+    await this.ensureMigrated(chainId)
     const timestamp = Date.now()
-    const key = this.getChainKey(chainId)
+    const key = this.getPricesKey(chainId)
+    const metaKey = this.getMetaKey(chainId)
+
+    const entries: StoredPrice[] = prices.map((price) => ({
+      ...price,
+      address: price.address.toLowerCase(),
+      timestamp,
+    }))
+    const previous = await this.readEntries(
+      chainId,
+      entries.map((entry) => entry.address),
+    )
+    const changes = diffPrices((address) => previous.get(address), entries)
+
+    const transaction = this.redis.multi()
+    if (entries.length > 0) {
+      transaction.hset(
+        key,
+        Object.fromEntries(entries.map((entry) => [entry.address, serializeEntry(entry)])),
+      )
+    }
+    transaction.hsetnx(metaKey, 'epoch', newEpoch())
+    if (changes.length > 0) {
+      transaction.hincrby(metaKey, 'revision', 1)
+      transaction.hset(metaKey, { lastModified: timestamp })
+    }
+    transaction.hset(metaKey, { lastStored: timestamp })
+    if (this.cacheTTL > 0) {
+      transaction.expire(key, this.cacheTTL)
+      transaction.expire(metaKey, this.cacheTTL)
+    }
+    await transaction.exec()
 
-    // Get existing chain data to merge with new prices
-    const existingData = await this.getChainData(chainId)
-    const chainData: ChainPriceData = existingData || {}
+    await this.appendHistory(chainId, prices, timestamp)
+    priceChangeNotifier.notify(chainId, changes)
 
-    // Update chain data with new prices
-    prices.forEach((price) => {
-      chainData[price.address.toLowerCase()] = {
-        ...price,
-        address: price.address.toLowerCase(),
-        timestamp,
-      }
-    })
+    logger.debug(`Stored ${prices.length} prices for chain ${chainId} in Redis`)
+  }
 
-    // Store entire chain data
-    const dataStr = JSON.stringify(chainData, (_, v) => (typeof v === 'bigint' ? v.toString() : v))
+  /**
+   * The refreshed prices, the copy of the chain's resulting prices and the switch of the current
+   * snapshot go in one transaction, readers see the chain before or after the whole refresh.
+   */
+  public async publishSnapshot(chainId: number, prices: Price[]): Promise<PriceSnapshot> {
+    await this.ensureMigrated(chainId)
+    const createdAt = Date.now()
+    const id = newSnapshotId(createdAt)
+    const key = this.getPricesKey(chainId)
+    const metaKey = this.getMetaKey(chainId)
+
+    const entries: StoredPrice[] = prices.map((price) => ({
+      ...price,
+      address: price.address.toLowerCase(),
+      timestamp: createdAt,
+    }))
+    const merged = this.toEntryMap(await this.redis.hgetall(key))
+    const changes = diffPrices((address) => merged.get(address), entries)
+    for (const entry of entries) {
+      merged.set(entry.address, entry)
+    }
+    const serialize = (list: Iterable<StoredPrice>) =>
+      Object.fromEntries(Array.from(list, (entry) => [entry.address, serializeEntry(entry)]))
 
+    const transaction = this.redis.multi()
+    if (entries.length > 0) {
+      transaction.hset(key, serialize(entries))
+    }
+    if (merged.size > 0) {
+      transaction.hset(this.getSnapshotKey(chainId, id), serialize(merged.values()))
+    }
+    transaction.zadd(this.getSnapshotIndexKey(chainId), createdAt, id)
+    transaction.hsetnx(metaKey, 'epoch', newEpoch())
+    if (changes.length > 0) {
+      transaction.hincrby(metaKey, 'revision', 1)
+      transaction.hset(metaKey, { lastModified: createdAt })
+    }
+    transaction.hset(metaKey, { lastStored: createdAt, snapshot: id })
     if (this.cacheTTL > 0) {
-      await this.redis.setex(key, this.cacheTTL, dataStr)
-    } else {
-      await this.redis.set(key, dataStr)
+      transaction.expire(key, this.cacheTTL)
+      transaction.expire(metaKey, this.cacheTTL)
     }
+    await transaction.exec()
 
-    logger.debug(`Stored ${prices.length} prices for chain ${chainId} in Redis`)
+    await this.appendHistory(chainId, prices, createdAt)
+    priceChangeNotifier.notify(chainId, changes)
+    await this.pruneSnapshots(chainId)
+
+    logger.debug(`Published snapshot ${id} of chain ${chainId} with ${merged.size} prices`)
+    return { id, chainId, createdAt, priceCount: merged.size, current: true }
+  }
+
+  public async listSnapshots(chainId: number): Promise<PriceSnapshot[]> {
+    const ids = await this.redis.zrevrange(this.getSnapshotIndexKey(chainId), 0, -1)
+    if (ids.length === 0) return []
+
+    const pipeline = this.redis.pipeline()
+    for (const id of ids) {
+      pipeline.hlen(this.getSnapshotKey(chainId, id))
+    }
+    const [counts, current] = await Promise.all([
+      pipeline.exec() as Promise<number[]>,
+      this.redis.hget(this.getMetaKey(chainId), 'snapshot'),
+    ])
+
+    return ids.map((id, index) => ({
+      id,
+      chainId,
+      createdAt: snapshotCreatedAt(id),
+      priceCount: Number(counts[index] ?? 0),
+      current: id === current,
+    }))
   }
 
-  private async getChainData(chainId: number): Promise<ChainPriceData | null> {
-    const key = this.getChainKey(chainId)
-    const data = await this.redis.get(key)
+  // Replaces every price of the chain in one transaction, prices stored since are dropped
+  public async rollbackToSnapshot(chainId: number, id: string): Promise<PriceSnapshot | undefined> {
+    // Redis rejects a NaN score, an ID that is no number is simply not a snapshot
+    if (!isSnapshotId(id)) return undefined
+    const indexed = await this.redis.zrangeByScore(
+      this.getSnapshotIndexKey(chainId),
+      snapshotCreatedAt(id),
+      snapshotCreatedAt(id),
+    )
+    if (!indexed.includes(id)) return undefined
+
+    await this.ensureMigrated(chainId)
+    const key = this.getPricesKey(chainId)
+    const metaKey = this.getMetaKey(chainId)
+    const [previous, snapshot] = await Promise.all([
+      this.redis.hgetall(key).then((fields) => this.toEntryMap(fields)),
+      this.redis
+        .hgetall(this.getSnapshotKey(chainId, id))
+        .then((fields) => this.toEntryMap(fields)),
+    ])
+    const entries = Array.from(snapshot.values())
+    const changes = diffPrices((address) => previous.get(address), entries)
+
+    const transaction = this.redis.multi()
+    transaction.del(key)
+    if (entries.length > 0) {
+      transaction.hset(
+        key,
+        Object.fromEntries(entries.map((entry) => [entry.address, serializeEntry(entry)])),
+      )
+    }
+    transaction.hsetnx(metaKey, 'epoch', newEpoch())
+    transaction.hincrby(metaKey, 'revision', 1)
+    transaction.hset(metaKey, { lastModified: Date.now(), snapshot: id })
+    if (this.cacheTTL > 0) {
+      transaction.expire(key, this.cacheTTL)
+      transaction.expire(metaKey, this.cacheTTL)
+    }
+    await transaction.exec()
+
+    priceChangeNotifier.notify(chainId, changes)
+    return {
+      id,
+      chainId,
+      createdAt: snapshotCreatedAt(id),
+      priceCount: entries.length,
+      current: true,
+    }
+  }
 
-    if (!data) return null
+  // Runs after a publish, so the current snapshot is the newest and always kept
+  private async pruneSnapshots(chainId: number): Promise<void> {
+    const indexKey = this.getSnapshotIndexKey(chainId)
+    const stale = await this.redis.zrevrange(indexKey, SNAPSHOT_RETENTION, -1)
+    if (stale.length === 0) return
 
+    const pipeline = this.redis.pipeline()
+    pipeline.del(...stale.map((id) => this.getSnapshotKey(chainId, id)))
+    pipeline.zrem(indexKey, ...stale)
     try {
-      // Handle both string and object responses from Redis
-      let chainData: ChainPriceData
-      if (typeof data === 'string') {
-        chainData = JSON.parse(data) as ChainPriceData
-      } else {
-        // If data is already an object, use it directly
-        chainData = data as ChainPriceData
-      }
+      await pipeline.exec()
+    } catch (error) {
+      logger.error(`Failed to prune price snapshots of chain ${chainId}:`, error)
+    }
+  }
 
-      // Convert string prices back to bigint
-      for (const entry of Object.values(chainData)) {
-        if (typeof entry.price === 'string') {
-          entry.price = BigInt(entry.price)
-        }
+  // One sorted set per token, scored by timestamp
+  private async appendHistory(chainId: number, prices: Price[], timestamp: number): Promise<void> {
+    if (prices.length === 0) return
+
+    const pipeline = this.redis.pipeline()
+    for (const price of prices) {
+      const key = this.getHistoryKey(chainId, price.address)
+      const member = serializeHistoryPoint({
+        address: price.address.toLowerCase(),
+        price: price.price,
+        source: price.source,
+        timestamp,
+      })
+      pipeline.zadd(key, timestamp, member)
+      if (HISTORY_RETENTION_MS > 0) {
+        pipeline.zremrangebyscore(key, 0, timestamp - HISTORY_RETENTION_MS)
       }
-      return chainData
+    }
+
+    try {
+      await pipeline.exec()
     } catch (error) {
-      logger.error(`Failed to parse chain data for chain ${chainId}:`, error)
-      return null
+      logger.error(`Failed to append price history for chain ${chainId}:`, error)
     }
   }
 
-  public async getPrice(chainId: number, address: string): Promise<Price | undefined> {
-    const chainData = await this.getChainData(chainId)
-    if (!chainData) return undefined
+  /**
+   * Chains still stored as one JSON blob are copied into the hash on first use, then the blob is
+   * dropped. Runs once per chain and process.
+   */
+  private ensureMigrated(chainId: number): Promise<void> {
+    let migration = this.migrations.get(chainId)
+    if (!migration) {
+      migration = this.migrateLegacyChain(chainId).catch((error) => {
+        // Retried on the next use
+        this.migrations.delete(chainId)
+        throw error
+      })
+      this.migrations.set(chainId, migration)
+    }
+    return migration
+  }
 
-    const entry = chainData[address.toLowerCase()]
-    if (!entry) return undefined
+  private async migrateLegacyChain(chainId: number): Promise<void> {
+    const legacyKey = this.getLegacyChainKey(chainId)
+    if (!(await this.redis.exists(legacyKey))) return
 
-    const { timestamp: _timestamp, ...price } = entry
-    return price
-  }
+    const data = await this.redis.get(legacyKey)
+    const chainData: ChainPriceData = data ? JSON.parse(data) : {}
+    const entries = Object.values(chainData)
+      .map((entry) => parseEntry(entry))
+      .filter((entry): entry is StoredPrice => !!entry)
 
-  public async listPrices(
-    chainId: number,
-  ): Promise<{ asMap: Map<string, Price>; asSlice: Price[] }> {
-    const chainData = await this.getChainData(chainId)
+    const key = this.getPricesKey(chainId)
+    const metaKey = this.getMetaKey(chainId)
+    const lastStored = entries.reduce((latest, entry) => Math.max(latest, entry.timestamp), 0)
 
-    const asMap = new Map<string, Price>()
-    const asSlice: Price[] = []
+    // Prices already written to the hash are newer than the blob
+    const written = new Set(await this.redis.hkeys(key))
+    const missing = entries.filter((entry) => !written.has(entry.address))
+
+    const pipeline = this.redis.pipeline()
+    if (missing.length > 0) {
+      pipeline.hset(
+        key,
+        Object.fromEntries(missing.map((entry) => [entry.address, serializeEntry(entry)])),
+      )
+    }
+    pipeline.hsetnx(metaKey, 'epoch', newEpoch())
+    pipeline.hsetnx(metaKey, 'revision', 1)
+    pipeline.hsetnx(metaKey, 'lastModified', lastStored)
+    pipeline.hsetnx(metaKey, 'lastStored', lastStored)
+    pipeline.del(legacyKey, this.getLegacyVersionKey(chainId))
+    await pipeline.exec()
+
+    logger.info(`Migrated ${entries.length} prices of chain ${chainId} to the per-token layout`)
+  }
 
-    if (!chainData) {
-      return { asMap, asSlice }
+  // HMGET of only the requested addresses
+  private async readEntries(
+    chainId: number,
+    addresses: string[],
+  ): Promise<Map<string, StoredPrice>> {
+    const entries = new Map<string, StoredPrice>()
+    if (addresses.length === 0) return entries
+
+    const values = await this.redis.hmget(
+      this.getPricesKey(chainId),
+      addresses.map((address) => address.toLowerCase()),
+    )
+    for (const value of values) {
+      const entry = parseEntry(value)
+      if (entry) entries.set(entry.address, entry)
     }
+    return entries
+  }
 
-    for (const [, entry] of Object.entries(chainData)) {
-      const { timestamp: _timestamp, ...price } = entry
-      asMap.set(price.address, price)
-      asSlice.push(price)
+  private toEntryMap(fields: Record<string, string> | null): Map<string, StoredPrice> {
+    const entries = new Map<string, StoredPrice>()
+    for (const value of Object.values(fields || {})) {
+      const entry = parseEntry(value)
+      if (entry) entries.set(entry.address, entry)
     }
+    return entries
+  }
+
+  public async getPrice(chainId: number, address: string): Promise<StoredPrice | undefined> {
+    await this.ensureMigrated(chainId)
+    const value = await this.redis.hget(this.getPricesKey(chainId), address.toLowerCase())
+    return parseEntry(value)
+  }
 
-    return { asMap, asSlice }
+  public async getPrices(chainId: number, addresses: string[]): Promise<Map<string, StoredPrice>> {
+    await this.ensureMigrated(chainId)
+    return this.readEntries(chainId, addresses)
   }
 
-  public async getAllPrices(): Promise<Map<number, Map<string, Price>>> {
-    const allPrices = new Map<number, Map<string, Price>>()
+  public async listPrices(
+    chainId: number,
+  ): Promise<{ asMap: Map<string, StoredPrice>; asSlice: StoredPrice[] }> {
+    await this.ensureMigrated(chainId)
+    const asMap = this.toEntryMap(await this.redis.hgetall(this.getPricesKey(chainId)))
+    return { asMap, asSlice: Array.from(asMap.values()) }
+  }
 
-    // Get all chain keys at once
+  public async getAllPrices(): Promise<Map<number, Map<string, StoredPrice>>> {
+    const allPrices = new Map<number, Map<string, StoredPrice>>()
     const chainIds = Object.values(SUPPORTED_CHAINS).map((c) => c.id)
-    logger.info(`[RedisStorage] Fetching prices for chains: ${chainIds.join(', ')}`)
+    await Promise.all(chainIds.map((chainId) => this.ensureMigrated(chainId)))
 
     const pipeline = this.redis.pipeline()
-
     for (const chainId of chainIds) {
-      const key = this.getChainKey(chainId)
-      logger.debug(`[RedisStorage] Adding key to pipeline: ${key}`)
-      pipeline.get(key)
+      pipeline.hgetall(this.getPricesKey(chainId))
     }
+    const results = (await pipeline.exec()) as Array<Record<string, string> | null>
 
-    const results = await pipeline.exec()
-    logger.info(`[RedisStorage] Pipeline returned ${results.length} results`)
-
-    for (let i = 0; i < results.length; i++) {
-      const chainId = chainIds[i]
-      if (!chainId) continue
-      const result = results[i]
+    chainIds.forEach((chainId, index) => {
+      const chainMap = this.toEntryMap(results[index] ?? null)
+      if (chainMap.size > 0) {
+        allPrices.set(chainId, chainMap)
+      } else {
+        logger.debug(`[RedisStorage] No prices found for chain ${chainId}`)
+      }
+    })
 
-      logger.debug(
-        `[RedisStorage] Result for chain ${chainId}:`,
-        JSON.stringify(result).substring(0, 200),
-      )
+    return allPrices
+  }
 
-      // Handle different response formats from Redis pipeline
-      let rawData = null
-      if (result !== null && result !== undefined) {
-        // Check if result is wrapped in { result: ... } format
-        if (typeof result === 'object' && 'result' in result) {
-          rawData = result.result
-        } else {
-          // Direct result from pipeline
-          rawData = result
-        }
+  /**
+   * The version is the epoch and revision of the chain's meta hash. The revision only moves when
+   * a stored price changes, so re-storing the same prices keeps the same version.
+   */
+  public async getChainVersion(chainId: number): Promise<ChainPriceVersion | undefined> {
+    await this.ensureMigrated(chainId)
+    const pipeline = this.redis.pipeline()
+    pipeline.hgetall(this.getMetaKey(chainId))
+    pipeline.hlen(this.getPricesKey(chainId))
+    const [meta, priceCount] = (await pipeline.exec()) as [
+      Record<string, string | number> | null,
+      number,
+    ]
+
+    if (!meta?.revision) {
+      if (!priceCount) return undefined
+      // Meta expired or was removed while prices remain, hash the content instead
+      const { asSlice } = await this.listPrices(chainId)
+      const lastStored = asSlice.reduce((latest, entry) => Math.max(latest, entry.timestamp), 0)
+      return {
+        version: computeChainVersion(asSlice),
+        lastModified: lastStored,
+        lastStored,
+        priceCount,
       }
+    }
+
+    return {
+      version: `${meta.epoch}:${meta.revision}`,
+      lastModified: Number(meta.lastModified ?? 0),
+      lastStored: Number(meta.lastStored ?? meta.lastModified ?? 0),
+      priceCount,
+    }
+  }
 
-      if (rawData) {
-        try {
-          let chainData: ChainPriceData
+  public async getPriceHistory(
+    chainId: number,
+    address: string,
+    from: number,
+    to: number,
+  ): Promise<PriceHistoryPoint[]> {
+    const members = await this.redis.zrangeByScore(this.getHistoryKey(chainId, address), from, to)
+
+    return members
+      .map((member) => parseHistoryPoint(member))
+      .filter((point): point is PriceHistoryPoint => !!point)
+  }
 
-          logger.debug(`[RedisStorage] Raw data type for chain ${chainId}: ${typeof rawData}`)
-          logger.debug(
-            `[RedisStorage] Raw data sample for chain ${chainId}: ${JSON.stringify(rawData).substring(0, 200)}`,
-          )
+  // One hash per chain, field per address. Never expires, unlike the price blobs.
+  public async addRequestedToken(chainId: number, token: ERC20Token): Promise<void> {
+    const address = token.address.toLowerCase()
+    await this.redis.hset(this.getRequestedKey(chainId), {
+      [address]: JSON.stringify({ ...token, address }),
+    })
+  }
 
-          // Handle both string and object responses from Redis
-          if (typeof rawData === 'string') {
-            chainData = JSON.parse(rawData) as ChainPriceData
-          } else {
-            chainData = rawData as ChainPriceData
-          }
+  public async getRequestedTokens(chainId: number): Promise<ERC20Token[]> {
+    const tokens = await this.redis.hgetall(this.getRequestedKey(chainId))
+    return Object.values(tokens).map((token) => JSON.parse(token) as ERC20Token)
+  }
 
-          const chainMap = new Map<string, Price>()
+  // Replaced as a whole after every full discovery, in a transaction so it is never read empty
+  public async storeTokenRegistry(chainId: number, tokens: ERC20Token[]): Promise<void> {
+    const key = this.getRegistryKey(chainId)
+    const transaction = this.redis.multi()
+    transaction.del(key)
+    if (tokens.length > 0) {
+      transaction.hset(
+        key,
+        Object.fromEntries(
+          tokens.map((token) => [token.address.toLowerCase(), JSON.stringify(token)]),
+        ),
+      )
+    }
+    await transaction.exec()
+  }
 
-          logger.debug(
-            `[RedisStorage] Chain data keys for chain ${chainId}: ${Object.keys(chainData).slice(0, 5).join(', ')}...`,
-          )
+  public async getTokenRegistry(chainId: number): Promise<ERC20Token[]> {
+    const tokens = await this.redis.hgetall(this.getRegistryKey(chainId))
+    return Object.values(tokens).map((token) => JSON.parse(token) as ERC20Token)
+  }
 
-          for (const [, entry] of Object.entries(chainData)) {
-            if (!entry || typeof entry !== 'object') {
-              logger.warn(`[RedisStorage] Invalid entry in chain ${chainId}:`, entry)
-              continue
-            }
+  public async getRegistryToken(chainId: number, address: string): Promise<ERC20Token | undefined> {
+    const token = await this.redis.hget(this.getRegistryKey(chainId), address.toLowerCase())
+    return token ? (JSON.parse(token) as ERC20Token) : undefined
+  }
 
-            if (typeof entry.price === 'string') {
-              entry.price = BigInt(entry.price)
-            }
-            const { timestamp: _timestamp, ...price } = entry
-            chainMap.set(price.address, price)
-          }
+  // Only the latest refresh run is kept
+  public async storeCoverageReport(chainId: number, report: CoverageReport): Promise<void> {
+    await this.redis.set(this.getCoverageKey(chainId), JSON.stringify(report))
+  }
 
-          if (chainMap.size > 0) {
-            logger.info(`[RedisStorage] Found ${chainMap.size} prices for chain ${chainId}`)
-            allPrices.set(chainId, chainMap)
-          } else {
-            logger.warn(`[RedisStorage] No prices found for chain ${chainId}`)
-          }
-        } catch (error) {
-          logger.error(`[RedisStorage] Failed to parse chain data for chain ${chainId}:`, error)
-        }
-      } else {
-        logger.debug(`[RedisStorage] No data found for chain ${chainId}`)
-      }
+  public async getCoverageReport(chainId: number): Promise<CoverageReport | undefined> {
+    const report = await this.redis.get(this.getCoverageKey(chainId))
+    return report ? JSON.parse(report) : undefined
+  }
+
+  public async storeRefreshJob(job: RefreshJob): Promise<void> {
+    await this.redis.setex(this.getJobKey(job.id), REFRESH_JOB_TTL_SECONDS, JSON.stringify(job))
+  }
+
+  public async getRefreshJob(id: string): Promise<RefreshJob | undefined> {
+    const job = await this.redis.get(this.getJobKey(id))
+    return job ? JSON.parse(job) : undefined
+  }
+
+  public async acquireRefreshLock(chainId: number, jobId: string, ttlMs: number): Promise<string> {
+    const key = this.getRefreshLockKey(chainId)
+    const seconds = Math.max(1, Math.ceil(ttlMs / 1000))
+    // The holder may release between the two commands, then the lock is tried once more
+    for (let attempt = 0; attempt < 2; attempt++) {
+      if (await this.redis.setnx(key, jobId, seconds)) return jobId
+      const holder = await this.redis.get(key)
+      if (holder) return holder
     }
+    throw new Error(`Failed to take the refresh lock of chain ${chainId}`)
+  }
 
-    logger.info(`[RedisStorage] Final result: ${allPrices.size} chains with prices`)
-    return allPrices
+  public async releaseRefreshLock(chainId: number, jobId: string): Promise<void> {
+    await this.redis.delIfEquals(this.getRefreshLockKey(chainId), jobId)
   }
 
   public async clearCache(chainId?: number): Promise<void> {
-    if (chainId) {
-      await this.redis.del(this.getChainKey(chainId))
-      logger.info(`Cleared prices for chain ${chainId}`)
-    } else {
-      // Clear all chains
-      const chainIds = Object.values(SUPPORTED_CHAINS).map((c) => c.id)
-      const pipeline = this.redis.pipeline()
-
-      for (const id of chainIds) {
-        pipeline.del(this.getChainKey(id))
-      }
-
-      await pipeline.exec()
-      logger.info(`Cleared prices for all chains`)
+    const chainIds = chainId ? [chainId] : Object.values(SUPPORTED_CHAINS).map((c) => c.id)
+    const pipeline = this.redis.pipeline()
+    for (const id of chainIds) {
+      pipeline.del(
+        this.getPricesKey(id),
+        this.getMetaKey(id),
+        this.getLegacyChainKey(id),
+        this.getLegacyVersionKey(id),
+      )
     }
+    await pipeline.exec()
+    logger.info(chainId ? `Cleared prices for chain ${chainId}` : 'Cleared prices for all chains')
+  }
+
+  public async ping(): Promise<void> {
+    await this.redis.ping()
   }
 
   public async getStats(chainId?: number): Promise<any> {
     if (chainId) {
-      const chainData = await this.getChainData(chainId)
+      await this.ensureMigrated(chainId)
       return {
-        priceCount: chainData ? Object.keys(chainData).length : 0,
+        priceCount: await this.redis.hlen(this.getPricesKey(chainId)),
         chainId,
       }
     }
@@ -260,6 +612,39 @@ export class RedisStorage {
     return stats
   }
 
+  // Swaps every price of a chain in one transaction, prices still in the legacy blob are dropped
+  public async restorePrices(chainId: number, entries: StoredPrice[]): Promise<void> {
+    const key = this.getPricesKey(chainId)
+    const metaKey = this.getMetaKey(chainId)
+    const now = Date.now()
+    const previous = this.toEntryMap(await this.redis.hgetall(key))
+    const changes = diffPrices(
+      (address) => previous.get(address),
+      entries.map((entry) => ({ ...entry, address: entry.address.toLowerCase() })),
+    )
+
+    const transaction = this.redis.multi()
+    transaction.del(key, this.getLegacyChainKey(chainId), this.getLegacyVersionKey(chainId))
+    if (entries.length > 0) {
+      transaction.hset(
+        key,
+        Object.fromEntries(
+          entries.map((entry) => [entry.address.toLowerCase(), serializeEntry(entry)]),
+        ),
+      )
+    }
+    transaction.hsetnx(metaKey, 'epoch', newEpoch())
+    transaction.hincrby(metaKey, 'revision', 1)
+    transaction.hset(metaKey, { lastModified: now, lastStored: now })
+    if (this.cacheTTL > 0) {
+      transaction.expire(key, this.cacheTTL)
+      transaction.expire(metaKey, this.cacheTTL)
+    }
+    await transaction.exec()
+    this.migrations.set(chainId, Promise.resolve())
+    priceChangeNotifier.notify(chainId, changes)
+  }
+
   /**
    * Load backup data from file storage into Redis
    * This is useful for migrating from file to Redis storage
@@ -283,7 +668,7 @@ export class RedisStorage {
         const fileData = fs.readFileSync(backupFile, 'utf8')
         const rawPrices = JSON.parse(fileData)
 
-        // Handle both old format (Record<string, PriceCacheEntry>) and new format
+        // Handle both old format (Record<string, StoredPrice>) and new format
         const chainData: ChainPriceData = {}
 
         // Check if it's already in the new format (object with address keys)
@@ -305,17 +690,7 @@ export class RedisStorage {
           }
         }
 
-        // Store entire chain data at once
-        const key = this.getChainKey(chain.id)
-        const dataStr = JSON.stringify(chainData, (_, v) =>
-          typeof v === 'bigint' ? v.toString() : v,
-        )
-
-        if (this.cacheTTL > 0) {
-          await this.redis.setex(key, this.cacheTTL, dataStr)
-        } else {
-          await this.redis.set(key, dataStr)
-        }
+        await this.restorePrices(chain.id, Object.values(chainData))
 
         const priceCount = Object.keys(chainData).length
         if (priceCount > 0) {
@@ -0,0 +1,127 @@
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { Price, PriceSnapshot, StoredPrice } from 'models/index'
+import { PriceStorage } from 'storage/priceStorage'
+import { SNAPSHOT_RETENTION } from 'storage/snapshots'
+import { SqliteStorage } from 'storage/sqliteStorage'
+
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2'
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'
+const DAI = '0x6b175474e89094c44da98b954eedeac495271d0f'
+const NOW = 1_700_000_000_000
+
+// The backends that run without a server, both synchronous
+interface SnapshotBackend {
+  publishSnapshot(chainId: number, prices: Price[]): PriceSnapshot
+  listSnapshots(chainId: number): PriceSnapshot[]
+  rollbackToSnapshot(chainId: number, id: string): PriceSnapshot | undefined
+  storePrices(chainId: number, prices: Price[]): void
+  listPrices(chainId: number): { asMap: Map<string, StoredPrice>; asSlice: StoredPrice[] }
+  getChainVersion(chainId: number): { version: string } | undefined
+}
+
+let dataDir: string
+let clock: number
+
+beforeAll(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'yprice-snapshots-'))
+})
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true })
+})
+
+beforeEach(() => {
+  // Snapshot IDs are publish times, every call gets its own millisecond
+  clock = NOW
+  jest.spyOn(Date, 'now').mockImplementation(() => clock++)
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+const price = (address: string, value: bigint): Price => ({
+  address,
+  price: value,
+  source: 'test',
+})
+
+const prices = (storage: SnapshotBackend) =>
+  Object.fromEntries(storage.listPrices(1).asSlice.map((entry) => [entry.address, entry.price]))
+
+describe.each<[string, (location: string) => SnapshotBackend]>([
+  ['file', (location) => new PriceStorage(0, location)],
+  ['sqlite', (location) => new SqliteStorage(0, `${location}.db`)],
+])('%s snapshots', (_, create) => {
+  let storage: SnapshotBackend
+
+  beforeEach(() => {
+    storage = create(fs.mkdtempSync(path.join(dataDir, 'storage-')))
+  })
+
+  it('copies every price of the chain, not only the published ones', () => {
+    storage.storePrices(1, [price(DAI, 1_000_000n)])
+    const snapshot = storage.publishSnapshot(1, [price(WETH, 3_000_000_000n)])
+
+    expect(snapshot).toMatchObject({ chainId: 1, priceCount: 2, current: true })
+    expect(storage.listSnapshots(1)).toEqual([snapshot])
+  })
+
+  it('lists snapshots newest first with only the last one current', () => {
+    const first = storage.publishSnapshot(1, [price(WETH, 1n)])
+    const second = storage.publishSnapshot(1, [price(USDC, 2n)])
+
+    expect(storage.listSnapshots(1)).toEqual([second, { ...first, current: false }])
+    expect(storage.listSnapshots(10)).toEqual([])
+  })
+
+  it('rolls back to the prices of a snapshot, dropping prices stored since', () => {
+    const first = storage.publishSnapshot(1, [price(WETH, 1n)])
+    storage.publishSnapshot(1, [price(WETH, 2n), price(USDC, 3n)])
+    storage.storePrices(1, [price(DAI, 4n)])
+    const before = storage.getChainVersion(1)?.version
+
+    expect(storage.rollbackToSnapshot(1, first.id)).toEqual({ ...first, current: true })
+    expect(prices(storage)).toEqual({ [WETH]: 1n })
+    expect(storage.getChainVersion(1)?.version).not.toBe(before)
+    expect(storage.listSnapshots(1).map((snapshot) => snapshot.current)).toEqual([false, true])
+  })
+
+  it('builds the next snapshot on the rolled back prices', () => {
+    const first = storage.publishSnapshot(1, [price(WETH, 1n)])
+    storage.publishSnapshot(1, [price(USDC, 2n)])
+    storage.rollbackToSnapshot(1, first.id)
+
+    const next = storage.publishSnapshot(1, [price(DAI, 3n)])
+    expect(next.priceCount).toBe(2)
+    expect(prices(storage)).toEqual({ [DAI]: 3n, [WETH]: 1n })
+  })
+
+  it('leaves the prices alone for unknown snapshots', () => {
+    storage.publishSnapshot(1, [price(WETH, 1n)])
+
+    expect(storage.rollbackToSnapshot(1, '42')).toBeUndefined()
+    expect(storage.rollbackToSnapshot(1, 'latest')).toBeUndefined()
+    expect(storage.rollbackToSnapshot(1, '../../chain_1')).toBeUndefined()
+    // Snapshots belong to their chain
+    expect(storage.rollbackToSnapshot(10, storage.listSnapshots(1)[0]?.id ?? '')).toBeUndefined()
+    expect(prices(storage)).toEqual({ [WETH]: 1n })
+  })
+
+  it(`keeps the newest ${SNAPSHOT_RETENTION} snapshots`, () => {
+    const published = Array.from({ length: SNAPSHOT_RETENTION + 2 }, (_, index) =>
+      storage.publishSnapshot(1, [price(WETH, BigInt(index))]),
+    )
+
+    const kept = storage.listSnapshots(1).map((snapshot) => snapshot.id)
+    expect(kept).toEqual(
+      published
+        .slice(-SNAPSHOT_RETENTION)
+        .map((snapshot) => snapshot.id)
+        .reverse(),
+    )
+    expect(storage.rollbackToSnapshot(1, published[0]?.id ?? '')).toBeUndefined()
+  })
+})
@@ -0,0 +1,15 @@
+// Snapshots kept per chain, the current one included
+export const SNAPSHOT_RETENTION = Math.max(
+  1,
+  parseInt(process.env.PRICE_SNAPSHOT_RETENTION || '5', 10),
+)
+
+/**
+ * Snapshot IDs are their publish time in ms, so they sort by age and carry their creation time
+ */
+export const newSnapshotId = (createdAt: number): string => createdAt.toString()
+
+export const snapshotCreatedAt = (id: string): number => parseInt(id, 10)
+
+// IDs from the CLI or a request are checked before they reach a query or a path
+export const isSnapshotId = (id: string): boolean => /^\d+$/.test(id)
@@ -0,0 +1,273 @@
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import Database from 'better-sqlite3'
+import { RefreshJob } from 'models/index'
+import { SqliteStorage } from 'storage/sqliteStorage'
+
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2'
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'
+const NOW = 1_700_000_000_000
+
+let dataDir: string
+let dbPath: string
+let storage: SqliteStorage
+
+const at = (time: number) => jest.spyOn(Date, 'now').mockReturnValue(time)
+
+beforeAll(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'yprice-sqlite-'))
+})
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true })
+})
+
+beforeEach(() => {
+  // A new database per test
+  dbPath = path.join(dataDir, `${expect.getState().currentTestName?.replace(/\W+/g, '-')}.db`)
+  at(NOW)
+  storage = new SqliteStorage(0, dbPath)
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe('SqliteStorage prices', () => {
+  it('stores prices by lowercased address with every field', () => {
+    storage.storePrices(1, [
+      {
+        address: WETH.toUpperCase().replace('0X', '0x'),
+        price: 3_000_000_000n,
+        source: 'curve',
+        symbol: 'WETH',
+        derivation: { method: 'share-value', underlying: USDC, inputs: { shares: '1' } },
+      },
+    ])
+
+    expect(storage.getPrice(1, WETH)).toEqual({
+      address: WETH,
+      price: 3_000_000_000n,
+      source: 'curve',
+      symbol: 'WETH',
+      derivation: { method: 'share-value', underlying: USDC, inputs: { shares: '1' } },
+      timestamp: NOW,
+    })
+    expect(storage.getPrice(10, WETH)).toBeUndefined()
+  })
+
+  it('keeps prices above the range of a double', () => {
+    storage.storePrice(1, { address: WETH, price: 2n ** 100n, source: 'test' })
+    expect(storage.getPrice(1, WETH)?.price).toBe(2n ** 100n)
+  })
+
+  it('reads some, all or every chain of the prices', () => {
+    storage.storePrices(1, [
+      { address: WETH, price: 1n, source: 'test' },
+      { address: USDC, price: 2n, source: 'test' },
+    ])
+    storage.storePrices(10, [{ address: WETH, price: 3n, source: 'test' }])
+
+    expect(Array.from(storage.getPrices(1, [USDC, '0xmissing']).keys())).toEqual([USDC])
+    expect(storage.listPrices(1).asSlice).toHaveLength(2)
+    const all = storage.getAllPrices()
+    expect(Array.from(all.keys()).sort()).toEqual([1, 10])
+    expect(all.get(10)?.get(WETH)?.price).toBe(3n)
+    expect(storage.getStats(1)).toEqual({ priceCount: 2, chainId: 1 })
+  })
+
+  it('expires prices after the cache TTL', () => {
+    const expiring = new SqliteStorage(60, dbPath)
+    expiring.storePrices(1, [{ address: WETH, price: 1n, source: 'test' }])
+
+    at(NOW + 60_000)
+    expect(expiring.getPrice(1, WETH)).toBeDefined()
+    at(NOW + 60_001)
+    expect(expiring.getPrice(1, WETH)).toBeUndefined()
+    expect(expiring.listPrices(1).asSlice).toEqual([])
+    expect(expiring.getChainVersion(1)).toBeUndefined()
+  })
+
+  it('serves restored prices for a full TTL and keeps their timestamps', () => {
+    const expiring = new SqliteStorage(60, dbPath)
+    expiring.restorePrices(1, [
+      { address: WETH, price: 1n, source: 'backup', timestamp: NOW - 3_600_000 },
+    ])
+    expect(expiring.getPrice(1, WETH)?.timestamp).toBe(NOW - 3_600_000)
+
+    // A later write must not drop them as expired
+    at(NOW + 30_000)
+    expiring.storePrices(1, [{ address: USDC, price: 2n, source: 'test' }])
+    expect(expiring.listPrices(1).asSlice).toHaveLength(2)
+    expect(expiring.getChainVersion(1)?.priceCount).toBe(2)
+
+    at(NOW + 60_001)
+    expect(expiring.getPrice(1, WETH)).toBeUndefined()
+  })
+
+  it('serves rolled back prices for a full TTL', () => {
+    const expiring = new SqliteStorage(60, dbPath)
+    const snapshot = expiring.publishSnapshot(1, [{ address: WETH, price: 1n, source: 'test' }])
+
+    at(NOW + 50_000)
+    expiring.publishSnapshot(1, [{ address: WETH, price: 2n, source: 'test' }])
+    at(NOW + 120_000)
+    expiring.rollbackToSnapshot(1, snapshot.id)
+    expect(expiring.getPrice(1, WETH)).toMatchObject({ price: 1n, timestamp: NOW })
+    expiring.storePrices(1, [{ address: USDC, price: 2n, source: 'test' }])
+    expect(expiring.getPrice(1, WETH)?.price).toBe(1n)
+  })
+
+  it('expires prices of databases created before stored_at by their timestamp', () => {
+    const db = new Database(dbPath)
+    db.exec(`
+      DROP TABLE prices;
+      CREATE TABLE prices (
+        chain_id INTEGER NOT NULL, address TEXT NOT NULL, price TEXT NOT NULL,
+        source TEXT NOT NULL, symbol TEXT, derivation TEXT, timestamp INTEGER NOT NULL,
+        PRIMARY KEY (chain_id, address)
+      ) WITHOUT ROWID;
+      CREATE INDEX prices_chain_timestamp ON prices (chain_id, timestamp);
+    `)
+    db.prepare(
+      "INSERT INTO prices (chain_id, address, price, source, timestamp) VALUES (1, ?, '1', 'test', ?)",
+    ).run(WETH, NOW - 30_000)
+    db.close()
+
+    const upgraded = new SqliteStorage(60, dbPath)
+    expect(upgraded.getPrice(1, WETH)?.timestamp).toBe(NOW - 30_000)
+    at(NOW + 30_001)
+    expect(upgraded.getPrice(1, WETH)).toBeUndefined()
+  })
+
+  it('clears the prices of a chain and keeps their history', () => {
+    storage.storePrices(1, [{ address: WETH, price: 1n, source: 'test' }])
+    storage.storePrices(10, [{ address: WETH, price: 1n, source: 'test' }])
+
+    storage.clearCache(1)
+    expect(storage.getPrice(1, WETH)).toBeUndefined()
+    expect(storage.getPrice(10, WETH)).toBeDefined()
+    expect(storage.getPriceHistory(1, WETH, 0, NOW)).toHaveLength(1)
+  })
+
+  it('persists across connections to the same file', () => {
+    storage.storePrices(1, [{ address: WETH, price: 1n, source: 'test' }])
+    expect(new SqliteStorage(0, dbPath).getPrice(1, WETH)?.price).toBe(1n)
+  })
+})
+
+describe('SqliteStorage versions', () => {
+  it('has no version before prices are stored', () => {
+    expect(storage.getChainVersion(1)).toBeUndefined()
+  })
+
+  it('moves the revision only when a price changes', () => {
+    storage.storePrices(1, [{ address: WETH, price: 1n, source: 'test' }])
+    const first = storage.getChainVersion(1)
+    expect(first).toMatchObject({ lastModified: NOW, lastStored: NOW, priceCount: 1 })
+
+    at(NOW + 1000)
+    storage.storePrices(1, [{ address: WETH, price: 1n, source: 'test' }])
+    const same = storage.getChainVersion(1)
+    expect(same?.version).toBe(first?.version)
+    expect(same).toMatchObject({ lastModified: NOW, lastStored: NOW + 1000 })
+
+    at(NOW + 2000)
+    storage.storePrices(1, [{ address: WETH, price: 2n, source: 'test' }])
+    const changed = storage.getChainVersion(1)
+    expect(changed?.version).not.toBe(first?.version)
+    expect(changed?.lastModified).toBe(NOW + 2000)
+  })
+
+  it('moves the revision on a restore', () => {
+    storage.storePrices(1, [{ address: WETH, price: 1n, source: 'test' }])
+    const before = storage.getChainVersion(1)?.version
+
+    storage.restorePrices(1, [{ address: USDC, price: 5n, source: 'backup', timestamp: NOW - 1 }])
+    expect(storage.getChainVersion(1)?.version).not.toBe(before)
+    expect(storage.listPrices(1).asSlice).toEqual([
+      { address: USDC, price: 5n, source: 'backup', timestamp: NOW - 1 },
+    ])
+  })
+})
+
+describe('SqliteStorage history', () => {
+  it('returns the points of a token in a time range, oldest first', () => {
+    for (const [offset, price] of [
+      [0, 1n],
+      [1000, 2n],
+      [2000, 3n],
+    ] as const) {
+      at(NOW + offset)
+      storage.storePrices(1, [{ address: WETH, price, source: 'test' }])
+    }
+
+    expect(
+      storage.getPriceHistory(1, WETH.toUpperCase().replace('0X', '0x'), NOW, NOW + 1000),
+    ).toEqual([
+      { address: WETH, timestamp: NOW, price: 1n, source: 'test' },
+      { address: WETH, timestamp: NOW + 1000, price: 2n, source: 'test' },
+    ])
+    expect(storage.getPriceHistory(1, USDC, 0, NOW + 2000)).toEqual([])
+  })
+})
+
+describe('SqliteStorage tokens and jobs', () => {
+  const token = {
+    address: WETH,
+    chainId: 1,
+    name: 'Wrapped Ether',
+    symbol: 'WETH',
+    decimals: 18,
+  }
+
+  it('replaces the token registry as a whole', () => {
+    storage.storeTokenRegistry(1, [token, { ...token, address: USDC, symbol: 'USDC' }])
+    storage.storeTokenRegistry(1, [{ ...token, address: USDC, symbol: 'USDC' }])
+
+    expect(storage.getTokenRegistry(1).map((entry) => entry.address)).toEqual([USDC])
+    expect(storage.getRegistryToken(1, WETH)).toBeUndefined()
+    expect(storage.getRegistryToken(1, USDC.toUpperCase().replace('0X', '0x'))?.symbol).toBe('USDC')
+  })
+
+  it('keeps one entry per requested token', () => {
+    storage.addRequestedToken(1, token)
+    storage.addRequestedToken(1, { ...token, address: WETH.toUpperCase().replace('0X', '0x') })
+    expect(storage.getRequestedTokens(1)).toEqual([token])
+  })
+
+  it('stores refresh jobs until they expire', () => {
+    const job: RefreshJob = { id: 'job-1', chainId: 1, status: 'running', startedAt: NOW }
+    storage.storeRefreshJob(job)
+    expect(storage.getRefreshJob('job-1')).toEqual(job)
+
+    at(NOW + 8 * 24 * 60 * 60 * 1000)
+    expect(storage.getRefreshJob('job-1')).toBeUndefined()
+  })
+})
+
+describe('SqliteStorage refresh lock', () => {
+  it('hands the lock to one job at a time, across connections', () => {
+    const other = new SqliteStorage(0, dbPath)
+    expect(storage.acquireRefreshLock(1, 'a', 60_000)).toBe('a')
+    expect(other.acquireRefreshLock(1, 'b', 60_000)).toBe('a')
+    // Locks are per chain
+    expect(other.acquireRefreshLock(10, 'b', 60_000)).toBe('b')
+  })
+
+  it('is only released by its holder', () => {
+    storage.acquireRefreshLock(1, 'a', 60_000)
+    storage.releaseRefreshLock(1, 'b')
+    expect(storage.acquireRefreshLock(1, 'b', 60_000)).toBe('a')
+
+    storage.releaseRefreshLock(1, 'a')
+    expect(storage.acquireRefreshLock(1, 'b', 60_000)).toBe('b')
+  })
+
+  it('can be taken over once expired', () => {
+    storage.acquireRefreshLock(1, 'a', 60_000)
+    at(NOW + 60_001)
+    expect(storage.acquireRefreshLock(1, 'b', 60_000)).toBe('b')
+  })
+})
@@ -0,0 +1,683 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import Database from 'better-sqlite3'
+import {
+  ChainPriceVersion,
+  CoverageReport,
+  ERC20Token,
+  Price,
+  PriceHistoryPoint,
+  PriceSnapshot,
+  RefreshJob,
+  StoredPrice,
+  SUPPORTED_CHAINS,
+} from 'models/index'
+import { diffPrices, priceChangeNotifier } from 'storage/priceEvents'
+import { newSnapshotId, SNAPSHOT_RETENTION } from 'storage/snapshots'
+import { HISTORY_RETENTION_MS, logger } from 'utils/index'
+
+// Finished jobs only matter to whoever triggered them
+const REFRESH_JOB_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+// Every statement is idempotent, the schema is applied each time the database is opened
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS prices (
+    chain_id INTEGER NOT NULL,
+    address TEXT NOT NULL,
+    price TEXT NOT NULL,
+    source TEXT NOT NULL,
+    symbol TEXT,
+    derivation TEXT,
+    timestamp INTEGER NOT NULL,
+    -- Write time the TTL runs from, restores reset it and keep the price's timestamp
+    stored_at INTEGER NOT NULL,
+    PRIMARY KEY (chain_id, address)
+  ) WITHOUT ROWID;
+
+  CREATE TABLE IF NOT EXISTS chain_versions (
+    chain_id INTEGER PRIMARY KEY,
+    epoch TEXT NOT NULL,
+    revision INTEGER NOT NULL,
+    last_modified INTEGER NOT NULL,
+    last_stored INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS price_history (
+    chain_id INTEGER NOT NULL,
+    address TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    price TEXT NOT NULL,
+    source TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS price_history_token ON price_history (chain_id, address, timestamp);
+  CREATE INDEX IF NOT EXISTS price_history_chain_timestamp ON price_history (chain_id, timestamp);
+
+  CREATE TABLE IF NOT EXISTS tokens (
+    chain_id INTEGER NOT NULL,
+    address TEXT NOT NULL,
+    symbol TEXT NOT NULL,
+    is_vault INTEGER NOT NULL,
+    underlying TEXT,
+    data TEXT NOT NULL,
+    PRIMARY KEY (chain_id, address)
+  ) WITHOUT ROWID;
+
+  CREATE TABLE IF NOT EXISTS requested_tokens (
+    chain_id INTEGER NOT NULL,
+    address TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (chain_id, address)
+  ) WITHOUT ROWID;
+
+  CREATE TABLE IF NOT EXISTS coverage_reports (
+    chain_id INTEGER PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS snapshots (
+    chain_id INTEGER NOT NULL,
+    id TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    price_count INTEGER NOT NULL,
+    PRIMARY KEY (chain_id, id)
+  ) WITHOUT ROWID;
+
+  CREATE TABLE IF NOT EXISTS snapshot_prices (
+    chain_id INTEGER NOT NULL,
+    snapshot_id TEXT NOT NULL,
+    address TEXT NOT NULL,
+    price TEXT NOT NULL,
+    source TEXT NOT NULL,
+    symbol TEXT,
+    derivation TEXT,
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (chain_id, snapshot_id, address)
+  ) WITHOUT ROWID;
+
+  -- The snapshot each chain serves, the last one published or rolled back to
+  CREATE TABLE IF NOT EXISTS current_snapshots (
+    chain_id INTEGER PRIMARY KEY,
+    snapshot_id TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS refresh_jobs (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+
+  -- The job refreshing each chain, shared by every process using the database
+  CREATE TABLE IF NOT EXISTS refresh_locks (
+    chain_id INTEGER PRIMARY KEY,
+    job_id TEXT NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+`
+
+interface PriceRow {
+  chain_id: number
+  address: string
+  price: string
+  source: string
+  symbol: string | null
+  derivation: string | null
+  timestamp: number
+  stored_at: number
+}
+
+interface SnapshotRow {
+  id: string
+  created_at: number
+  price_count: number
+  current: number
+}
+
+interface ChainVersionRow {
+  epoch: string
+  revision: number
+  last_modified: number
+  last_stored: number
+}
+
+const toStoredPrice = (row: PriceRow): StoredPrice => ({
+  address: row.address,
+  price: BigInt(row.price),
+  source: row.source,
+  ...(row.symbol !== null && { symbol: row.symbol }),
+  ...(row.derivation !== null && { derivation: JSON.parse(row.derivation) }),
+  timestamp: row.timestamp,
+})
+
+// Tells versions apart after the database was recreated and revisions restarted
+const newEpoch = (): string => Date.now().toString(36)
+
+/**
+ * Prices, tokens and history in one SQLite file, for self-hosted deployments without Redis. The
+ * refresh job and the API can open the same file, WAL mode lets readers run during a refresh.
+ */
+export class SqliteStorage {
+  private db: Database.Database
+  private cacheTTL: number
+
+  constructor(
+    cacheTTL: number = 60,
+    dbPath: string = process.env.SQLITE_PATH || './data/yprice.db',
+  ) {
+    this.cacheTTL = cacheTTL
+
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true })
+    this.db = new Database(dbPath)
+    this.db.pragma('journal_mode = WAL')
+    // Writers of the other process hold the lock for one transaction at most
+    this.db.pragma('busy_timeout = 5000')
+    this.db.exec(SCHEMA)
+    this.migrate()
+
+    logger.info(`SQLite storage initialized at ${dbPath}`)
+  }
+
+  // Databases created before prices had stored_at expired them by their timestamp
+  private migrate(): void {
+    const columns = this.db.pragma('table_info(prices)') as Array<{ name: string }>
+    if (!columns.some((column) => column.name === 'stored_at')) {
+      this.db.transaction(() => {
+        this.db.exec(`
+          ALTER TABLE prices ADD COLUMN stored_at INTEGER NOT NULL DEFAULT 0;
+          UPDATE prices SET stored_at = timestamp;
+          DROP INDEX IF EXISTS prices_chain_timestamp;
+        `)
+      })()
+    }
+    this.db.exec(
+      'CREATE INDEX IF NOT EXISTS prices_chain_stored_at ON prices (chain_id, stored_at)',
+    )
+  }
+
+  // Prices stored before this are expired, like entries of the other backends after cacheTTL
+  private expiredBefore(now: number = Date.now()): number {
+    return this.cacheTTL > 0 ? now - this.cacheTTL * 1000 : 0
+  }
+
+  public storePrice(chainId: number, price: Price): void {
+    this.storePrices(chainId, [price])
+  }
+
+  /**
+   * Prices, history and the chain's revision are written in one transaction. The revision only
+   * moves when a stored price changes or expired prices were dropped.
+   */
+  public storePrices(chainId: number, prices: Price[]): void {
+    const changes = this.db.transaction(() => this.writePrices(chainId, prices, Date.now()))()
+
+    priceChangeNotifier.notify(chainId, changes)
+    logger.debug(`Stored ${prices.length} prices for chain ${chainId} in SQLite`)
+  }
+
+  // Runs inside the caller's transaction, returns the prices that changed
+  private writePrices(chainId: number, prices: Price[], timestamp: number): StoredPrice[] {
+    const entries: StoredPrice[] = prices.map((price) => ({
+      ...price,
+      address: price.address.toLowerCase(),
+      timestamp,
+    }))
+
+    const expired = this.db
+      .prepare('DELETE FROM prices WHERE chain_id = ? AND stored_at < ?')
+      .run(chainId, this.expiredBefore(timestamp)).changes
+
+    const previous = this.readPrices(
+      chainId,
+      entries.map((entry) => entry.address),
+    )
+    const changes = diffPrices((address) => previous.get(address), entries)
+
+    const upsert = this.db.prepare(
+      `INSERT INTO prices
+         (chain_id, address, price, source, symbol, derivation, timestamp, stored_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (chain_id, address) DO UPDATE SET
+         price = excluded.price, source = excluded.source, symbol = excluded.symbol,
+         derivation = excluded.derivation, timestamp = excluded.timestamp,
+         stored_at = excluded.stored_at`,
+    )
+    const addHistory = this.db.prepare(
+      'INSERT INTO price_history (chain_id, address, timestamp, price, source) VALUES (?, ?, ?, ?, ?)',
+    )
+    for (const entry of entries) {
+      const price = entry.price.toString()
+      upsert.run(
+        chainId,
+        entry.address,
+        price,
+        entry.source,
+        entry.symbol ?? null,
+        entry.derivation ? JSON.stringify(entry.derivation) : null,
+        timestamp,
+        timestamp,
+      )
+      addHistory.run(chainId, entry.address, timestamp, price, entry.source)
+    }
+    if (HISTORY_RETENTION_MS > 0) {
+      this.db
+        .prepare('DELETE FROM price_history WHERE chain_id = ? AND timestamp < ?')
+        .run(chainId, timestamp - HISTORY_RETENTION_MS)
+    }
+
+    this.updateVersion(chainId, timestamp, changes.length > 0 || expired > 0, true)
+    return changes
+  }
+
+  private updateVersion(
+    chainId: number,
+    timestamp: number,
+    modified: boolean,
+    stored: boolean,
+  ): void {
+    this.db
+      .prepare(
+        `INSERT INTO chain_versions (chain_id, epoch, revision, last_modified, last_stored)
+         VALUES (@chainId, @epoch, 1, @timestamp, @timestamp)
+         ON CONFLICT (chain_id) DO UPDATE SET
+           revision = revision + @modified,
+           last_modified = CASE WHEN @modified = 1 THEN @timestamp ELSE last_modified END,
+           last_stored = CASE WHEN @stored = 1 THEN @timestamp ELSE last_stored END`,
+      )
+      .run({
+        chainId,
+        epoch: newEpoch(),
+        timestamp,
+        modified: modified ? 1 : 0,
+        stored: stored ? 1 : 0,
+      })
+  }
+
+  /**
+   * The prices, a copy of the chain's resulting prices and the switch of the current snapshot are
+   * one transaction, readers see the chain before or after the whole refresh.
+   */
+  public publishSnapshot(chainId: number, prices: Price[]): PriceSnapshot {
+    const createdAt = Date.now()
+    const id = newSnapshotId(createdAt)
+
+    const { changes, priceCount } = this.db.transaction(() => {
+      const changes = this.writePrices(chainId, prices, createdAt)
+      const priceCount = this.db
+        .prepare(
+          `INSERT INTO snapshot_prices
+             (chain_id, snapshot_id, address, price, source, symbol, derivation, timestamp)
+           SELECT chain_id, ?, address, price, source, symbol, derivation, timestamp
+           FROM prices WHERE chain_id = ?`,
+        )
+        .run(id, chainId).changes
+      this.db
+        .prepare(
+          'INSERT INTO snapshots (chain_id, id, created_at, price_count) VALUES (?, ?, ?, ?)',
+        )
+        .run(chainId, id, createdAt, priceCount)
+      this.setCurrentSnapshot(chainId, id)
+      this.pruneSnapshots(chainId)
+      return { changes, priceCount }
+    })()
+
+    priceChangeNotifier.notify(chainId, changes)
+    logger.debug(`Published snapshot ${id} of chain ${chainId} with ${priceCount} prices`)
+    return { id, chainId, createdAt, priceCount, current: true }
+  }
+
+  public listSnapshots(chainId: number): PriceSnapshot[] {
+    const rows = this.db
+      .prepare(
+        `SELECT s.id, s.created_at, s.price_count, c.snapshot_id IS NOT NULL AS current
+         FROM snapshots s
+         LEFT JOIN current_snapshots c ON c.chain_id = s.chain_id AND c.snapshot_id = s.id
+         WHERE s.chain_id = ?
+         ORDER BY s.created_at DESC`,
+      )
+      .all(chainId) as SnapshotRow[]
+
+    return rows.map((row) => ({
+      id: row.id,
+      chainId,
+      createdAt: row.created_at,
+      priceCount: row.price_count,
+      current: row.current === 1,
+    }))
+  }
+
+  // Replaces every price of the chain in one transaction, prices stored since are dropped
+  public rollbackToSnapshot(chainId: number, id: string): PriceSnapshot | undefined {
+    const result = this.db.transaction(() => {
+      const snapshot = this.db
+        .prepare('SELECT id, created_at, price_count FROM snapshots WHERE chain_id = ? AND id = ?')
+        .get(chainId, id) as Omit<SnapshotRow, 'current'> | undefined
+      if (!snapshot) return undefined
+
+      const now = Date.now()
+      const { asMap: previous } = this.listPrices(chainId)
+      this.db.prepare('DELETE FROM prices WHERE chain_id = ?').run(chainId)
+      // The prices keep their timestamps, their TTL starts over like in the other backends
+      this.db
+        .prepare(
+          `INSERT INTO prices
+             (chain_id, address, price, source, symbol, derivation, timestamp, stored_at)
+           SELECT chain_id, address, price, source, symbol, derivation, timestamp, ?
+           FROM snapshot_prices WHERE chain_id = ? AND snapshot_id = ?`,
+        )
+        .run(now, chainId, id)
+      const changes = diffPrices(
+        (address) => previous.get(address),
+        this.listPrices(chainId).asSlice,
+      )
+
+      this.updateVersion(chainId, now, true, false)
+      this.setCurrentSnapshot(chainId, id)
+      return { snapshot, changes }
+    })()
+    if (!result) return undefined
+
+    priceChangeNotifier.notify(chainId, result.changes)
+    return {
+      id,
+      chainId,
+      createdAt: result.snapshot.created_at,
+      priceCount: result.snapshot.price_count,
+      current: true,
+    }
+  }
+
+  public restorePrices(chainId: number, entries: StoredPrice[]): void {
+    const changes = this.db.transaction(() => {
+      const now = Date.now()
+      const { asMap: previous } = this.listPrices(chainId)
+      const restored = entries.map((entry) => ({ ...entry, address: entry.address.toLowerCase() }))
+
+      this.db.prepare('DELETE FROM prices WHERE chain_id = ?').run(chainId)
+      // Stored as of now, so restored prices are served for a full TTL whatever their timestamp
+      const insert = this.db.prepare(
+        `INSERT OR REPLACE INTO prices
+           (chain_id, address, price, source, symbol, derivation, timestamp, stored_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      for (const entry of restored) {
+        insert.run(
+          chainId,
+          entry.address,
+          entry.price.toString(),
+          entry.source,
+          entry.symbol ?? null,
+          entry.derivation ? JSON.stringify(entry.derivation) : null,
+          entry.timestamp,
+          now,
+        )
+      }
+
+      this.updateVersion(chainId, now, true, false)
+      return diffPrices((address) => previous.get(address), restored)
+    })()
+
+    priceChangeNotifier.notify(chainId, changes)
+  }
+
+  private setCurrentSnapshot(chainId: number, id: string): void {
+    this.db
+      .prepare('INSERT OR REPLACE INTO current_snapshots (chain_id, snapshot_id) VALUES (?, ?)')
+      .run(chainId, id)
+  }
+
+  // Keeps the newest SNAPSHOT_RETENTION snapshots and the current one
+  private pruneSnapshots(chainId: number): void {
+    this.db
+      .prepare(
+        `DELETE FROM snapshots
+         WHERE chain_id = @chainId
+           AND id NOT IN (
+             SELECT id FROM snapshots WHERE chain_id = @chainId
+             ORDER BY created_at DESC LIMIT @retention
+           )
+           AND id NOT IN (SELECT snapshot_id FROM current_snapshots WHERE chain_id = @chainId)`,
+      )
+      .run({ chainId, retention: SNAPSHOT_RETENTION })
+    this.db
+      .prepare(
+        `DELETE FROM snapshot_prices
+         WHERE chain_id = @chainId
+           AND snapshot_id NOT IN (SELECT id FROM snapshots WHERE chain_id = @chainId)`,
+      )
+      .run({ chainId })
+  }
+
+  // Looked up through the primary key, addresses are passed as one JSON array
+  private readPrices(chainId: number, addresses: string[]): Map<string, StoredPrice> {
+    const entries = new Map<string, StoredPrice>()
+    if (addresses.length === 0) return entries
+
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM prices
+         WHERE chain_id = ? AND stored_at >= ? AND address IN (SELECT value FROM json_each(?))`,
+      )
+      .all(
+        chainId,
+        this.expiredBefore(),
+        JSON.stringify(addresses.map((address) => address.toLowerCase())),
+      ) as PriceRow[]
+    for (const row of rows) {
+      entries.set(row.address, toStoredPrice(row))
+    }
+    return entries
+  }
+
+  public getPrice(chainId: number, address: string): StoredPrice | undefined {
+    const row = this.db
+      .prepare('SELECT * FROM prices WHERE chain_id = ? AND address = ? AND stored_at >= ?')
+      .get(chainId, address.toLowerCase(), this.expiredBefore()) as PriceRow | undefined
+    return row ? toStoredPrice(row) : undefined
+  }
+
+  public getPrices(chainId: number, addresses: string[]): Map<string, StoredPrice> {
+    return this.readPrices(chainId, addresses)
+  }
+
+  public listPrices(chainId: number): { asMap: Map<string, StoredPrice>; asSlice: StoredPrice[] } {
+    const rows = this.db
+      .prepare('SELECT * FROM prices WHERE chain_id = ? AND stored_at >= ?')
+      .all(chainId, this.expiredBefore()) as PriceRow[]
+
+    const asSlice = rows.map(toStoredPrice)
+    return { asMap: new Map(asSlice.map((entry) => [entry.address, entry])), asSlice }
+  }
+
+  public getAllPrices(): Map<number, Map<string, StoredPrice>> {
+    const allPrices = new Map<number, Map<string, StoredPrice>>()
+    const rows = this.db
+      .prepare('SELECT * FROM prices WHERE stored_at >= ?')
+      .all(this.expiredBefore()) as PriceRow[]
+
+    for (const row of rows) {
+      const chainPrices = allPrices.get(row.chain_id) ?? new Map<string, StoredPrice>()
+      chainPrices.set(row.address, toStoredPrice(row))
+      allPrices.set(row.chain_id, chainPrices)
+    }
+    return allPrices
+  }
+
+  /**
+   * The version is the epoch and revision of the chain, so re-storing the same prices keeps it.
+   * Prices expiring between two refreshes do not move it until the next write drops them.
+   */
+  public getChainVersion(chainId: number): ChainPriceVersion | undefined {
+    const row = this.db.prepare('SELECT * FROM chain_versions WHERE chain_id = ?').get(chainId) as
+      | ChainVersionRow
+      | undefined
+    const { priceCount } = this.db
+      .prepare('SELECT COUNT(*) AS priceCount FROM prices WHERE chain_id = ? AND stored_at >= ?')
+      .get(chainId, this.expiredBefore()) as { priceCount: number }
+    if (!row || priceCount === 0) return undefined
+
+    return {
+      version: `${row.epoch}:${row.revision}`,
+      lastModified: row.last_modified,
+      lastStored: row.last_stored,
+      priceCount,
+    }
+  }
+
+  public getPriceHistory(
+    chainId: number,
+    address: string,
+    from: number,
+    to: number,
+  ): PriceHistoryPoint[] {
+    const rows = this.db
+      .prepare(
+        `SELECT address, timestamp, price, source FROM price_history
+         WHERE chain_id = ? AND address = ? AND timestamp BETWEEN ? AND ?
+         ORDER BY timestamp`,
+      )
+      .all(chainId, address.toLowerCase(), from, to) as Array<{
+      address: string
+      timestamp: number
+      price: string
+      source: string
+    }>
+
+    return rows.map((row) => ({ ...row, price: BigInt(row.price) }))
+  }
+
+  public addRequestedToken(chainId: number, token: ERC20Token): void {
+    const address = token.address.toLowerCase()
+    this.db
+      .prepare(
+        `INSERT INTO requested_tokens (chain_id, address, data) VALUES (?, ?, ?)
+         ON CONFLICT (chain_id, address) DO UPDATE SET data = excluded.data`,
+      )
+      .run(chainId, address, JSON.stringify({ ...token, address }))
+  }
+
+  public getRequestedTokens(chainId: number): ERC20Token[] {
+    const rows = this.db
+      .prepare('SELECT data FROM requested_tokens WHERE chain_id = ?')
+      .all(chainId) as Array<{ data: string }>
+    return rows.map((row) => JSON.parse(row.data))
+  }
+
+  // Replaced as a whole after every full discovery, in a transaction so it is never read empty
+  public storeTokenRegistry(chainId: number, tokens: ERC20Token[]): void {
+    const insert = this.db.prepare(
+      `INSERT OR REPLACE INTO tokens (chain_id, address, symbol, is_vault, underlying, data)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+    )
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM tokens WHERE chain_id = ?').run(chainId)
+      for (const token of tokens) {
+        insert.run(
+          chainId,
+          token.address.toLowerCase(),
+          token.symbol,
+          token.isVault ? 1 : 0,
+          token.underlying?.toLowerCase() ?? null,
+          JSON.stringify(token),
+        )
+      }
+    })()
+  }
+
+  public getTokenRegistry(chainId: number): ERC20Token[] {
+    const rows = this.db
+      .prepare('SELECT data FROM tokens WHERE chain_id = ?')
+      .all(chainId) as Array<{ data: string }>
+    return rows.map((row) => JSON.parse(row.data))
+  }
+
+  public getRegistryToken(chainId: number, address: string): ERC20Token | undefined {
+    const row = this.db
+      .prepare('SELECT data FROM tokens WHERE chain_id = ? AND address = ?')
+      .get(chainId, address.toLowerCase()) as { data: string } | undefined
+    return row ? JSON.parse(row.data) : undefined
+  }
+
+  public acquireRefreshLock(chainId: number, jobId: string, ttlMs: number): string {
+    const now = Date.now()
+    return this.db
+      .transaction(() => {
+        this.db
+          .prepare('DELETE FROM refresh_locks WHERE chain_id = ? AND expires_at < ?')
+          .run(chainId, now)
+        this.db
+          .prepare(
+            'INSERT OR IGNORE INTO refresh_locks (chain_id, job_id, expires_at) VALUES (?, ?, ?)',
+          )
+          .run(chainId, jobId, now + ttlMs)
+        const row = this.db
+          .prepare('SELECT job_id FROM refresh_locks WHERE chain_id = ?')
+          .get(chainId) as { job_id: string }
+        return row.job_id
+      })
+      .immediate()
+  }
+
+  public releaseRefreshLock(chainId: number, jobId: string): void {
+    this.db
+      .prepare('DELETE FROM refresh_locks WHERE chain_id = ? AND job_id = ?')
+      .run(chainId, jobId)
+  }
+
+  // Only the latest refresh run is kept
+  public storeCoverageReport(chainId: number, report: CoverageReport): void {
+    this.db
+      .prepare('INSERT OR REPLACE INTO coverage_reports (chain_id, data) VALUES (?, ?)')
+      .run(chainId, JSON.stringify(report))
+  }
+
+  public getCoverageReport(chainId: number): CoverageReport | undefined {
+    const row = this.db
+      .prepare('SELECT data FROM coverage_reports WHERE chain_id = ?')
+      .get(chainId) as { data: string } | undefined
+    return row ? JSON.parse(row.data) : undefined
+  }
+
+  public storeRefreshJob(job: RefreshJob): void {
+    const now = Date.now()
+    this.db.prepare('DELETE FROM refresh_jobs WHERE expires_at < ?').run(now)
+    this.db
+      .prepare('INSERT OR REPLACE INTO refresh_jobs (id, data, expires_at) VALUES (?, ?, ?)')
+      .run(job.id, JSON.stringify(job), now + REFRESH_JOB_TTL_MS)
+  }
+
+  public getRefreshJob(id: string): RefreshJob | undefined {
+    const row = this.db
+      .prepare('SELECT data FROM refresh_jobs WHERE id = ? AND expires_at >= ?')
+      .get(id, Date.now()) as { data: string } | undefined
+    return row ? JSON.parse(row.data) : undefined
+  }
+
+  // History is kept, like in Redis
+  public clearCache(chainId?: number): void {
+    this.db.transaction(() => {
+      if (chainId) {
+        this.db.prepare('DELETE FROM prices WHERE chain_id = ?').run(chainId)
+        this.db.prepare('DELETE FROM chain_versions WHERE chain_id = ?').run(chainId)
+      } else {
+        this.db.exec('DELETE FROM prices; DELETE FROM chain_versions;')
+      }
+    })()
+    logger.info(chainId ? `Cleared prices for chain ${chainId}` : 'Cleared prices for all chains')
+  }
+
+  public ping(): void {
+    this.db.prepare('SELECT 1').get()
+  }
+
+  public getStats(chainId?: number): any {
+    if (chainId) {
+      const { priceCount } = this.db
+        .prepare('SELECT COUNT(*) AS priceCount FROM prices WHERE chain_id = ? AND stored_at >= ?')
+        .get(chainId, this.expiredBefore()) as { priceCount: number }
+      return { priceCount, chainId }
+    }
+
+    return Object.fromEntries(
+      Object.values(SUPPORTED_CHAINS).map((chain) => [chain.id, this.getStats(chain.id)]),
+    )
+  }
+}
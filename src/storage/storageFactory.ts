@@ -1,31 +1,50 @@
-import { Price } from 'models/index'
+import {
+  ChainPriceVersion,
+  CoverageReport,
+  ERC20Token,
+  Price,
+  PriceHistoryPoint,
+  PriceSnapshot,
+  RefreshJob,
+  StoredPrice,
+} from 'models/index'
 import { PriceStorage } from 'storage/priceStorage'
+import { detectRedisBackend, RedisBackend } from 'storage/redisClient'
 import { RedisStorage } from 'storage/redisStorage'
+import { SqliteStorage } from 'storage/sqliteStorage'
 import { StorageInterface } from 'storage/storageInterface'
 import { logger } from 'utils/index'
 
-export type StorageType = 'file' | 'redis'
+// `redis` picks its backend from the environment: REDIS_URL, else the Upstash REST variables
+export type StorageType = 'file' | 'redis' | RedisBackend | 'sqlite'
 
 let storageInstance: StorageInterface | null = null
 let currentStorageType: StorageType | null = null
+// Type asked for, which differs from the current one after falling back to file storage
+let requestedStorageType: StorageType | null = null
 
 export function initializeStorage(
   type: StorageType = 'file',
   cacheTTL?: number,
   backupDir?: string,
 ): StorageInterface {
-  // If already initialized with same type, return existing instance
-  if (storageInstance && currentStorageType === type) {
+  // If already initialized with same type, return existing instance. Every handler initializes
+  // storage, so a fallback must be reused rather than retried with a fresh, empty instance.
+  if (storageInstance && (currentStorageType === type || requestedStorageType === type)) {
     return storageInstance
   }
+  requestedStorageType = type
 
   // Create new storage instance based on type
   switch (type) {
     case 'redis':
+    case 'upstash':
+    case 'redis-tcp':
       try {
-        storageInstance = new RedisStorage(cacheTTL)
-        currentStorageType = 'redis'
-        logger.info('Using Redis storage for prices')
+        const backend = type === 'redis' ? detectRedisBackend() : type
+        storageInstance = new RedisStorage(cacheTTL, backend)
+        currentStorageType = backend
+        logger.info(`Using Redis storage for prices (${backend})`)
 
         // Don't load backup here - it will be done asynchronously after initialization
         // The Redis storage will check and load as needed
@@ -36,6 +55,18 @@ export function initializeStorage(
         currentStorageType = 'file'
       }
       break
+    case 'sqlite':
+      try {
+        storageInstance = new SqliteStorage(cacheTTL)
+        currentStorageType = 'sqlite'
+        logger.info('Using SQLite storage for prices')
+      } catch (error) {
+        logger.error('Failed to initialize SQLite storage:', error)
+        logger.warn('Falling back to file storage')
+        storageInstance = new PriceStorage(cacheTTL, backupDir)
+        currentStorageType = 'file'
+      }
+      break
     default:
       storageInstance = new PriceStorage(cacheTTL, backupDir)
       currentStorageType = 'file'
@@ -46,6 +77,27 @@ export function initializeStorage(
   return storageInstance
 }
 
+/**
+ * A storage of exactly the given type, apart from the shared instance and never falling back to
+ * file storage. `location` is the backup directory of file storage or the SQLite database file.
+ */
+export function createStorage(
+  type: StorageType,
+  cacheTTL?: number,
+  location?: string,
+): StorageInterface {
+  switch (type) {
+    case 'redis':
+    case 'upstash':
+    case 'redis-tcp':
+      return new RedisStorage(cacheTTL, type === 'redis' ? detectRedisBackend() : type)
+    case 'sqlite':
+      return new SqliteStorage(cacheTTL, location)
+    default:
+      return new PriceStorage(cacheTTL, location)
+  }
+}
+
 export function getStorage(): StorageInterface {
   if (!storageInstance) {
     throw new Error('Storage not initialized. Call initializeStorage first.')
@@ -57,6 +109,11 @@ export function getCurrentStorageType(): StorageType | null {
   return currentStorageType
 }
 
+// File storage when the requested backend failed to initialize
+export function getRequestedStorageType(): StorageType | null {
+  return requestedStorageType
+}
+
 // Wrapper class to handle async operations transparently
 export class StorageWrapper implements StorageInterface {
   private storage: StorageInterface
@@ -73,18 +130,101 @@ export class StorageWrapper implements StorageInterface {
     await this.storage.storePrices(chainId, prices)
   }
 
-  async getPrice(chainId: number, address: string): Promise<Price | undefined> {
+  async getPrice(chainId: number, address: string): Promise<StoredPrice | undefined> {
     return await this.storage.getPrice(chainId, address)
   }
 
-  async listPrices(chainId: number): Promise<{ asMap: Map<string, Price>; asSlice: Price[] }> {
+  async getPrices(chainId: number, addresses: string[]): Promise<Map<string, StoredPrice>> {
+    return await this.storage.getPrices(chainId, addresses)
+  }
+
+  async listPrices(
+    chainId: number,
+  ): Promise<{ asMap: Map<string, StoredPrice>; asSlice: StoredPrice[] }> {
     return await this.storage.listPrices(chainId)
   }
 
-  async getAllPrices(): Promise<Map<number, Map<string, Price>>> {
+  async getAllPrices(): Promise<Map<number, Map<string, StoredPrice>>> {
     return await this.storage.getAllPrices()
   }
 
+  async getChainVersion(chainId: number): Promise<ChainPriceVersion | undefined> {
+    return await this.storage.getChainVersion(chainId)
+  }
+
+  async publishSnapshot(chainId: number, prices: Price[]): Promise<PriceSnapshot> {
+    return await this.storage.publishSnapshot(chainId, prices)
+  }
+
+  async listSnapshots(chainId: number): Promise<PriceSnapshot[]> {
+    return await this.storage.listSnapshots(chainId)
+  }
+
+  async rollbackToSnapshot(chainId: number, id: string): Promise<PriceSnapshot | undefined> {
+    return await this.storage.rollbackToSnapshot(chainId, id)
+  }
+
+  async restorePrices(chainId: number, entries: StoredPrice[]): Promise<void> {
+    await this.storage.restorePrices(chainId, entries)
+  }
+
+  async getPriceHistory(
+    chainId: number,
+    address: string,
+    from: number,
+    to: number,
+  ): Promise<PriceHistoryPoint[]> {
+    return await this.storage.getPriceHistory(chainId, address, from, to)
+  }
+
+  async addRequestedToken(chainId: number, token: ERC20Token): Promise<void> {
+    await this.storage.addRequestedToken(chainId, token)
+  }
+
+  async getRequestedTokens(chainId: number): Promise<ERC20Token[]> {
+    return await this.storage.getRequestedTokens(chainId)
+  }
+
+  async storeTokenRegistry(chainId: number, tokens: ERC20Token[]): Promise<void> {
+    await this.storage.storeTokenRegistry(chainId, tokens)
+  }
+
+  async getTokenRegistry(chainId: number): Promise<ERC20Token[]> {
+    return await this.storage.getTokenRegistry(chainId)
+  }
+
+  async getRegistryToken(chainId: number, address: string): Promise<ERC20Token | undefined> {
+    return await this.storage.getRegistryToken(chainId, address)
+  }
+
+  async storeCoverageReport(chainId: number, report: CoverageReport): Promise<void> {
+    await this.storage.storeCoverageReport(chainId, report)
+  }
+
+  async getCoverageReport(chainId: number): Promise<CoverageReport | undefined> {
+    return await this.storage.getCoverageReport(chainId)
+  }
+
+  async storeRefreshJob(job: RefreshJob): Promise<void> {
+    await this.storage.storeRefreshJob(job)
+  }
+
+  async getRefreshJob(id: string): Promise<RefreshJob | undefined> {
+    return await this.storage.getRefreshJob(id)
+  }
+
+  async acquireRefreshLock(chainId: number, jobId: string, ttlMs: number): Promise<string> {
+    return await this.storage.acquireRefreshLock(chainId, jobId, ttlMs)
+  }
+
+  async releaseRefreshLock(chainId: number, jobId: string): Promise<void> {
+    await this.storage.releaseRefreshLock(chainId, jobId)
+  }
+
+  async ping(): Promise<void> {
+    await this.storage.ping()
+  }
+
   async clearCache(chainId?: number): Promise<void> {
     await this.storage.clearCache(chainId)
   }
@@ -1,15 +1,76 @@
-import { Price } from 'models/index'
+import {
+  ChainPriceVersion,
+  CoverageReport,
+  ERC20Token,
+  Price,
+  PriceHistoryPoint,
+  PriceSnapshot,
+  RefreshJob,
+  StoredPrice,
+} from 'models/index'
 
 export interface StorageInterface {
   storePrice(chainId: number, price: Price): void | Promise<void>
   storePrices(chainId: number, prices: Price[]): void | Promise<void>
-  getPrice(chainId: number, address: string): Price | undefined | Promise<Price | undefined>
+  getPrice(
+    chainId: number,
+    address: string,
+  ): StoredPrice | undefined | Promise<StoredPrice | undefined>
+  getPrices(
+    chainId: number,
+    addresses: string[],
+  ): Map<string, StoredPrice> | Promise<Map<string, StoredPrice>>
   listPrices(
     chainId: number,
   ):
-    | { asMap: Map<string, Price>; asSlice: Price[] }
-    | Promise<{ asMap: Map<string, Price>; asSlice: Price[] }>
-  getAllPrices(): Map<number, Map<string, Price>> | Promise<Map<number, Map<string, Price>>>
+    | { asMap: Map<string, StoredPrice>; asSlice: StoredPrice[] }
+    | Promise<{ asMap: Map<string, StoredPrice>; asSlice: StoredPrice[] }>
+  getAllPrices():
+    | Map<number, Map<string, StoredPrice>>
+    | Promise<Map<number, Map<string, StoredPrice>>>
+  getChainVersion(
+    chainId: number,
+  ): ChainPriceVersion | undefined | Promise<ChainPriceVersion | undefined>
+  // Stores the prices of a complete refresh and serves them with the chain's other prices as a
+  // new snapshot, in one step so readers never see part of the refresh
+  publishSnapshot(chainId: number, prices: Price[]): PriceSnapshot | Promise<PriceSnapshot>
+  // Newest first
+  listSnapshots(chainId: number): PriceSnapshot[] | Promise<PriceSnapshot[]>
+  // Serves a kept snapshot again, undefined when it is not kept
+  rollbackToSnapshot(
+    chainId: number,
+    id: string,
+  ): PriceSnapshot | undefined | Promise<PriceSnapshot | undefined>
+  // Replaces every price of the chain, keeping the timestamps and sources of the entries. For
+  // restores and migrations, nothing is added to price history.
+  restorePrices(chainId: number, entries: StoredPrice[]): void | Promise<void>
+  getPriceHistory(
+    chainId: number,
+    address: string,
+    from: number,
+    to: number,
+  ): PriceHistoryPoint[] | Promise<PriceHistoryPoint[]>
+  addRequestedToken(chainId: number, token: ERC20Token): void | Promise<void>
+  getRequestedTokens(chainId: number): ERC20Token[] | Promise<ERC20Token[]>
+  storeTokenRegistry(chainId: number, tokens: ERC20Token[]): void | Promise<void>
+  getTokenRegistry(chainId: number): ERC20Token[] | Promise<ERC20Token[]>
+  getRegistryToken(
+    chainId: number,
+    address: string,
+  ): ERC20Token | undefined | Promise<ERC20Token | undefined>
+  storeCoverageReport(chainId: number, report: CoverageReport): void | Promise<void>
+  getCoverageReport(
+    chainId: number,
+  ): CoverageReport | undefined | Promise<CoverageReport | undefined>
+  storeRefreshJob(job: RefreshJob): void | Promise<void>
+  getRefreshJob(id: string): RefreshJob | undefined | Promise<RefreshJob | undefined>
+  // Takes the chain's refresh lock for the job, unless another job holds it, until released or
+  // ttlMs passed. Returns the id of the job holding the lock afterwards.
+  acquireRefreshLock(chainId: number, jobId: string, ttlMs: number): string | Promise<string>
+  // Only releases the lock while the job still holds it
+  releaseRefreshLock(chainId: number, jobId: string): void | Promise<void>
+  // Throws when the backend cannot be reached
+  ping(): void | Promise<void>
   clearCache(chainId?: number): void | Promise<void>
   getStats(chainId?: number): any | Promise<any>
 }
@@ -0,0 +1,20 @@
+import { createHash, timingSafeEqual } from 'node:crypto'
+
+// Shared secret for admin routes, which are disabled while it is unset
+const adminSecret = () => process.env.ADMIN_REFRESH_SECRET || ''
+
+export const isAdminEnabled = (): boolean => adminSecret().length > 0
+
+// Hashing first gives equal lengths, so the comparison time says nothing about the secret
+const digest = (value: string) => createHash('sha256').update(value).digest()
+
+/**
+ * Whether the request carries the admin secret as `Authorization: Bearer <secret>`
+ */
+export const isAdminAuthorized = (headers?: Headers): boolean => {
+  if (!isAdminEnabled()) return false
+
+  const match = headers?.get('authorization')?.match(/^Bearer\s+(.+)$/i)
+  if (!match) return false
+  return timingSafeEqual(digest(match[1]!.trim()), digest(adminSecret()))
+}
@@ -0,0 +1,58 @@
+import { PricingBlock } from 'models/index'
+import { getPublicClient } from 'utils/viemClients'
+
+export const getPricingBlock = async (
+  chainId: number,
+  blockNumber?: bigint,
+): Promise<PricingBlock> => {
+  const block = await getPublicClient(chainId).getBlock(
+    blockNumber === undefined ? { blockTag: 'latest' } : { blockNumber },
+  )
+  return { number: block.number, timestamp: Number(block.timestamp) }
+}
+
+export class TimestampOutOfRangeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TimestampOutOfRangeError'
+  }
+}
+
+/**
+ * The last block mined at or before a unix timestamp, found by bisecting block timestamps.
+ * Throws a TimestampOutOfRangeError when the timestamp is before the first block or after the
+ * latest one.
+ */
+export const findBlockByTimestamp = async (
+  chainId: number,
+  timestamp: number,
+): Promise<PricingBlock> => {
+  const latest = await getPricingBlock(chainId)
+  if (timestamp >= latest.timestamp) {
+    if (timestamp - latest.timestamp > 60) {
+      throw new TimestampOutOfRangeError(
+        `Timestamp ${timestamp} is after the latest block of chain ${chainId}`,
+      )
+    }
+    return latest
+  }
+
+  let low = await getPricingBlock(chainId, 0n)
+  if (timestamp < low.timestamp) {
+    throw new TimestampOutOfRangeError(
+      `Timestamp ${timestamp} is before the first block of chain ${chainId}`,
+    )
+  }
+
+  // low is at or before the timestamp, high after it
+  let high = latest
+  while (high.number - low.number > 1n) {
+    const middle = await getPricingBlock(chainId, (low.number + high.number) / 2n)
+    if (middle.timestamp <= timestamp) {
+      low = middle
+    } else {
+      high = middle
+    }
+  }
+  return low
+}
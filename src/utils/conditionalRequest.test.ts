@@ -0,0 +1,117 @@
+import { ChainPriceVersion } from 'models/index'
+import { computeChainVersion } from 'storage/chainVersion'
+import { buildPriceValidators, isNotModified } from 'utils/conditionalRequest'
+
+const version = (hash: string, lastModified: number): ChainPriceVersion => ({
+  version: hash,
+  lastModified,
+  priceCount: 1,
+})
+
+const MONDAY = Date.UTC(2024, 0, 1, 12)
+const TUESDAY = Date.UTC(2024, 0, 2, 12)
+
+describe('buildPriceValidators', () => {
+  it('is stable whatever order the chains come in', () => {
+    const a = buildPriceValidators(
+      new Map([
+        [1, version('a', MONDAY)],
+        [10, version('b', TUESDAY)],
+      ]),
+      'prices:json:raw',
+    )
+    const b = buildPriceValidators(
+      new Map([
+        [10, version('b', TUESDAY)],
+        [1, version('a', MONDAY)],
+      ]),
+      'prices:json:raw',
+    )
+    expect(a).toEqual(b)
+  })
+
+  it('changes with a chain version or the variant', () => {
+    const base = buildPriceValidators(new Map([[1, version('a', MONDAY)]]), 'chain:raw')
+    expect(buildPriceValidators(new Map([[1, version('b', MONDAY)]]), 'chain:raw').ETag).not.toBe(
+      base.ETag,
+    )
+    expect(
+      buildPriceValidators(new Map([[1, version('a', MONDAY)]]), 'chain:decimal').ETag,
+    ).not.toBe(base.ETag)
+  })
+
+  it('dates the response by the most recently changed chain', () => {
+    const validators = buildPriceValidators(
+      new Map([
+        [1, version('a', MONDAY)],
+        [10, version('b', TUESDAY)],
+      ]),
+      'prices',
+    )
+    expect(validators['Last-Modified']).toBe(new Date(TUESDAY).toUTCString())
+  })
+
+  it('has no Last-Modified for chains without prices', () => {
+    const validators = buildPriceValidators(new Map([[1, undefined]]), 'prices')
+    expect(validators.ETag).toMatch(/^"[0-9a-f]{32}"$/)
+    expect(validators['Last-Modified']).toBeUndefined()
+  })
+})
+
+describe('isNotModified', () => {
+  const validators = buildPriceValidators(new Map([[1, version('a', MONDAY)]]), 'prices')
+
+  it('matches If-None-Match against the ETag, weak or in a list', () => {
+    expect(isNotModified(new Headers({ 'If-None-Match': validators.ETag }), validators)).toBe(true)
+    expect(
+      isNotModified(new Headers({ 'If-None-Match': `W/${validators.ETag}` }), validators),
+    ).toBe(true)
+    expect(
+      isNotModified(new Headers({ 'If-None-Match': `"other", ${validators.ETag}` }), validators),
+    ).toBe(true)
+    expect(isNotModified(new Headers({ 'If-None-Match': '*' }), validators)).toBe(true)
+    expect(isNotModified(new Headers({ 'If-None-Match': '"other"' }), validators)).toBe(false)
+  })
+
+  it('compares If-Modified-Since with Last-Modified', () => {
+    const at = (time: number) => new Headers({ 'If-Modified-Since': new Date(time).toUTCString() })
+    expect(isNotModified(at(MONDAY), validators)).toBe(true)
+    expect(isNotModified(at(TUESDAY), validators)).toBe(true)
+    expect(isNotModified(at(MONDAY - 1000), validators)).toBe(false)
+    expect(isNotModified(new Headers({ 'If-Modified-Since': 'yesterday' }), validators)).toBe(false)
+  })
+
+  it('lets a mismatching If-None-Match win over a matching If-Modified-Since', () => {
+    const headers = new Headers({
+      'If-None-Match': '"other"',
+      'If-Modified-Since': new Date(TUESDAY).toUTCString(),
+    })
+    expect(isNotModified(headers, validators)).toBe(false)
+  })
+
+  it('is false for unconditional requests', () => {
+    expect(isNotModified(undefined, validators)).toBe(false)
+    expect(isNotModified(new Headers(), validators)).toBe(false)
+  })
+})
+
+describe('computeChainVersion', () => {
+  const price = (address: string, value: bigint, timestamp: number) => ({
+    address,
+    price: value,
+    source: 'defillama',
+    timestamp,
+  })
+
+  it('ignores order, address case and store times', () => {
+    const a = computeChainVersion([price('0xAA', 1n, 1), price('0xbb', 2n, 1)])
+    const b = computeChainVersion([price('0xbb', 2n, 5), price('0xaa', 1n, 9)])
+    expect(a).toBe(b)
+  })
+
+  it('changes with any price', () => {
+    const a = computeChainVersion([price('0xaa', 1n, 1)])
+    expect(computeChainVersion([price('0xaa', 2n, 1)])).not.toBe(a)
+    expect(computeChainVersion([price('0xaa', 1n, 1), price('0xbb', 1n, 1)])).not.toBe(a)
+  })
+})
@@ -0,0 +1,56 @@
+import { createHash } from 'node:crypto'
+import { ChainPriceVersion } from 'models/index'
+
+export interface PriceValidators {
+  ETag: string
+  'Last-Modified'?: string
+}
+
+/**
+ * ETag and Last-Modified for a response built from the given chains. `variant` covers
+ * everything else that shapes the body (route, format, requested tokens).
+ */
+export const buildPriceValidators = (
+  versions: Map<number, ChainPriceVersion | undefined>,
+  variant: string,
+): PriceValidators => {
+  const hash = createHash('sha1').update(variant)
+  let lastModified = 0
+
+  for (const [chainId, version] of Array.from(versions.entries()).sort(([a], [b]) => a - b)) {
+    hash.update(`\n${chainId}:${version?.version ?? ''}`)
+    lastModified = Math.max(lastModified, version?.lastModified ?? 0)
+  }
+
+  const validators: PriceValidators = { ETag: `"${hash.digest('hex').slice(0, 32)}"` }
+  if (lastModified > 0) validators['Last-Modified'] = new Date(lastModified).toUTCString()
+  return validators
+}
+
+// Weak comparison, as required for If-None-Match
+const stripWeak = (tag: string) => tag.trim().replace(/^W\//, '')
+
+/**
+ * Whether a conditional GET can be answered with 304. If-None-Match takes precedence
+ * over If-Modified-Since, as in RFC 9110.
+ */
+export const isNotModified = (
+  headers: Headers | undefined,
+  validators: PriceValidators,
+): boolean => {
+  const ifNoneMatch = headers?.get('if-none-match')
+  if (ifNoneMatch) {
+    if (ifNoneMatch.trim() === '*') return true
+    const etag = stripWeak(validators.ETag)
+    return ifNoneMatch.split(',').some((tag) => stripWeak(tag) === etag)
+  }
+
+  const ifModifiedSince = headers?.get('if-modified-since')
+  const lastModified = validators['Last-Modified']
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince)
+    return !Number.isNaN(since) && Date.parse(lastModified) <= since
+  }
+
+  return false
+}
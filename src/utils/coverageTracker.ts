@@ -0,0 +1,34 @@
+/**
+ * Collects, per chain, the fetchers that were tried on tokens left without a price, so a
+ * refresh run can report what it could not price. Each run creates its own tracker, pricing
+ * outside a run (on-demand quotes) records nothing.
+ */
+export class CoverageTracker {
+  private attempts: Map<number, Map<string, Set<string>>> = new Map()
+
+  recordMissing(chainId: number, addresses: string[], fetchers: string[]): void {
+    let chainAttempts = this.attempts.get(chainId)
+    if (!chainAttempts) {
+      chainAttempts = new Map()
+      this.attempts.set(chainId, chainAttempts)
+    }
+
+    for (const address of addresses) {
+      const key = address.toLowerCase()
+      const tried = chainAttempts.get(key) || new Set<string>()
+      fetchers.forEach((fetcher) => {
+        tried.add(fetcher)
+      })
+      chainAttempts.set(key, tried)
+    }
+  }
+
+  // Attempts recorded for the chain, cleared once read
+  take(chainId: number): Map<string, string[]> {
+    const chainAttempts = this.attempts.get(chainId) || new Map<string, Set<string>>()
+    this.attempts.delete(chainId)
+    return new Map(
+      Array.from(chainAttempts.entries(), ([address, tried]) => [address, Array.from(tried)]),
+    )
+  }
+}
@@ -1,8 +1,18 @@
+export * from './adminAuth'
+export * from './blocks'
+export * from './conditionalRequest'
+export * from './coverageTracker'
 export { discoveryPriceCache } from './discoveryPriceCache'
 export * from './helpers'
 export { createHttpsAgent } from './https'
 export * from './logger'
+export * from './metrics'
 export { batchReadContracts } from './multicallAggregator'
 export * from './priceCache'
+export * from './priceExport'
+export * from './priceFilters'
+export * from './priceHistory'
+export * from './priceResponse'
 export * from './progressTracker'
 export { getPublicClient } from './viemClients'
+export * from './ydaemonResponse'
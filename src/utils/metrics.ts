@@ -0,0 +1,261 @@
+/**
+ * Minimal Prometheus registry. Values live in this process, so counters and histograms only add up
+ * over time in a long-running server, serverless functions report their own instance.
+ */
+
+export type Labels = Record<string, string | number>
+
+const escapeLabelValue = (value: string | number): string =>
+  String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+
+const formatLabels = (labels: Labels): string => {
+  const entries = Object.entries(labels)
+  if (entries.length === 0) return ''
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`
+}
+
+const formatValue = (value: number): string => {
+  if (value === Number.POSITIVE_INFINITY) return '+Inf'
+  if (value === Number.NEGATIVE_INFINITY) return '-Inf'
+  return String(value)
+}
+
+// Series are keyed by their label string so the same labels in another order are not split up
+const seriesKey = (labels: Labels): string =>
+  formatLabels(Object.fromEntries(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b))))
+
+interface Metric {
+  readonly name: string
+  readonly help: string
+  readonly type: 'counter' | 'gauge' | 'histogram'
+  render(): string[]
+}
+
+export class Counter implements Metric {
+  readonly type = 'counter'
+  private series: Map<string, { labels: Labels; value: number }> = new Map()
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+  ) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = seriesKey(labels)
+    const entry = this.series.get(key)
+    if (entry) {
+      entry.value += value
+    } else {
+      this.series.set(key, { labels, value })
+    }
+  }
+
+  render(): string[] {
+    return Array.from(
+      this.series.values(),
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`,
+    )
+  }
+}
+
+export class Gauge implements Metric {
+  readonly type = 'gauge'
+  private series: Map<string, { labels: Labels; value: number }> = new Map()
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+  ) {}
+
+  set(labels: Labels, value: number): void {
+    this.series.set(seriesKey(labels), { labels, value })
+  }
+
+  /**
+   * Swaps in every series at once, for gauges rebuilt on each scrape. Collect values across awaits
+   * first, clearing and refilling in place would let concurrent scrapes render half a gauge.
+   */
+  replace(series: Array<[labels: Labels, value: number]>): void {
+    this.series = new Map(
+      series.map(([labels, value]) => [seriesKey(labels), { labels, value }] as const),
+    )
+  }
+
+  render(): string[] {
+    return Array.from(
+      this.series.values(),
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`,
+    )
+  }
+}
+
+export class Histogram implements Metric {
+  readonly type = 'histogram'
+  private series: Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }> =
+    new Map()
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly buckets: number[],
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(labels)
+    const entry = this.series.get(key) ?? {
+      labels,
+      buckets: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }
+    this.series.set(key, entry)
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry.buckets[index] = (entry.buckets[index] ?? 0) + 1
+    })
+    entry.sum += value
+    entry.count++
+  }
+
+  // Observes the seconds elapsed until the returned function is called
+  startTimer(labels: Labels = {}): (extraLabels?: Labels) => number {
+    const start = performance.now()
+    return (extraLabels = {}) => {
+      const seconds = (performance.now() - start) / 1000
+      this.observe({ ...labels, ...extraLabels }, seconds)
+      return seconds
+    }
+  }
+
+  render(): string[] {
+    const lines: string[] = []
+    this.series.forEach(({ labels, buckets, sum, count }) => {
+      this.buckets.forEach((bound, index) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${buckets[index]}`,
+        )
+      })
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`)
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`)
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`)
+    })
+    return lines
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Map<string, Metric> = new Map()
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help))
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help))
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets))
+  }
+
+  // Text exposition format 0.0.4
+  render(): string {
+    const lines: string[] = []
+    this.metrics.forEach((metric) => {
+      lines.push(`# HELP ${metric.name} ${metric.help}`)
+      lines.push(`# TYPE ${metric.name} ${metric.type}`)
+      lines.push(...metric.render())
+    })
+    return `${lines.join('\n')}\n`
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`)
+    }
+    this.metrics.set(metric.name, metric)
+    return metric
+  }
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+export const metrics = new MetricsRegistry()
+
+// Recorded where the work happens
+
+export const refreshDuration = metrics.histogram(
+  'yprice_refresh_duration_seconds',
+  'Duration of a price refresh per chain',
+  [5, 15, 30, 60, 120, 300, 600, 1200],
+)
+
+export const refreshLastSuccess = metrics.gauge(
+  'yprice_refresh_last_success_timestamp_seconds',
+  'Unix time the last refresh of a chain completed',
+)
+
+export const fetcherDuration = metrics.histogram(
+  'yprice_fetcher_duration_seconds',
+  'Duration of a fetcher run on one batch of tokens',
+  [0.1, 0.5, 1, 2.5, 5, 10, 30, 60],
+)
+
+export const fetcherPrices = metrics.counter(
+  'yprice_fetcher_prices_total',
+  'Prices returned by a fetcher',
+)
+
+export const fetcherErrors = metrics.counter(
+  'yprice_fetcher_errors_total',
+  'Fetcher runs that failed',
+)
+
+export const rpcRequests = metrics.counter(
+  'yprice_rpc_requests_total',
+  'HTTP requests sent to RPC nodes by response status',
+)
+
+export const multicallRequests = metrics.counter(
+  'yprice_multicall_requests_total',
+  'Multicall RPC requests by outcome, retries included',
+)
+
+export const multicallCalls = metrics.counter(
+  'yprice_multicall_calls_total',
+  'Contract calls sent through multicall by result',
+)
+
+export const priceCacheLookups = metrics.counter(
+  'yprice_price_cache_lookups_total',
+  'In-memory price cache lookups by result',
+)
+
+export const httpRequestDuration = metrics.histogram(
+  'yprice_http_request_duration_seconds',
+  'API request latency by route',
+  [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+)
+
+// Rebuilt from storage on each scrape
+
+export const storageUp = metrics.gauge(
+  'yprice_storage_up',
+  'Whether the last scrape read the storage gauges, 0 leaves them empty',
+)
+
+export const storedPrices = metrics.gauge('yprice_prices', 'Stored prices per chain and source')
+
+export const coverageTokens = metrics.gauge(
+  'yprice_coverage_tokens',
+  'Discovered tokens of the last coverage report by status',
+)
+
+export const coverageRatio = metrics.gauge(
+  'yprice_coverage_ratio',
+  'Share of discovered tokens that were priced in the last coverage report',
+)
+
+export const pricesLastStored = metrics.gauge(
+  'yprice_prices_last_stored_timestamp_seconds',
+  'Unix time prices of a chain were last stored',
+)
@@ -1,5 +1,6 @@
 import pLimit from 'p-limit'
 import { logger } from 'utils/logger'
+import { multicallCalls, multicallRequests } from 'utils/metrics'
 import { getPublicClient } from 'utils/viemClients'
 
 interface MulticallRequest {
@@ -7,6 +8,8 @@ interface MulticallRequest {
   abi: any
   functionName: string
   args?: any[]
+  // Latest when unset
+  blockNumber?: bigint
   resolver?: (result: any) => void
   rejecter?: (error: any) => void
 }
@@ -163,10 +166,13 @@ export class MulticallAggregator {
       while (queue.length > 0) {
         const batch = queue.splice(0, this.BATCH_SIZE)
 
-        // Execute batch with rate limiting
-        await limiter(async () => {
-          await this.executeBatchedCalls(chainId, batch)
-        })
+        // A multicall reads at a single block, so calls pinned to other blocks go out separately
+        for (const [blockNumber, calls] of groupByBlock(batch)) {
+          // Execute batch with rate limiting
+          await limiter(async () => {
+            await this.executeBatchedCalls(chainId, calls, blockNumber)
+          })
+        }
       }
     } finally {
       this.processing.set(chainId, false)
@@ -176,7 +182,11 @@ export class MulticallAggregator {
   /**
    * Execute a batch of calls via multicall
    */
-  private async executeBatchedCalls(chainId: number, batch: QueuedRequest[]): Promise<void> {
+  private async executeBatchedCalls(
+    chainId: number,
+    batch: QueuedRequest[],
+    blockNumber?: bigint,
+  ): Promise<void> {
     const client = getPublicClient(chainId)
 
     // Prepare contracts for multicall
@@ -196,15 +206,19 @@ export class MulticallAggregator {
         const results = await client.multicall({
           contracts,
           allowFailure: true,
+          blockNumber,
         })
+        multicallRequests.inc({ chain: chainId, outcome: 'success' })
 
         // Resolve/reject promises based on results
         batch.forEach((req, index) => {
           const result = results[index]
 
           if (result && result.status === 'success') {
+            multicallCalls.inc({ chain: chainId, result: 'success' })
             req.resolver?.(result.result)
           } else {
+            multicallCalls.inc({ chain: chainId, result: 'failure' })
             req.rejecter?.(result?.error || new Error('Multicall failed'))
           }
         })
@@ -217,6 +231,7 @@ export class MulticallAggregator {
 
         return
       } catch (error) {
+        multicallRequests.inc({ chain: chainId, outcome: 'error' })
         lastError = error
         attempt++
 
@@ -283,6 +298,16 @@ export class MulticallAggregator {
   }
 }
 
+const groupByBlock = (batch: QueuedRequest[]): Map<bigint | undefined, QueuedRequest[]> => {
+  const groups = new Map<bigint | undefined, QueuedRequest[]>()
+  batch.forEach((request) => {
+    const group = groups.get(request.blockNumber) || []
+    group.push(request)
+    groups.set(request.blockNumber, group)
+  })
+  return groups
+}
+
 // Singleton instance
 export const multicallAggregator = new MulticallAggregator()
 
@@ -293,12 +318,14 @@ export async function batchReadContract<T = any>(
   abi: any,
   functionName: string,
   args?: any[],
+  blockNumber?: bigint,
 ): Promise<T> {
   return multicallAggregator.queueCall<T>(chainId, {
     address,
     abi,
     functionName,
     args,
+    blockNumber,
   })
 }
 
@@ -311,9 +338,13 @@ export async function batchReadContracts<T = any>(
     functionName: string
     args?: any[]
   }>,
+  blockNumber?: bigint,
 ): Promise<Array<{ status: 'success' | 'failure'; result?: T; error?: any }>> {
   try {
-    const results = await multicallAggregator.queueCalls<T>(chainId, contracts)
+    const results = await multicallAggregator.queueCalls<T>(
+      chainId,
+      contracts.map((contract) => ({ ...contract, blockNumber })),
+    )
     return results.map((result) => ({
       status: 'success' as const,
       result,
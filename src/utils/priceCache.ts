@@ -1,6 +1,7 @@
 import { filter, forEach, groupBy, includes, mapValues, reduce } from 'lodash'
 import { Price } from 'models/index'
 import { logger } from 'utils/logger'
+import { priceCacheLookups } from 'utils/metrics'
 
 interface CachedPrice {
   price: Price
@@ -62,14 +63,19 @@ export class PriceCache {
     const key = this.getCacheKey(chainId, address)
     const cached = this.cache.get(key)
 
-    if (!cached) return null
+    if (!cached) {
+      priceCacheLookups.inc({ chain: chainId, result: 'miss' })
+      return null
+    }
 
     const now = Date.now()
     if (now - cached.timestamp > cached.ttl) {
       this.cache.delete(key)
+      priceCacheLookups.inc({ chain: chainId, result: 'expired' })
       return null
     }
 
+    priceCacheLookups.inc({ chain: chainId, result: 'hit' })
     return cached.price
   }
 
@@ -173,4 +179,5 @@ export class PriceCache {
 
 export const priceCache = new PriceCache()
 
-setInterval(() => priceCache.cleanup(), 60 * 1000)
+// Housekeeping only, it must not keep scripts and tests alive
+setInterval(() => priceCache.cleanup(), 60 * 1000).unref()
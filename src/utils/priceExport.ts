@@ -0,0 +1,82 @@
+import { StoredPrice } from 'models/index'
+import { formatPrice, PriceFormat } from 'utils/priceResponse'
+
+export type PriceExportFormat = 'csv' | 'ndjson'
+
+export const EXPORT_CONTENT_TYPES: Record<PriceExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+}
+
+const EXPORT_MEDIA_TYPES: Record<string, PriceExportFormat | undefined> = {
+  'text/csv': 'csv',
+  'application/x-ndjson': 'ndjson',
+  'application/json': undefined,
+  '*/*': undefined,
+}
+
+/**
+ * Export format asked for in `Accept`, undefined for JSON. The first supported media type
+ * listed wins; q-values are not weighed.
+ */
+export const parseExportFormat = (headers?: Headers): PriceExportFormat | undefined => {
+  const accept = headers?.get('accept')
+  if (!accept) return undefined
+
+  for (const part of accept.split(',')) {
+    const mediaType = part.split(';')[0]!.trim().toLowerCase()
+    if (mediaType in EXPORT_MEDIA_TYPES) return EXPORT_MEDIA_TYPES[mediaType]
+  }
+  return undefined
+}
+
+const CSV_COLUMNS = ['chainId', 'address', 'symbol', 'price', 'source', 'timestamp']
+
+// Symbols come from token contracts, so keep spreadsheets from reading them as formulas
+const csvCell = (value: string | number): string => {
+  const cell = /^[=+\-@]/.test(String(value)) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell
+}
+
+/**
+ * Serialize prices as CSV or NDJSON rows of chainId, address, symbol, price, source and
+ * timestamp (unix seconds). `both` adds a `priceDecimal` CSV column next to the raw price.
+ */
+export const serializePriceExport = (
+  rows: Array<[chainId: number, price: StoredPrice]>,
+  exportFormat: PriceExportFormat,
+  format: PriceFormat = 'raw',
+): string => {
+  if (exportFormat === 'ndjson') {
+    return rows
+      .map(([chainId, entry]) =>
+        JSON.stringify({
+          chainId,
+          address: entry.address.toLowerCase(),
+          symbol: entry.symbol ?? null,
+          price: formatPrice(entry.price, format, entry.priceDecimals),
+          source: entry.source,
+          timestamp: Math.floor(entry.timestamp / 1000),
+        }),
+      )
+      .map((line) => `${line}\n`)
+      .join('')
+  }
+
+  const header = format === 'both' ? [...CSV_COLUMNS, 'priceDecimal'] : CSV_COLUMNS
+  const lines = rows.map(([chainId, entry]) => {
+    const price = formatPrice(entry.price, format, entry.priceDecimals)
+    const cells = [
+      chainId,
+      entry.address.toLowerCase(),
+      entry.symbol ?? '',
+      typeof price === 'string' ? price : price.raw,
+      entry.source,
+      Math.floor(entry.timestamp / 1000),
+    ]
+    if (typeof price !== 'string') cells.push(price.decimal)
+    return cells.map(csvCell).join(',')
+  })
+
+  return [header.join(','), ...lines].map((line) => `${line}\r\n`).join('')
+}
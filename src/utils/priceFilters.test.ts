@@ -0,0 +1,163 @@
+import { StoredPrice } from 'models/index'
+import {
+  PriceListFilters,
+  parsePriceListFilters,
+  priceListVariant,
+  selectPrices,
+} from 'utils/priceFilters'
+
+const NOW = 1_700_000_000_000
+
+const entry = (address: string, price: bigint, source = 'defillama', ageSeconds = 0) =>
+  [address, { address, price, source, timestamp: NOW - ageSeconds * 1000 }] as [string, StoredPrice]
+
+const PRICES = new Map([
+  entry('0xcc', 3_000_000n, 'erc4626', 600),
+  entry('0xaa', 1_000_000n),
+  entry('0xdd', 500_000n, 'curve', 30),
+  entry('0xbb', 2_000_000n, 'DefiLlama', 7200),
+])
+
+const filters = (overrides: Partial<PriceListFilters> = {}): PriceListFilters => ({
+  vaultsOnly: false,
+  ...overrides,
+})
+
+const addresses = (result: { prices: Map<string, StoredPrice> }) => Array.from(result.prices.keys())
+
+describe('parsePriceListFilters', () => {
+  it('reads every filter, lowercasing lists and the cursor', () => {
+    expect(
+      parsePriceListFilters(
+        new URLSearchParams(
+          'source=DefiLlama,%20curve,&minPrice=1.5&maxAge=60&addresses=0xAA&vaultsOnly=1&limit=2&cursor=0xBB',
+        ),
+      ),
+    ).toEqual({
+      sources: new Set(['defillama', 'curve']),
+      minPrice: 1_500_000n,
+      maxAge: 60,
+      addresses: new Set(['0xaa']),
+      vaultsOnly: true,
+      limit: 2,
+      cursor: '0xbb',
+    })
+  })
+
+  it('leaves out filters that are absent or empty', () => {
+    expect(parsePriceListFilters(new URLSearchParams('source=,&cursor='))).toEqual({
+      sources: undefined,
+      minPrice: undefined,
+      maxAge: undefined,
+      addresses: undefined,
+      vaultsOnly: false,
+      limit: undefined,
+      cursor: undefined,
+    })
+  })
+})
+
+describe('priceListVariant', () => {
+  it('ignores the order of list filters', () => {
+    const a = priceListVariant(filters({ sources: new Set(['a', 'b']) }))
+    const b = priceListVariant(filters({ sources: new Set(['b', 'a']) }))
+    expect(a).toBe(b)
+  })
+
+  it('tells filters apart', () => {
+    expect(priceListVariant(filters({ limit: 2 }))).not.toBe(priceListVariant(filters()))
+    expect(priceListVariant(filters({ cursor: '0xaa' }))).not.toBe(
+      priceListVariant(filters({ cursor: '0xbb' })),
+    )
+  })
+
+  it('has no variant when filtering on age, which depends on the clock', () => {
+    expect(priceListVariant(filters({ maxAge: 60 }))).toBeUndefined()
+  })
+})
+
+describe('selectPrices', () => {
+  it('returns every price in address order without filters', () => {
+    expect(addresses(selectPrices(PRICES, filters(), undefined, NOW))).toEqual([
+      '0xaa',
+      '0xbb',
+      '0xcc',
+      '0xdd',
+    ])
+  })
+
+  it('combines filters with AND, matching sources in any case', () => {
+    const result = selectPrices(
+      PRICES,
+      filters({ sources: new Set(['defillama', 'curve']), minPrice: 600_000n, maxAge: 3600 }),
+      undefined,
+      NOW,
+    )
+    expect(addresses(result)).toEqual(['0xaa'])
+  })
+
+  it('keeps prices exactly at the minimum price and maximum age', () => {
+    expect(
+      addresses(selectPrices(PRICES, filters({ minPrice: 2_000_000n }), undefined, NOW)),
+    ).toEqual(['0xbb', '0xcc'])
+    expect(addresses(selectPrices(PRICES, filters({ maxAge: 600 }), undefined, NOW))).toEqual([
+      '0xaa',
+      '0xcc',
+      '0xdd',
+    ])
+  })
+
+  it('compares the minimum price at the decimals of converted prices', () => {
+    const converted = new Map([
+      ['0xaa', { ...(PRICES.get('0xaa') as StoredPrice), price: 10n ** 18n, priceDecimals: 18 }],
+    ])
+    expect(
+      addresses(selectPrices(converted, filters({ minPrice: 1_000_000n }), undefined, NOW)),
+    ).toEqual(['0xaa'])
+    expect(
+      addresses(selectPrices(converted, filters({ minPrice: 1_000_001n }), undefined, NOW)),
+    ).toEqual([])
+  })
+
+  it('keeps only flagged vaults with vaultsOnly, none when nothing is flagged', () => {
+    expect(
+      addresses(selectPrices(PRICES, filters({ vaultsOnly: true }), new Set(['0xcc']), NOW)),
+    ).toEqual(['0xcc'])
+    expect(addresses(selectPrices(PRICES, filters({ vaultsOnly: true }), undefined, NOW))).toEqual(
+      [],
+    )
+  })
+
+  it('pages through the prices with the cursor of each page', () => {
+    const first = selectPrices(PRICES, filters({ limit: 2 }), undefined, NOW)
+    expect(addresses(first)).toEqual(['0xaa', '0xbb'])
+    expect(first.nextCursor).toBe('0xbb')
+
+    const second = selectPrices(
+      PRICES,
+      filters({ limit: 2, cursor: first.nextCursor }),
+      undefined,
+      NOW,
+    )
+    expect(addresses(second)).toEqual(['0xcc', '0xdd'])
+    // A full last page has no next one
+    expect(second.nextCursor).toBeUndefined()
+  })
+
+  it('resumes after a cursor that is no longer listed', () => {
+    const result = selectPrices(PRICES, filters({ limit: 10, cursor: '0xab' }), undefined, NOW)
+    expect(addresses(result)).toEqual(['0xbb', '0xcc', '0xdd'])
+  })
+
+  it('returns an empty page past the last address', () => {
+    const result = selectPrices(PRICES, filters({ limit: 2, cursor: '0xdd' }), undefined, NOW)
+    expect(result.prices.size).toBe(0)
+    expect(result.nextCursor).toBeUndefined()
+  })
+
+  it('matches mixed-case stored addresses by their lowercase form', () => {
+    const mixed = new Map([entry('0xAB', 1n)])
+    const result = selectPrices(mixed, filters({ addresses: new Set(['0xab']) }), undefined, NOW)
+    expect(addresses(result)).toEqual(['0xab'])
+  })
+})
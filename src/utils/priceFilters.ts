@@ -0,0 +1,94 @@
+import { StoredPrice } from 'models/index'
+import { parseUnits, stringToBool } from 'utils/helpers'
+import { PRICE_DECIMALS, scalePrice } from 'utils/priceResponse'
+
+export const MAX_PAGE_SIZE = 5000
+
+export interface PriceListFilters {
+  sources?: Set<string>
+  // 6 decimals, in the currency prices are returned in
+  minPrice?: bigint
+  // Seconds since the price was stored
+  maxAge?: number
+  addresses?: Set<string>
+  vaultsOnly: boolean
+  limit?: number
+  // Last address of the previous page
+  cursor?: string
+}
+
+const parseList = (value: string | null): Set<string> | undefined => {
+  const items = (value || '')
+    .split(',')
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean)
+  return items.length > 0 ? new Set(items) : undefined
+}
+
+/**
+ * Read the filters of a chain price listing, expects a query that passed validation
+ */
+export const parsePriceListFilters = (query: URLSearchParams): PriceListFilters => {
+  const minPrice = query.get('minPrice')
+  const maxAge = query.get('maxAge')
+  const limit = query.get('limit')
+  return {
+    sources: parseList(query.get('source')),
+    minPrice: minPrice ? parseUnits(minPrice, PRICE_DECIMALS) : undefined,
+    maxAge: maxAge ? parseInt(maxAge, 10) : undefined,
+    addresses: parseList(query.get('addresses')),
+    vaultsOnly: stringToBool(query.get('vaultsOnly') ?? undefined),
+    limit: limit ? parseInt(limit, 10) : undefined,
+    cursor: query.get('cursor')?.toLowerCase() || undefined,
+  }
+}
+
+/**
+ * Stable key of the filters, for ETag variants. Filters on age depend on the clock and have none.
+ */
+export const priceListVariant = (filters: PriceListFilters): string | undefined => {
+  if (filters.maxAge !== undefined) return undefined
+  const list = (items?: Set<string>) => (items ? Array.from(items).sort().join(',') : '')
+  return [
+    list(filters.sources),
+    filters.minPrice?.toString() ?? '',
+    list(filters.addresses),
+    filters.vaultsOnly ? 'vaults' : '',
+    filters.limit ?? '',
+    filters.cursor ?? '',
+  ].join('|')
+}
+
+/**
+ * Apply the filters and return one page of prices in address order, with the cursor of the next
+ * page when there is one. `vaults` holds the addresses the registry flags as vaults.
+ */
+export const selectPrices = (
+  prices: Map<string, StoredPrice>,
+  filters: PriceListFilters,
+  vaults?: Set<string>,
+  now: number = Date.now(),
+): { prices: Map<string, StoredPrice>; nextCursor?: string } => {
+  const { sources, minPrice, maxAge, addresses, vaultsOnly, limit, cursor } = filters
+
+  const matching = Array.from(prices.entries())
+    .map(([address, price]) => [address.toLowerCase(), price] as const)
+    .filter(
+      ([address, price]) =>
+        (!cursor || address > cursor) &&
+        (!addresses || addresses.has(address)) &&
+        (!sources || sources.has(price.source.toLowerCase())) &&
+        (minPrice === undefined ||
+          price.price >= scalePrice(minPrice, PRICE_DECIMALS, price.priceDecimals)) &&
+        (maxAge === undefined || now - price.timestamp <= maxAge * 1000) &&
+        (!vaultsOnly || !!vaults?.has(address)),
+    )
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+
+  if (limit === undefined || matching.length <= limit) {
+    return { prices: new Map(matching) }
+  }
+
+  const page = matching.slice(0, limit)
+  return { prices: new Map(page), nextCursor: page[page.length - 1]?.[0] }
+}
@@ -0,0 +1,71 @@
+import { PriceHistoryPoint } from 'models/index'
+
+// How long history points are kept by backends that trim (0 disables trimming)
+export const HISTORY_RETENTION_MS =
+  parseInt(process.env.PRICE_HISTORY_RETENTION_DAYS || '90', 10) * 24 * 60 * 60 * 1000
+
+const INTERVAL_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+}
+
+/**
+ * Parse an interval like `15m`, `1h`, `1d` or a plain number of seconds into milliseconds
+ */
+export const parseHistoryInterval = (value: string): number | undefined => {
+  const match = value.trim().match(/^(\d+)([smhdw]?)$/)
+  if (!match) return undefined
+
+  const amount = parseInt(match[1]!, 10)
+  const unit = INTERVAL_UNITS[match[2] || 's']!
+  return amount > 0 ? amount * unit : undefined
+}
+
+/**
+ * Parse a unix timestamp in seconds or an ISO-8601 date into milliseconds
+ */
+export const parseHistoryTimestamp = (value: string): number | undefined => {
+  if (/^\d+$/.test(value)) return parseInt(value, 10) * 1000
+
+  const parsed = Date.parse(value)
+  return Number.isNaN(parsed) ? undefined : parsed
+}
+
+/**
+ * Keep the last point of every interval bucket, points must be sorted by timestamp
+ */
+export const downsampleHistory = (
+  points: PriceHistoryPoint[],
+  intervalMs: number,
+): PriceHistoryPoint[] => {
+  const buckets = new Map<number, PriceHistoryPoint>()
+  points.forEach((point) => {
+    buckets.set(Math.floor(point.timestamp / intervalMs), point)
+  })
+  return Array.from(buckets.values())
+}
+
+export const serializeHistoryPoint = (point: PriceHistoryPoint): string =>
+  JSON.stringify({ ...point, price: point.price.toString() })
+
+/**
+ * Parse a stored history point, accepting both raw JSON and already deserialized objects
+ */
+export const parseHistoryPoint = (raw: unknown): PriceHistoryPoint | undefined => {
+  try {
+    const data = (typeof raw === 'string' ? JSON.parse(raw) : raw) as Record<string, any>
+    if (!data || data.price === undefined || typeof data.timestamp !== 'number') return undefined
+
+    return {
+      address: String(data.address).toLowerCase(),
+      price: BigInt(data.price),
+      source: data.source,
+      timestamp: data.timestamp,
+    }
+  } catch {
+    return undefined
+  }
+}
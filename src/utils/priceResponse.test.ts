@@ -0,0 +1,128 @@
+import { StoredPrice } from 'models/index'
+import {
+  formatPrice,
+  isDetailedRequest,
+  parsePriceOutputOptions,
+  STALE_PRICE_SECONDS,
+  scalePrice,
+  serializePrice,
+  toPriceResponse,
+} from 'utils/priceResponse'
+
+const NOW = 1_700_000_000_000
+
+const stored = (price: bigint, overrides: Partial<StoredPrice> = {}): StoredPrice => ({
+  address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+  price,
+  source: 'defillama',
+  timestamp: NOW - 30_000,
+  ...overrides,
+})
+
+describe('formatPrice', () => {
+  it('returns the raw 6-decimal integer by default', () => {
+    expect(formatPrice(1_234_567n)).toBe('1234567')
+  })
+
+  it('formats decimals with bigint math only', () => {
+    // More digits than a double holds
+    expect(formatPrice(123_456_789_012_345_678_901n, 'decimal')).toBe('123456789012345.678901')
+    expect(formatPrice(1_500_000n, 'decimal')).toBe('1.5')
+    expect(formatPrice(2_000_000n, 'decimal')).toBe('2')
+    expect(formatPrice(1n, 'decimal')).toBe('0.000001')
+    expect(formatPrice(0n, 'decimal')).toBe('0')
+  })
+
+  it('returns both shapes', () => {
+    expect(formatPrice(1_500_000n, 'both')).toEqual({ raw: '1500000', decimal: '1.5' })
+  })
+
+  it('keeps raw prices at 6 decimals and every decimal of higher precision prices', () => {
+    expect(formatPrice(333_333_333_333_333n, 'both', 18)).toEqual({
+      raw: '333',
+      decimal: '0.000333333333333333',
+    })
+  })
+})
+
+describe('scalePrice', () => {
+  it('adds decimals', () => {
+    expect(scalePrice(1_500_000n, 6, 18)).toBe(1_500_000_000_000_000_000n)
+  })
+
+  it('truncates removed decimals', () => {
+    expect(scalePrice(1_999_999_999_999_999_999n, 18)).toBe(1_999_999n)
+  })
+
+  it('leaves prices with the same decimals alone', () => {
+    expect(scalePrice(42n, 6, 6)).toBe(42n)
+  })
+})
+
+describe('parsePriceOutputOptions', () => {
+  it('defaults to raw, non-detailed prices', () => {
+    expect(parsePriceOutputOptions(new URLSearchParams())).toEqual({
+      detailed: false,
+      format: 'raw',
+    })
+  })
+
+  it('rejects unknown formats', () => {
+    expect(parsePriceOutputOptions(new URLSearchParams('format=hex'))).toBeUndefined()
+  })
+
+  it('selects detailed responses by query or API version header', () => {
+    expect(isDetailedRequest(new URLSearchParams('detailed=true'))).toBe(true)
+    expect(isDetailedRequest(new URLSearchParams('detailed=false'))).toBe(false)
+    expect(isDetailedRequest(new URLSearchParams(), new Headers({ 'Accept-Version': '2' }))).toBe(
+      true,
+    )
+    expect(isDetailedRequest(new URLSearchParams(), new Headers({ 'X-Api-Version': '2' }))).toBe(
+      true,
+    )
+    expect(isDetailedRequest(new URLSearchParams(), new Headers({ 'Accept-Version': '1' }))).toBe(
+      false,
+    )
+  })
+})
+
+describe('toPriceResponse', () => {
+  it('reports the lowercased address, unix seconds and age', () => {
+    expect(toPriceResponse(stored(1_000_000n), NOW, 'decimal')).toEqual({
+      address: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2',
+      price: '1',
+      source: 'defillama',
+      timestamp: (NOW - 30_000) / 1000,
+      age: 30,
+      stale: false,
+    })
+  })
+
+  it('flags prices older than the staleness budget', () => {
+    const old = stored(1n, { timestamp: NOW - (STALE_PRICE_SECONDS + 1) * 1000 })
+    expect(toPriceResponse(old, NOW).stale).toBe(true)
+  })
+
+  it('never reports a negative age', () => {
+    expect(toPriceResponse(stored(1n, { timestamp: NOW + 5000 }), NOW).age).toBe(0)
+  })
+})
+
+describe('serializePrice', () => {
+  it('returns the formatted price alone unless detailed', () => {
+    expect(serializePrice(stored(2_500_000n), { detailed: false, format: 'decimal' }, NOW)).toBe(
+      '2.5',
+    )
+    expect(
+      serializePrice(stored(2_500_000n), { detailed: true, format: 'raw' }, NOW),
+    ).toMatchObject({ price: '2500000', source: 'defillama' })
+  })
+
+  it('formats converted prices with their own decimals', () => {
+    const converted = stored(2_500_000_000_000_000_001n, { priceDecimals: 18 })
+    expect(serializePrice(converted, { detailed: false, format: 'both' }, NOW)).toEqual({
+      raw: '2500000',
+      decimal: '2.500000000000000001',
+    })
+  })
+})
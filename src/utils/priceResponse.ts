@@ -0,0 +1,93 @@
+import { FormattedPrice, PriceResponse, StoredPrice } from 'models/index'
+import { formatUnits, stringToBool } from 'utils/helpers'
+
+// All prices are stored as integers with 6 decimals
+export const PRICE_DECIMALS = 6
+
+// Prices older than this are flagged as stale in detailed responses
+export const STALE_PRICE_SECONDS = parseInt(process.env.STALE_PRICE_SECONDS || '3600', 10)
+
+// `Accept-Version` / `X-Api-Version` value that selects detailed responses
+const DETAILED_API_VERSION = '2'
+
+// Request headers that select the body shape, so cached responses must `Vary` on them
+export const API_VERSION_HEADERS = 'Accept-Version, X-Api-Version'
+
+export type PriceFormat = 'raw' | 'decimal' | 'both'
+
+export interface PriceOutputOptions {
+  detailed: boolean
+  format: PriceFormat
+}
+
+/**
+ * Detailed responses are requested with `?detailed=true` or an API version header of 2
+ */
+export const isDetailedRequest = (query: URLSearchParams, headers?: Headers): boolean =>
+  stringToBool(query.get('detailed') ?? undefined) ||
+  headers?.get('accept-version') === DETAILED_API_VERSION ||
+  headers?.get('x-api-version') === DETAILED_API_VERSION
+
+export const parsePriceFormat = (value: string | null): PriceFormat | undefined => {
+  if (!value) return 'raw'
+  return ['raw', 'decimal', 'both'].includes(value) ? (value as PriceFormat) : undefined
+}
+
+/**
+ * Read the output options shared by all price routes, undefined when `format` is invalid
+ */
+export const parsePriceOutputOptions = (
+  query: URLSearchParams,
+  headers?: Headers,
+): PriceOutputOptions | undefined => {
+  const format = parsePriceFormat(query.get('format'))
+  if (!format) return undefined
+  return { detailed: isDetailedRequest(query, headers), format }
+}
+
+/**
+ * Change the decimals of a price, truncating when there are fewer
+ */
+export const scalePrice = (price: bigint, from: number, to: number = PRICE_DECIMALS): bigint =>
+  to >= from ? price * 10n ** BigInt(to - from) : price / 10n ** BigInt(from - to)
+
+/**
+ * Format a price with bigint math only. Raw prices always have 6 decimals, decimal ones keep
+ * every decimal of `price`.
+ */
+export const formatPrice = (
+  price: bigint,
+  format: PriceFormat = 'raw',
+  decimals: number = PRICE_DECIMALS,
+): FormattedPrice => {
+  const raw = scalePrice(price, decimals).toString()
+  if (format === 'raw') return raw
+
+  const decimal = formatUnits(price, decimals)
+  return format === 'decimal' ? decimal : { raw, decimal }
+}
+
+export const toPriceResponse = (
+  entry: StoredPrice,
+  now: number = Date.now(),
+  format: PriceFormat = 'raw',
+): PriceResponse => {
+  const age = Math.max(0, Math.floor((now - entry.timestamp) / 1000))
+  return {
+    address: entry.address.toLowerCase(),
+    price: formatPrice(entry.price, format, entry.priceDecimals),
+    source: entry.source,
+    timestamp: Math.floor(entry.timestamp / 1000),
+    age,
+    stale: age > STALE_PRICE_SECONDS,
+  }
+}
+
+export const serializePrice = (
+  entry: StoredPrice,
+  options: PriceOutputOptions,
+  now: number = Date.now(),
+): FormattedPrice | PriceResponse =>
+  options.detailed
+    ? toPriceResponse(entry, now, options.format)
+    : formatPrice(entry.price, options.format, entry.priceDecimals)
@@ -1,3 +1,4 @@
+import { multicallCalls, multicallRequests, rpcRequests } from 'utils/metrics'
 import { Chain, createPublicClient, defineChain, http, PublicClient } from 'viem'
 import { arbitrum, base, fantom, gnosis, mainnet, optimism, polygon } from 'viem/chains'
 
@@ -79,7 +80,11 @@ export function getPublicClient(chainId: number): PublicClient {
 
     const client = createPublicClient({
       chain,
-      transport: http(rpcUrl),
+      transport: http(rpcUrl, {
+        onFetchResponse: (response) => {
+          rpcRequests.inc({ chain: chainId, status: response.status })
+        },
+      }),
       batch: {
         multicall: {
           batchSize: 1024 * 1024, // 1MB batches
@@ -114,16 +119,28 @@ export async function batchReadContracts<T = any>(
     functionName: string
     args?: any[]
   }>,
+  // Latest block when left out
+  blockNumber?: bigint,
 ): Promise<Array<{ status: 'success' | 'failure'; result?: T; error?: Error }>> {
   const client = getPublicClient(chainId)
 
   // Use multicall with allowFailure to handle tokens that might not have certain methods
-  const results = await client.multicall({
-    contracts: contracts.map((c) => ({
-      ...c,
-      args: c.args || [],
-    })),
-    allowFailure: true,
+  const results = await client
+    .multicall({
+      contracts: contracts.map((c) => ({
+        ...c,
+        args: c.args || [],
+      })),
+      allowFailure: true,
+      blockNumber,
+    })
+    .catch((error) => {
+      multicallRequests.inc({ chain: chainId, outcome: 'error' })
+      throw error
+    })
+  multicallRequests.inc({ chain: chainId, outcome: 'success' })
+  results.forEach((result) => {
+    multicallCalls.inc({ chain: chainId, result: result.status })
   })
 
   return results as Array<{ status: 'success' | 'failure'; result?: T; error?: Error }>
@@ -0,0 +1,22 @@
+import { StoredPrice } from 'models/index'
+import { humanizePrice, toChecksumAddress } from 'utils/helpers'
+
+// ydaemon serves 6-decimal integer strings, or floats with `?humanized=true`
+export type YDaemonPrice = string | number
+
+export const toYDaemonPrice = (price: bigint, humanized: boolean): YDaemonPrice =>
+  humanized ? humanizePrice(price) : price.toString()
+
+/**
+ * Prices keyed by checksummed address, the way ydaemon keys its price maps
+ */
+export const toYDaemonPriceMap = (
+  prices: Iterable<StoredPrice>,
+  humanized: boolean,
+): Record<string, YDaemonPrice> => {
+  const response: Record<string, YDaemonPrice> = {}
+  for (const entry of prices) {
+    response[toChecksumAddress(entry.address)] = toYDaemonPrice(entry.price, humanized)
+  }
+  return response
+}